@@ -1,8 +1,8 @@
 'use client'
 
 import React, { useState } from 'react'
-import { X, ChevronRight, ChevronLeft, Database, Shield, CheckCircle, AlertCircle, Loader2 } from 'lucide-react'
-import { testConnection, saveConnection } from '../services/connections'
+import { X, ChevronRight, ChevronLeft, Database, Shield, ShieldAlert, CheckCircle, AlertCircle, Loader2 } from 'lucide-react'
+import { testConnection, saveConnection, PermissionReport } from '../services/connections'
 
 interface ConnectionWizardProps {
   isOpen: boolean
@@ -20,6 +20,13 @@ interface ConnectionData {
   trustServerCertificate: boolean
   encrypt: boolean
   connectionTimeout: number
+  readOnlyIntent: boolean
+}
+
+const PERMISSION_LEVEL_LABELS: Record<PermissionReport['level'], string> = {
+  read_only: 'Read-only',
+  write: 'Can write data',
+  elevated: 'Owner or administrator',
 }
 
 interface ValidationErrors {
@@ -32,6 +39,7 @@ export function ConnectionWizard({ isOpen, onClose, onSuccess }: ConnectionWizar
   const [loading, setLoading] = useState(false)
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle')
   const [testMessage, setTestMessage] = useState('')
+  const [permissionReport, setPermissionReport] = useState<PermissionReport | null>(null)
   const [errors, setErrors] = useState<ValidationErrors>({})
   
   const [connectionData, setConnectionData] = useState<ConnectionData>({
@@ -44,6 +52,7 @@ export function ConnectionWizard({ isOpen, onClose, onSuccess }: ConnectionWizar
     trustServerCertificate: false,
     encrypt: true,
     connectionTimeout: 30,
+    readOnlyIntent: false,
   })
 
   if (!isOpen) return null
@@ -112,6 +121,7 @@ export function ConnectionWizard({ isOpen, onClose, onSuccess }: ConnectionWizar
   const handleTestConnection = async () => {
     setTestStatus('testing')
     setTestMessage('')
+    setPermissionReport(null)
 
     try {
       const result = await testConnection({
@@ -121,10 +131,12 @@ export function ConnectionWizard({ isOpen, onClose, onSuccess }: ConnectionWizar
         username: connectionData.username,
         password: connectionData.password,
         trustServerCertificate: connectionData.trustServerCertificate,
+        readOnlyIntent: connectionData.readOnlyIntent,
       })
 
       setTestStatus('success')
       setTestMessage(result.message || 'Connection successful')
+      setPermissionReport(result.permissions || null)
     } catch (error) {
       setTestStatus('error')
       setTestMessage(error instanceof Error ? error.message : 'Connection failed')
@@ -314,6 +326,19 @@ export function ConnectionWizard({ isOpen, onClose, onSuccess }: ConnectionWizar
                       </label>
                     </div>
 
+                    <div className="flex items-center">
+                      <input
+                        id="readOnlyIntent"
+                        type="checkbox"
+                        checked={connectionData.readOnlyIntent}
+                        onChange={(e) => updateField('readOnlyIntent', e.target.checked)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <label htmlFor="readOnlyIntent" className="ml-2 text-sm text-gray-700">
+                        Read-Only Intent (ApplicationIntent=ReadOnly)
+                      </label>
+                    </div>
+
                     <div>
                       <label htmlFor="connectionTimeout" className="block text-sm font-medium text-gray-700 mb-1">
                         Connection Timeout (seconds)
@@ -476,6 +501,35 @@ export function ConnectionWizard({ isOpen, onClose, onSuccess }: ConnectionWizar
                     </div>
                   </div>
                 )}
+
+                {/* Permission Report */}
+                {testStatus === 'success' && permissionReport && (
+                  <div className={`mt-4 rounded-lg p-4 ${
+                    permissionReport.level === 'read_only'
+                      ? 'bg-green-50 border border-green-200'
+                      : 'bg-yellow-50 border border-yellow-200'
+                  }`}>
+                    <div className="flex items-start">
+                      {permissionReport.level === 'read_only' ? (
+                        <Shield className="h-5 w-5 text-green-600 mt-0.5" />
+                      ) : (
+                        <ShieldAlert className="h-5 w-5 text-yellow-600 mt-0.5" />
+                      )}
+                      <div className="ml-3 text-sm">
+                        <p className="font-medium text-gray-900">
+                          Login permissions: {PERMISSION_LEVEL_LABELS[permissionReport.level]}
+                        </p>
+                        <p className="text-gray-600 mt-1">
+                          {permissionReport.login} (user {permissionReport.user})
+                          {permissionReport.roles.length > 0 && ` · ${permissionReport.roles.join(', ')}`}
+                        </p>
+                        {permissionReport.warnings.map((warning) => (
+                          <p key={warning} className="text-yellow-800 mt-1">{warning}</p>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           )}
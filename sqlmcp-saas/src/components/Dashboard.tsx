@@ -3,6 +3,9 @@
 import React from 'react'
 import { Database, Key, Activity, Plus, Settings, ExternalLink, Trash2, RefreshCw } from 'lucide-react'
 import { ConnectionWizard } from './ConnectionWizard'
+import { ProcedureAllowlist } from './ProcedureAllowlist'
+import { MaskingRules } from './MaskingRules'
+import { WriteModeSettings } from './WriteModeSettings'
 import { getConnections, deleteConnection } from '../services/connections'
 
 interface Connection {
@@ -167,6 +170,13 @@ export default function Dashboard({ user, initialConnections = [], usage }: Dash
                       <ExternalLink className="h-4 w-4 text-gray-400" />
                     </div>
                   </div>
+                  {selectedConnection === connection.id && (
+                    <div className="-mx-6 -mb-4 mt-4 cursor-default" onClick={(e) => e.stopPropagation()}>
+                      <ProcedureAllowlist connectionId={connection.id} />
+                      <MaskingRules connectionId={connection.id} />
+                      <WriteModeSettings connectionId={connection.id} />
+                    </div>
+                  )}
                 </div>
               ))
             )}
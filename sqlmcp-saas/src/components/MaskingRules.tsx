@@ -0,0 +1,185 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Plus, Trash2, Loader2, AlertCircle } from 'lucide-react'
+import {
+  MaskAction,
+  MaskMatchType,
+  SavedMaskingRule,
+  getMaskingRules,
+  saveMaskingRule,
+  deleteMaskingRule,
+} from '../services/maskingRules'
+
+interface MaskingRulesProps {
+  connectionId: string
+}
+
+const MATCH_TYPE_LABELS: Record<MaskMatchType, string> = {
+  name: 'Column name',
+  type: 'Data type',
+  column: 'schema.table.column',
+}
+
+const PATTERN_PLACEHOLDERS: Record<MaskMatchType, string> = {
+  name: 'e.g., *email*',
+  type: 'e.g., nvarchar',
+  column: 'e.g., dbo.Customers.SSN',
+}
+
+const ACTION_LABELS: Record<MaskAction, string> = {
+  hash: 'Hash',
+  partial: 'Partial mask',
+  null: 'Replace with NULL',
+  drop: 'Drop column',
+}
+
+// Columns matched by these rules are masked in query_data and
+// get_table_sample results before they are sent to the AI client.
+export function MaskingRules({ connectionId }: MaskingRulesProps) {
+  const [rules, setRules] = useState<SavedMaskingRule[]>([])
+  const [matchType, setMatchType] = useState<MaskMatchType>('name')
+  const [pattern, setPattern] = useState('')
+  const [action, setAction] = useState<MaskAction>('hash')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError('')
+
+    getMaskingRules(connectionId)
+      .then((loaded) => {
+        if (!cancelled) setRules(loaded)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load masking rules')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [connectionId])
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault()
+    if (!pattern.trim()) return
+
+    setSaving(true)
+    setError('')
+    try {
+      const rule = await saveMaskingRule({ connectionId, matchType, pattern: pattern.trim(), action })
+      setRules([...rules, rule])
+      setPattern('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save masking rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete(ruleId: string) {
+    setSaving(true)
+    setError('')
+    try {
+      await deleteMaskingRule(ruleId)
+      setRules(rules.filter((rule) => rule.id !== ruleId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete masking rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="px-6 py-4 border-t border-gray-200 bg-gray-50">
+      <h3 className="text-sm font-semibold text-gray-900">Data Masking</h3>
+      <p className="text-xs text-gray-500 mt-1 mb-3">
+        Matching columns are hashed, partially masked, nulled or dropped before results reach the AI client.
+      </p>
+
+      {loading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+      ) : (
+        <>
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-3">No masking rules.</p>
+          ) : (
+            <ul className="mb-3 space-y-1">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    <span className="text-gray-500">{MATCH_TYPE_LABELS[rule.matchType]}</span>{' '}
+                    <span className="font-mono">{rule.pattern}</span> &rarr; {ACTION_LABELS[rule.action]}
+                  </span>
+                  <button
+                    onClick={() => handleDelete(rule.id)}
+                    disabled={saving}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    aria-label={`Remove rule ${rule.pattern}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleAdd} className="flex items-center space-x-2">
+            <select
+              value={matchType}
+              onChange={(e) => setMatchType(e.target.value as MaskMatchType)}
+              className="px-2 py-2 text-sm border border-gray-300 rounded-lg"
+              aria-label="Match by"
+            >
+              {Object.entries(MATCH_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder={PATTERN_PLACEHOLDERS[matchType]}
+            />
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value as MaskAction)}
+              className="px-2 py-2 text-sm border border-gray-300 rounded-lg"
+              aria-label="Action"
+            >
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={saving || !pattern.trim()}
+              className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </button>
+          </form>
+        </>
+      )}
+
+      {error && (
+        <p className="mt-2 flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-1" />
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Plus, Trash2, Loader2, AlertCircle } from 'lucide-react'
+import { getConnection, updateAllowedProcedures } from '../services/connections'
+
+interface ProcedureAllowlistProps {
+  connectionId: string
+}
+
+// Stored procedures listed here can be run through the execute_procedure MCP
+// tool. Everything else stays read-only.
+export function ProcedureAllowlist({ connectionId }: ProcedureAllowlistProps) {
+  const [procedures, setProcedures] = useState<string[]>([])
+  const [newProcedure, setNewProcedure] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError('')
+
+    getConnection(connectionId)
+      .then((connection) => {
+        if (!cancelled) setProcedures(connection.allowedProcedures || [])
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load procedures')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [connectionId])
+
+  async function save(next: string[]) {
+    setSaving(true)
+    setError('')
+    try {
+      const updated = await updateAllowedProcedures(connectionId, next)
+      setProcedures(updated.allowedProcedures || next)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save procedures')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault()
+    const name = newProcedure.trim()
+    if (!name) return
+
+    // Unqualified names live in dbo, matching the MCP server
+    const qualified = name.includes('.') ? name : `dbo.${name}`
+    if (procedures.some((p) => p.toLowerCase() === qualified.toLowerCase())) {
+      setNewProcedure('')
+      return
+    }
+    if (await save([...procedures, qualified])) {
+      setNewProcedure('')
+    }
+  }
+
+  return (
+    <div className="px-6 py-4 border-t border-gray-200 bg-gray-50">
+      <h3 className="text-sm font-semibold text-gray-900">Executable Stored Procedures</h3>
+      <p className="text-xs text-gray-500 mt-1 mb-3">
+        AI clients can run only the procedures listed here, using the execute_procedure tool.
+      </p>
+
+      {loading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+      ) : (
+        <>
+          {procedures.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-3">No procedures allowed.</p>
+          ) : (
+            <ul className="mb-3 space-y-1">
+              {procedures.map((procedure) => (
+                <li key={procedure} className="flex items-center justify-between text-sm font-mono">
+                  {procedure}
+                  <button
+                    onClick={() => save(procedures.filter((p) => p !== procedure))}
+                    disabled={saving}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    aria-label={`Remove ${procedure}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleAdd} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={newProcedure}
+              onChange={(e) => setNewProcedure(e.target.value)}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g., dbo.GetMonthlySales"
+            />
+            <button
+              type="submit"
+              disabled={saving || !newProcedure.trim()}
+              className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Allow
+            </button>
+          </form>
+        </>
+      )}
+
+      {error && (
+        <p className="mt-2 flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-1" />
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
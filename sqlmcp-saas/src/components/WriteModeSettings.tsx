@@ -0,0 +1,149 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Plus, Trash2, Loader2, AlertCircle } from 'lucide-react'
+import { getConnection, updateWriteMode } from '../services/connections'
+
+interface WriteModeSettingsProps {
+  connectionId: string
+}
+
+// With write mode on, the execute_dml MCP tool can insert, update and delete
+// rows in the tables listed here. Every write is previewed in a rolled-back
+// transaction and committed only after the client confirms it.
+export function WriteModeSettings({ connectionId }: WriteModeSettingsProps) {
+  const [writeMode, setWriteMode] = useState(false)
+  const [tables, setTables] = useState<string[]>([])
+  const [newTable, setNewTable] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError('')
+
+    getConnection(connectionId)
+      .then((connection) => {
+        if (cancelled) return
+        setWriteMode(!!connection.writeMode)
+        setTables(connection.writableTables || [])
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load write mode')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [connectionId])
+
+  async function save(nextWriteMode: boolean, nextTables: string[]) {
+    setSaving(true)
+    setError('')
+    try {
+      const updated = await updateWriteMode(connectionId, nextWriteMode, nextTables)
+      setWriteMode(updated.writeMode ?? nextWriteMode)
+      setTables(updated.writableTables || nextTables)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save write mode')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault()
+    const name = newTable.trim()
+    if (!name) return
+
+    // Unqualified names live in dbo, matching the MCP server
+    const qualified = name.includes('.') ? name : `dbo.${name}`
+    if (tables.some((t) => t.toLowerCase() === qualified.toLowerCase())) {
+      setNewTable('')
+      return
+    }
+    if (await save(writeMode, [...tables, qualified])) {
+      setNewTable('')
+    }
+  }
+
+  return (
+    <div className="px-6 py-4 border-t border-gray-200 bg-gray-50">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">Write Mode</h3>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={writeMode}
+            onChange={(e) => save(e.target.checked, tables)}
+            disabled={loading || saving}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600"
+          />
+          <span>{writeMode ? 'Enabled' : 'Disabled'}</span>
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mt-1 mb-3">
+        AI clients can change rows in the tables listed here with the execute_dml tool. Each write is dry-run first
+        and committed only with its confirmation token.
+      </p>
+
+      {loading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+      ) : (
+        <>
+          {tables.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-3">No writable tables.</p>
+          ) : (
+            <ul className="mb-3 space-y-1">
+              {tables.map((table) => (
+                <li key={table} className="flex items-center justify-between text-sm font-mono">
+                  {table}
+                  <button
+                    onClick={() => save(writeMode, tables.filter((t) => t !== table))}
+                    disabled={saving}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    aria-label={`Remove ${table}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleAdd} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={newTable}
+              onChange={(e) => setNewTable(e.target.value)}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g., dbo.Orders or sales.*"
+            />
+            <button
+              type="submit"
+              disabled={saving || !newTable.trim()}
+              className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Allow
+            </button>
+          </form>
+        </>
+      )}
+
+      {error && (
+        <p className="mt-2 flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-1" />
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
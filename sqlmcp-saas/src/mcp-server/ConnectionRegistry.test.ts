@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { ConnectionRegistry } from './ConnectionRegistry'
+
+describe('ConnectionRegistry', () => {
+  it('should resolve named connections and fall back to the active one', () => {
+    const registry = new ConnectionRegistry<string>(3)
+    expect(() => registry.get()).toThrow('Database not connected')
+
+    registry.add('prod', 'prod pool')
+    registry.add('staging', 'staging pool')
+
+    expect(registry.active).toBe('staging')
+    expect(registry.get()).toBe('staging pool')
+    expect(registry.get('prod')).toBe('prod pool')
+    expect(() => registry.get('dev')).toThrow("Unknown connection 'dev'. Open connections: prod, staging")
+
+    registry.switch('prod')
+    expect(registry.get()).toBe('prod pool')
+  })
+
+  it('should enforce the limit unless an open name is replaced', () => {
+    const registry = new ConnectionRegistry<string>(2)
+    registry.add('prod', 'prod pool')
+    registry.add('staging', 'staging pool')
+
+    expect(() => registry.assertCapacity('dev')).toThrow('Connection limit reached (2)')
+    expect(registry.add('prod', 'new prod pool')).toBe('prod pool')
+    expect(registry.size).toBe(2)
+
+    expect(registry.clear()).toEqual(['new prod pool', 'staging pool'])
+    expect(registry.active).toBeNull()
+  })
+})
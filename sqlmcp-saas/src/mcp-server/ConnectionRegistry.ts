@@ -0,0 +1,81 @@
+// Named database connections held by one MCP session. One of them is
+// active and serves the tool calls that do not name a connection.
+export class ConnectionRegistry<T> {
+  private connections = new Map<string, T>()
+  private activeName: string | null = null
+  private maxConnections: number
+
+  constructor(maxConnections: number) {
+    this.maxConnections = maxConnections
+  }
+
+  get active(): string | null {
+    return this.activeName
+  }
+
+  get size(): number {
+    return this.connections.size
+  }
+
+  get limit(): number {
+    return this.maxConnections
+  }
+
+  // The named connection, or the active one when no name is given
+  find(name?: string): T | undefined {
+    const key = name || this.activeName
+    return key ? this.connections.get(key) : undefined
+  }
+
+  get(name?: string): T {
+    const connection = this.find(name)
+    if (connection) return connection
+
+    if (!name || this.connections.size === 0) {
+      throw new Error('Database not connected. Please use connect_database first.')
+    }
+    throw new Error(`Unknown connection '${name}'. Open connections: ${this.names().join(', ')}`)
+  }
+
+  // Checked before a new pool is opened, so a session over its limit never
+  // connects. Reusing an open name replaces that connection instead.
+  assertCapacity(name: string): void {
+    if (!this.connections.has(name) && this.connections.size >= this.maxConnections) {
+      throw new Error(
+        `Connection limit reached (${this.maxConnections}). Reconnect under one of the open names to replace it: ${this.names().join(', ')}`
+      )
+    }
+  }
+
+  // Adds the connection and makes it active. Returns the connection it
+  // replaced, which the caller should close.
+  add(name: string, connection: T): T | undefined {
+    this.assertCapacity(name)
+    const replaced = this.connections.get(name)
+    this.connections.set(name, connection)
+    this.activeName = name
+    return replaced
+  }
+
+  switch(name: string): T {
+    const connection = this.get(name)
+    this.activeName = name
+    return connection
+  }
+
+  entries(): [string, T][] {
+    return Array.from(this.connections.entries())
+  }
+
+  // Removes every connection and returns them for closing
+  clear(): T[] {
+    const connections = Array.from(this.connections.values())
+    this.connections.clear()
+    this.activeName = null
+    return connections
+  }
+
+  private names(): string[] {
+    return Array.from(this.connections.keys())
+  }
+}
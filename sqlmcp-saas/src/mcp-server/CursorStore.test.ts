@@ -0,0 +1,40 @@
+import { vi, describe, it, expect, afterEach } from 'vitest'
+import { CursorStore } from './CursorStore'
+
+describe('CursorStore', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should return the cursor state until it expires', () => {
+    vi.useFakeTimers()
+    const store = new CursorStore(1000)
+    const id = store.create({ connection: 'prod', query: 'SELECT * FROM Orders', offset: 100, pageSize: 100 })
+
+    expect(store.get(id)).toEqual({ connection: 'prod', query: 'SELECT * FROM Orders', offset: 100, pageSize: 100 })
+
+    vi.advanceTimersByTime(1000)
+    expect(() => store.get(id)).toThrow('Cursor is invalid or has expired')
+  })
+
+  it('should drop the oldest cursors past the limit', () => {
+    const store = new CursorStore(60000, 2)
+    const first = store.create({ connection: 'prod', query: 'SELECT 1', offset: 10, pageSize: 10 })
+    store.create({ connection: 'prod', query: 'SELECT 2', offset: 10, pageSize: 10 })
+    store.create({ connection: 'prod', query: 'SELECT 3', offset: 10, pageSize: 10 })
+
+    expect(store.size).toBe(2)
+    expect(() => store.get(first)).toThrow()
+  })
+
+  it('should clear the cursors of one connection', () => {
+    const store = new CursorStore()
+    const prod = store.create({ connection: 'prod', query: 'SELECT 1', offset: 10, pageSize: 10 })
+    const staging = store.create({ connection: 'staging', query: 'SELECT 1', offset: 10, pageSize: 10 })
+
+    store.clear('staging')
+
+    expect(store.get(prod).connection).toBe('prod')
+    expect(() => store.get(staging)).toThrow()
+  })
+})
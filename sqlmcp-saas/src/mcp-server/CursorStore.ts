@@ -0,0 +1,74 @@
+import crypto from 'crypto'
+
+// Where the next page of a query starts. The query is kept as the caller
+// wrote it and is re-validated and re-paged for every page.
+export interface QueryCursor {
+  // Name of the connection the query runs against
+  connection: string
+  query: string
+  offset: number
+  pageSize: number
+}
+
+interface CursorEntry extends QueryCursor {
+  expiresAt: number
+}
+
+// Hands out opaque cursor IDs for paged query results. Cursors live for
+// ttlMs after they are issued; the oldest are dropped past maxCursors.
+export class CursorStore {
+  private cursors = new Map<string, CursorEntry>()
+  private ttlMs: number
+  private maxCursors: number
+
+  constructor(ttlMs: number = 10 * 60 * 1000, maxCursors: number = 100) {
+    this.ttlMs = ttlMs
+    this.maxCursors = maxCursors
+  }
+
+  create(cursor: QueryCursor): string {
+    this.prune()
+
+    const id = crypto.randomBytes(16).toString('base64url')
+    this.cursors.set(id, { ...cursor, expiresAt: Date.now() + this.ttlMs })
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.cursors.size > this.maxCursors) {
+      this.cursors.delete(this.cursors.keys().next().value as string)
+    }
+    return id
+  }
+
+  get(id: string): QueryCursor {
+    const entry = this.cursors.get(id)
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.cursors.delete(id)
+      throw new Error('Cursor is invalid or has expired. Run the query again to get a new cursor')
+    }
+
+    const { expiresAt, ...cursor } = entry
+    return cursor
+  }
+
+  // Drops every cursor, or only those of one connection
+  clear(connection?: string): void {
+    if (connection === undefined) {
+      this.cursors.clear()
+      return
+    }
+    this.cursors.forEach((entry, id) => {
+      if (entry.connection === connection) this.cursors.delete(id)
+    })
+  }
+
+  get size(): number {
+    return this.cursors.size
+  }
+
+  private prune(): void {
+    const now = Date.now()
+    this.cursors.forEach((entry, id) => {
+      if (entry.expiresAt <= now) this.cursors.delete(id)
+    })
+  }
+}
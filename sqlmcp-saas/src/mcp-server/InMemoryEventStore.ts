@@ -0,0 +1,56 @@
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import crypto from 'crypto'
+
+interface StoredEvent {
+  eventId: EventId
+  streamId: StreamId
+  message: JSONRPCMessage
+}
+
+// Keeps recent SSE events per session so clients can resume a dropped stream
+// with Last-Event-ID. Each session's transport gets its own store, so events
+// are discarded together with the session.
+export class InMemoryEventStore implements EventStore {
+  private events: StoredEvent[] = []
+  private maxEvents: number
+
+  constructor(maxEvents: number = 500) {
+    this.maxEvents = maxEvents
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`
+    this.events.push({ eventId, streamId, message })
+
+    // Keep only the most recent events
+    if (this.events.length > this.maxEvents) {
+      this.events.shift()
+    }
+
+    return eventId
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.find((event) => event.eventId === eventId)?.streamId
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const index = this.events.findIndex((event) => event.eventId === lastEventId)
+    if (index === -1) {
+      throw new Error(`Unknown event ID: ${lastEventId}`)
+    }
+
+    const streamId = this.events[index].streamId
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message)
+      }
+    }
+
+    return streamId
+  }
+}
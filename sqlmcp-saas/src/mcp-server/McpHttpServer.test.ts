@@ -0,0 +1,119 @@
+import { vi, afterEach, describe, it, expect } from 'vitest'
+import { generateApiKey } from '../services/apiKeyTokens'
+import { ApiKeyRecord, ApiKeyStore } from './apiKeyAuth'
+import { McpHttpServer } from './McpHttpServer'
+import { SqlServerMcpServer } from './SqlServerMcpServer'
+
+function store(keys: Record<string, ApiKeyRecord>): ApiKeyStore {
+  return {
+    findByHash: async (hashedKey) => keys[hashedKey] || null,
+    markUsed: async () => undefined,
+  }
+}
+
+function key(overrides: Partial<ApiKeyRecord> = {}): ApiKeyRecord {
+  return { id: 'key-1', userId: 'user-1', name: 'Claude Desktop', isActive: true, expiresAt: null, ...overrides }
+}
+
+let httpServer: McpHttpServer | null = null
+
+afterEach(async () => {
+  await httpServer?.close()
+  httpServer = null
+})
+
+async function serve(
+  keys: Record<string, ApiKeyRecord>,
+  createSession = async (apiKey: ApiKeyRecord) => new SqlServerMcpServer(apiKey.userId, apiKey.id)
+): Promise<McpHttpServer> {
+  httpServer = new McpHttpServer({
+    port: 0,
+    host: '127.0.0.1',
+    apiKeyStore: store(keys),
+    apiKeyRecheckMs: 0,
+    createSession: async (_req, apiKey) => createSession(apiKey!),
+  })
+  await httpServer.listen()
+  return httpServer
+}
+
+async function post(server: McpHttpServer, token: string, body: object, sessionId?: string) {
+  const response = await fetch(`http://127.0.0.1:${server.getPort()}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: `Bearer ${token}`,
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': '2025-03-26' } : {}),
+    },
+    body: JSON.stringify(body),
+  })
+  return { status: response.status, sessionId: response.headers.get('mcp-session-id'), text: await response.text() }
+}
+
+const ping = { jsonrpc: '2.0', id: 2, method: 'ping' }
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+}
+
+async function openSession(server: McpHttpServer, token: string): Promise<string> {
+  const initialized = await post(server, token, initialize)
+  expect(initialized.status).toBe(200)
+  return initialized.sessionId!
+}
+
+describe('McpHttpServer', () => {
+  it('should close a session and refuse its requests once its API key is revoked', async () => {
+    const { token, hashedKey } = generateApiKey()
+    const record = key()
+    const server = await serve({ [hashedKey]: record })
+    const sessionId = await openSession(server, token)
+
+    expect((await post(server, token, ping, sessionId)).status).toBe(200)
+
+    record.isActive = false
+    const refused = await post(server, token, ping, sessionId)
+    expect(refused.status).toBe(401)
+    expect(refused.text).toContain("API key 'Claude Desktop' has been revoked")
+    expect(server.getSessionCount()).toBe(0)
+    expect((await post(server, token, ping, sessionId)).status).toBe(404)
+  })
+
+  it('should refuse session requests that send a different API key', async () => {
+    const first = generateApiKey()
+    const second = generateApiKey()
+    const server = await serve({ [first.hashedKey]: key(), [second.hashedKey]: key({ id: 'key-2' }) })
+    const sessionId = await openSession(server, first.token)
+
+    const refused = await post(server, second.token, ping, sessionId)
+    expect(refused.status).toBe(401)
+    expect(refused.text).toContain('Send the API key this session was opened with')
+    expect(server.getSessionCount()).toBe(1)
+    expect((await post(server, first.token, ping, sessionId)).status).toBe(200)
+  })
+
+  it('should disconnect the server of a handshake that never opens a session', async () => {
+    const { token, hashedKey } = generateApiKey()
+    let sessionServer: SqlServerMcpServer | null = null
+    const server = await serve({ [hashedKey]: key() }, async (apiKey) => {
+      sessionServer = new SqlServerMcpServer(apiKey.userId, apiKey.id)
+      vi.spyOn(sessionServer, 'disconnect')
+      return sessionServer
+    })
+
+    // Without an Accept header the transport refuses the handshake
+    const response = await fetch(`http://127.0.0.1:${server.getPort()}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(initialize),
+    })
+
+    expect(response.status).toBe(406)
+    expect(server.getSessionCount()).toBe(0)
+    expect(sessionServer!.disconnect).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,371 @@
+import http, { IncomingMessage, ServerResponse } from 'http'
+import crypto from 'crypto'
+import { AddressInfo } from 'net'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import { SqlServerMcpServer } from './SqlServerMcpServer'
+import { InMemoryEventStore } from './InMemoryEventStore'
+import { ApiKeyError, ApiKeyRecord, ApiKeyStore, checkApiKey, readApiKey, verifyApiKey } from './apiKeyAuth'
+import { PoolManager } from './PoolManager'
+import { hashApiKey } from '../services/apiKeyTokens'
+
+interface McpHttpServerOptions {
+  port?: number
+  host?: string
+  path?: string
+  sessionTimeoutMs?: number
+  maxBodyBytes?: number
+  // When set, every session handshake must present an active API key, and
+  // every later request in the session the same key
+  apiKeyStore?: ApiKeyStore
+  // How long a session trusts its key before reading it from the store
+  // again. A revoked or expired key closes the session at the next check.
+  apiKeyRecheckMs?: number
+  // Pools shared by the sessions; drained once they are closed on shutdown
+  poolManager?: PoolManager
+  // Creates the MCP server for a new session, given the verified API key.
+  // Returning null rejects the session with 401.
+  createSession: (req: IncomingMessage, apiKey: ApiKeyRecord | null) => Promise<SqlServerMcpServer | null>
+}
+
+// The API key a session was opened with, and when it was last found active
+interface SessionKey {
+  hashedKey: string
+  checkedAt: number
+}
+
+interface McpSession {
+  id: string
+  server: SqlServerMcpServer
+  transport: StreamableHTTPServerTransport | SSEServerTransport
+  key: SessionKey | null
+  lastActivity: number
+}
+
+interface SessionStart {
+  server: SqlServerMcpServer
+  key: SessionKey | null
+}
+
+// Hosts many concurrent MCP sessions in one process. Each session is bound to
+// its own SqlServerMcpServer instance:
+//
+//   POST/GET/DELETE {path}     Streamable HTTP (Mcp-Session-Id header)
+//   GET  {path}/sse            Legacy HTTP+SSE stream
+//   POST {path}/messages       Legacy HTTP+SSE messages (?sessionId=)
+export class McpHttpServer {
+  private httpServer: http.Server
+  private sessions = new Map<string, McpSession>()
+  private options: Required<Omit<McpHttpServerOptions, 'createSession' | 'host' | 'apiKeyStore' | 'poolManager'>> &
+    Pick<McpHttpServerOptions, 'createSession' | 'host' | 'apiKeyStore' | 'poolManager'>
+  private sweepTimer: NodeJS.Timeout | null = null
+
+  constructor(options: McpHttpServerOptions) {
+    this.options = {
+      port: 3001,
+      path: '/mcp',
+      sessionTimeoutMs: 30 * 60 * 1000,
+      maxBodyBytes: 4 * 1024 * 1024,
+      apiKeyRecheckMs: 30 * 1000,
+      ...options,
+    }
+
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('MCP HTTP request failed:', error)
+        if (!res.headersSent) {
+          this.sendError(res, 500, -32603, 'Internal server error')
+        }
+      })
+    })
+  }
+
+  async listen(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this.httpServer.listen(this.options.port, this.options.host, resolve)
+    )
+    // Port 0 binds any free port
+    this.options.port = (this.httpServer.address() as AddressInfo).port
+
+    // Close sessions whose client went away without a DELETE, and those whose
+    // key was revoked while they sat idle
+    this.sweepTimer = setInterval(() => {
+      this.closeIdleSessions()
+      this.recheckApiKeys()
+    }, 60 * 1000)
+    this.sweepTimer.unref()
+
+    console.log(`MCP HTTP server listening on port ${this.options.port}${this.options.path}`)
+  }
+
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = null
+    }
+
+    await Promise.all(Array.from(this.sessions.keys()).map((id) => this.closeSession(id)))
+    await this.options.poolManager?.drain()
+    await new Promise<void>((resolve) => this.httpServer.close(() => resolve()))
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size
+  }
+
+  getPort(): number {
+    return this.options.port
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const { path } = this.options
+
+    if (url.pathname === path) {
+      return this.handleStreamableRequest(req, res)
+    }
+    if (url.pathname === `${path}/sse` && req.method === 'GET') {
+      return this.handleSseConnect(req, res)
+    }
+    if (url.pathname === `${path}/messages` && req.method === 'POST') {
+      return this.handleSseMessage(req, res, url.searchParams.get('sessionId'))
+    }
+
+    this.sendError(res, 404, -32601, 'Not found')
+  }
+
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined
+    const body = req.method === 'POST' ? await this.readBody(req, res) : undefined
+    if (req.method === 'POST' && body === undefined) return
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId)
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        return this.sendError(res, 404, -32001, 'Session not found')
+      }
+      if (!(await this.authorizeSessionRequest(session, req, res))) return
+      session.lastActivity = Date.now()
+      return session.transport.handleRequest(req, res, body)
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      return this.sendError(res, 400, -32000, 'Bad Request: No valid session ID provided')
+    }
+
+    const start = await this.createServer(req, res)
+    if (!start) return
+    const { server, key } = start
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      eventStore: new InMemoryEventStore(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { id, server, transport, key, lastActivity: Date.now() })
+      },
+    })
+    // Until the handshake registers the session, closeSession cannot reach
+    // the server, so it is disconnected here
+    const registered = () => transport.sessionId !== undefined && this.sessions.has(transport.sessionId)
+    let disconnected = false
+    const disconnectUnregistered = async () => {
+      if (disconnected) return
+      disconnected = true
+      try {
+        await server.disconnect()
+      } catch (error) {
+        console.error('Error disconnecting unregistered MCP session:', error)
+      }
+    }
+    transport.onclose = () => {
+      if (registered()) {
+        this.closeSession(transport.sessionId!)
+      } else {
+        disconnectUnregistered()
+      }
+    }
+    transport.onerror = () => {
+      if (!registered()) {
+        transport.close().catch(() => disconnectUnregistered())
+      }
+    }
+
+    try {
+      await server.connect(transport)
+      await transport.handleRequest(req, res, body)
+    } finally {
+      // A handshake that was refused or failed leaves no session behind
+      if (!registered()) {
+        await transport.close().catch(() => undefined)
+        await disconnectUnregistered()
+      }
+    }
+  }
+
+  private async handleSseConnect(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const start = await this.createServer(req, res)
+    if (!start) return
+    const { server, key } = start
+
+    const transport = new SSEServerTransport(`${this.options.path}/messages`, res)
+    const id = transport.sessionId
+    this.sessions.set(id, { id, server, transport, key, lastActivity: Date.now() })
+    res.on('close', () => this.closeSession(id))
+
+    await server.connect(transport)
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      return this.sendError(res, 404, -32001, 'Session not found')
+    }
+    if (!(await this.authorizeSessionRequest(session, req, res))) return
+
+    const body = await this.readBody(req, res)
+    if (body === undefined) return
+
+    session.lastActivity = Date.now()
+    await session.transport.handlePostMessage(req, res, body)
+  }
+
+  // Authenticates the handshake and creates the session's server. Sends the
+  // 401 itself and returns null when the client is not let in.
+  private async createServer(req: IncomingMessage, res: ServerResponse): Promise<SessionStart | null> {
+    let apiKey: ApiKeyRecord | null = null
+    let key: SessionKey | null = null
+    if (this.options.apiKeyStore) {
+      try {
+        const token = readApiKey(req)
+        apiKey = await verifyApiKey(this.options.apiKeyStore, token)
+        key = { hashedKey: hashApiKey(token!), checkedAt: Date.now() }
+      } catch (error) {
+        if (error instanceof ApiKeyError) {
+          this.sendError(res, 401, -32001, error.message)
+          return null
+        }
+        throw error
+      }
+    }
+
+    const server = await this.options.createSession(req, apiKey)
+    if (!server) {
+      this.sendError(res, 401, -32001, 'Unauthorized')
+      return null
+    }
+    return { server, key }
+  }
+
+  // Admits a request to an open session: it must carry the key the session
+  // was opened with, and that key must still be active. Sends the 401 itself
+  // and returns false otherwise.
+  private async authorizeSessionRequest(
+    session: McpSession,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<boolean> {
+    if (!session.key) return true
+
+    const token = readApiKey(req)
+    if (!token || hashApiKey(token) !== session.key.hashedKey) {
+      this.sendError(res, 401, -32001, 'Send the API key this session was opened with')
+      return false
+    }
+
+    const error = await this.recheckApiKey(session)
+    if (error) {
+      this.sendError(res, 401, -32001, error.message)
+      return false
+    }
+    return true
+  }
+
+  // Reads the session's key from the store again once the last check is
+  // older than apiKeyRecheckMs. Closes the session and returns the reason
+  // when the key has been revoked or has expired since.
+  private async recheckApiKey(session: McpSession): Promise<ApiKeyError | null> {
+    const { apiKeyStore, apiKeyRecheckMs } = this.options
+    if (!apiKeyStore || !session.key || Date.now() - session.key.checkedAt < apiKeyRecheckMs) {
+      return null
+    }
+
+    try {
+      await checkApiKey(apiKeyStore, session.key.hashedKey)
+      session.key.checkedAt = Date.now()
+      return null
+    } catch (error) {
+      if (!(error instanceof ApiKeyError)) throw error
+      await this.closeSession(session.id)
+      return error
+    }
+  }
+
+  // Tears a session down exactly once, whichever side closed it first
+  private async closeSession(id: string): Promise<void> {
+    const session = this.sessions.get(id)
+    if (!session) return
+    this.sessions.delete(id)
+
+    try {
+      await session.transport.close()
+    } catch (error) {
+      console.error(`Error closing MCP transport for session ${id}:`, error)
+    }
+
+    try {
+      await session.server.disconnect()
+    } catch (error) {
+      console.error(`Error disconnecting MCP session ${id}:`, error)
+    }
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.options.sessionTimeoutMs
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.lastActivity < cutoff) {
+        this.closeSession(session.id)
+      }
+    }
+  }
+
+  private recheckApiKeys(): void {
+    for (const session of Array.from(this.sessions.values())) {
+      this.recheckApiKey(session).catch((error) =>
+        console.error(`Error checking the API key of MCP session ${session.id}:`, error)
+      )
+    }
+  }
+
+  // Reads and parses a JSON body. Sends the error response itself and returns
+  // undefined when the body is too large or malformed.
+  private async readBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = []
+    let size = 0
+
+    for await (const chunk of req) {
+      size += chunk.length
+      if (size > this.options.maxBodyBytes) {
+        this.sendError(res, 413, -32600, 'Request body too large')
+        return undefined
+      }
+      chunks.push(chunk)
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+    } catch {
+      this.sendError(res, 400, -32700, 'Parse error')
+      return undefined
+    }
+  }
+
+  private sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }))
+  }
+}
@@ -0,0 +1,102 @@
+import { EventEmitter } from 'events'
+import { describe, it, expect } from 'vitest'
+import sql from 'mssql'
+import { PoolLimitError, PoolManager } from './PoolManager'
+
+class FakePool extends EventEmitter {
+  connected = false
+  closed = false
+  size = 1
+  available = 1
+  borrowed = 0
+  pending = 0
+
+  async connect() {
+    this.connected = true
+    return this
+  }
+
+  async close() {
+    this.connected = false
+    this.closed = true
+  }
+}
+
+const config = (database: string, password = 'secret') =>
+  ({ server: 'db.example.com', database, user: 'reader', password }) as sql.config
+
+function createManager(maxPools: number, maxPoolsPerTenant: number) {
+  const pools: FakePool[] = []
+  const manager = new PoolManager({
+    maxPools,
+    maxPoolsPerTenant,
+    idleTimeoutMs: 1000,
+    createPool: () => {
+      const pool = new FakePool()
+      pools.push(pool)
+      return pool as unknown as sql.ConnectionPool
+    },
+  })
+  return { manager, pools }
+}
+
+describe('PoolManager', () => {
+  it('should share a pool within a tenant and isolate tenants and settings', async () => {
+    const { manager, pools } = createManager(10, 5)
+
+    const first = await manager.acquire('user-1', 'conn-1', config('sales'))
+    const second = await manager.acquire('user-1', 'conn-1', config('sales'))
+    const otherTenant = await manager.acquire('user-2', 'conn-1', config('sales'))
+    const newPassword = await manager.acquire('user-1', 'conn-1', config('sales', 'rotated'))
+
+    expect(second.pool).toBe(first.pool)
+    expect(otherTenant.pool).not.toBe(first.pool)
+    expect(newPassword.pool).not.toBe(first.pool)
+    expect(pools).toHaveLength(3)
+    expect(manager.metrics()).toMatchObject({ pools: 3, tenants: 2, created: 3 })
+    expect(manager.metrics().health[0]).toMatchObject({ tenantId: 'user-1', leases: 2, connected: true, size: 1 })
+
+    // The pool stays open until its last lease is released and it sits idle
+    await first.release()
+    await first.release()
+    await otherTenant.release()
+    await newPassword.release()
+    expect(await manager.evictIdle(Date.now() + 5000)).toBe(2)
+    await second.release()
+    expect(await manager.evictIdle(Date.now() + 5000)).toBe(1)
+    expect(pools.every((pool) => pool.closed)).toBe(true)
+  })
+
+  it('should make room by evicting idle pools and refuse when none are idle', async () => {
+    const { manager, pools } = createManager(3, 2)
+
+    const a = await manager.acquire('user-1', 'a', config('a'))
+    await manager.acquire('user-1', 'b', config('b'))
+    await a.release()
+
+    // Over the tenant cap: the idle pool makes room
+    await manager.acquire('user-1', 'c', config('c'))
+    expect(pools[0].closed).toBe(true)
+
+    const error = await manager.acquire('user-1', 'd', config('d')).catch((caught) => caught)
+    expect(error).toBeInstanceOf(PoolLimitError)
+    expect(error.scope).toBe('tenant')
+
+    await manager.acquire('user-2', 'a', config('a'))
+    await expect(manager.acquire('user-3', 'a', config('a'))).rejects.toMatchObject({ scope: 'global' })
+  })
+
+  it('should wait for leases before closing every pool on drain', async () => {
+    const { manager, pools } = createManager(10, 5)
+    const lease = await manager.acquire('user-1', 'a', config('a'))
+
+    const drained = manager.drain(60000)
+    await expect(manager.acquire('user-1', 'b', config('b'))).rejects.toThrow('shutting down')
+    expect(pools[0].closed).toBe(false)
+
+    await lease.release()
+    await drained
+    expect(pools[0].closed).toBe(true)
+    expect(manager.metrics().pools).toBe(0)
+  })
+})
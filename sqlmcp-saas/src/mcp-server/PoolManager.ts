@@ -0,0 +1,303 @@
+// Database connection pools shared by the MCP sessions of a process.
+//
+// Every pool is its own sql.ConnectionPool, keyed by tenant, connection and
+// connection settings, so tenants never share a pool; sql.connect() would
+// hand every caller the module's one global pool. Sessions of the same
+// tenant opening the same connection share its pool. Pools are counted
+// against a global and a per-tenant cap, and pools no session has leased for
+// a while are closed.
+
+import crypto from 'crypto'
+import sql from 'mssql'
+
+export interface PoolManagerOptions {
+  // Open pools across all tenants
+  maxPools?: number
+  // Open pools per tenant
+  maxPoolsPerTenant?: number
+  // Pools without a lease for this long are closed; 0 keeps them open
+  idleTimeoutMs?: number
+  // How often idle pools are looked for
+  sweepIntervalMs?: number
+  // Builds the pool for a config; tests pass a fake
+  createPool?: (config: sql.config) => sql.ConnectionPool
+}
+
+export type PoolLimitScope = 'global' | 'tenant'
+
+export class PoolLimitError extends Error {
+  scope: PoolLimitScope
+
+  constructor(scope: PoolLimitScope, message: string) {
+    super(message)
+    this.name = 'PoolLimitError'
+    this.scope = scope
+  }
+}
+
+// A session's use of a pool. The pool stays open while any lease is held.
+export interface PoolLease {
+  pool: sql.ConnectionPool
+  release(): Promise<void>
+}
+
+export interface PoolHealth {
+  tenantId: string
+  connectionKey: string
+  leases: number
+  connected: boolean
+  // Connections in the pool, idle ones, ones in use, and requests waiting
+  size: number
+  available: number
+  borrowed: number
+  pending: number
+  errors: number
+  idleMs: number
+  ageMs: number
+}
+
+export interface PoolManagerMetrics {
+  pools: number
+  tenants: number
+  created: number
+  evicted: number
+  draining: boolean
+  health: PoolHealth[]
+}
+
+interface PoolEntry {
+  key: string
+  tenantId: string
+  connectionKey: string
+  pool: sql.ConnectionPool
+  ready: Promise<unknown>
+  leases: number
+  errors: number
+  createdAt: number
+  // When the last lease was released (or the pool created)
+  idleSince: number
+}
+
+const DEFAULT_MAX_POOLS = 200
+const DEFAULT_MAX_POOLS_PER_TENANT = 10
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000
+const DEFAULT_DRAIN_TIMEOUT_MS = 30 * 1000
+
+export class PoolManager {
+  private pools = new Map<string, PoolEntry>()
+  private maxPools: number
+  private maxPoolsPerTenant: number
+  private idleTimeoutMs: number
+  private sweepIntervalMs: number
+  private createPool: (config: sql.config) => sql.ConnectionPool
+  private sweepTimer: NodeJS.Timeout | null = null
+  private draining = false
+  private drainWaiters: (() => void)[] = []
+  private created = 0
+  private evicted = 0
+
+  constructor(options: PoolManagerOptions = {}) {
+    this.maxPools = options.maxPools || DEFAULT_MAX_POOLS
+    this.maxPoolsPerTenant = options.maxPoolsPerTenant || DEFAULT_MAX_POOLS_PER_TENANT
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS
+    this.sweepIntervalMs = options.sweepIntervalMs || DEFAULT_SWEEP_INTERVAL_MS
+    this.createPool = options.createPool || ((config) => new sql.ConnectionPool(config))
+  }
+
+  // Leases the pool for a tenant's connection, opening it if needed. Throws
+  // PoolLimitError when a cap is reached and no idle pool can make room.
+  async acquire(tenantId: string, connectionKey: string, config: sql.config): Promise<PoolLease> {
+    if (this.draining) {
+      throw new Error('The server is shutting down and is not opening database connections')
+    }
+
+    // Settings are part of the key, so a changed password or server never
+    // reuses a pool opened with the old ones
+    const fingerprint = crypto.createHash('sha256').update(JSON.stringify(config)).digest('hex')
+    const key = `${tenantId}\u0000${connectionKey}\u0000${fingerprint}`
+    let entry = this.pools.get(key)
+    if (!entry) {
+      this.makeRoom(tenantId)
+      entry = this.open(key, tenantId, connectionKey, config)
+    }
+
+    entry.leases++
+    try {
+      await entry.ready
+    } catch (error) {
+      entry.leases--
+      this.remove(entry)
+      throw error
+    }
+
+    const leased = entry
+    let released = false
+    return {
+      pool: leased.pool,
+      release: async () => {
+        if (released) return
+        released = true
+        leased.leases--
+        leased.idleSince = Date.now()
+        if (this.draining && this.leaseCount() === 0) {
+          this.drainWaiters.splice(0).forEach((resolve) => resolve())
+        }
+      },
+    }
+  }
+
+  // Closes pools that have had no lease for the idle timeout
+  async evictIdle(now = Date.now()): Promise<number> {
+    if (this.idleTimeoutMs <= 0) return 0
+    const idle = Array.from(this.pools.values()).filter(
+      (entry) => entry.leases === 0 && now - entry.idleSince >= this.idleTimeoutMs
+    )
+    await Promise.all(idle.map((entry) => this.evict(entry)))
+    return idle.length
+  }
+
+  metrics(now = Date.now()): PoolManagerMetrics {
+    const entries = Array.from(this.pools.values())
+    return {
+      pools: entries.length,
+      tenants: new Set(entries.map((entry) => entry.tenantId)).size,
+      created: this.created,
+      evicted: this.evicted,
+      draining: this.draining,
+      health: entries.map((entry) => ({
+        tenantId: entry.tenantId,
+        connectionKey: entry.connectionKey,
+        leases: entry.leases,
+        connected: entry.pool.connected,
+        size: entry.pool.size || 0,
+        available: entry.pool.available || 0,
+        borrowed: entry.pool.borrowed || 0,
+        pending: entry.pool.pending || 0,
+        errors: entry.errors,
+        idleMs: entry.leases === 0 ? now - entry.idleSince : 0,
+        ageMs: now - entry.createdAt,
+      })),
+    }
+  }
+
+  // Stops handing out pools, waits up to timeoutMs for the leases to be
+  // released, then closes every pool
+  async drain(timeoutMs: number = DEFAULT_DRAIN_TIMEOUT_MS): Promise<void> {
+    this.draining = true
+    this.stopSweep()
+
+    if (this.leaseCount() > 0) {
+      let timer: NodeJS.Timeout | undefined
+      await Promise.race([
+        new Promise<void>((resolve) => this.drainWaiters.push(resolve)),
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, timeoutMs)
+        }),
+      ])
+      clearTimeout(timer)
+    }
+
+    const entries = Array.from(this.pools.values())
+    this.pools.clear()
+    await Promise.all(entries.map((entry) => this.close(entry)))
+  }
+
+  private open(key: string, tenantId: string, connectionKey: string, config: sql.config): PoolEntry {
+    const pool = this.createPool(config)
+    const now = Date.now()
+    const entry: PoolEntry = {
+      key,
+      tenantId,
+      connectionKey,
+      pool,
+      ready: pool.connect(),
+      leases: 0,
+      errors: 0,
+      createdAt: now,
+      idleSince: now,
+    }
+    pool.on('error', (error: unknown) => {
+      entry.errors++
+      console.error(`[${tenantId}] Database pool error:`, error)
+    })
+
+    this.pools.set(key, entry)
+    this.created++
+    this.startSweep()
+    return entry
+  }
+
+  // Evicts the longest idle pool of the tenant, then of anyone, when a cap
+  // is reached. The pools are removed at once and closed in the background,
+  // so a concurrent acquire cannot pick them up.
+  private makeRoom(tenantId: string): void {
+    const idle = (entries: PoolEntry[]) =>
+      entries.filter((entry) => entry.leases === 0).sort((a, b) => a.idleSince - b.idleSince)[0]
+    const all = Array.from(this.pools.values())
+
+    const tenantPools = all.filter((entry) => entry.tenantId === tenantId)
+    if (tenantPools.length >= this.maxPoolsPerTenant) {
+      const victim = idle(tenantPools)
+      if (!victim) {
+        throw new PoolLimitError(
+          'tenant',
+          `Your account already has ${this.maxPoolsPerTenant} database connections open. Close one before opening another.`
+        )
+      }
+      this.evict(victim).catch(() => undefined)
+      return
+    }
+
+    if (all.length >= this.maxPools) {
+      const victim = idle(all)
+      if (!victim) {
+        throw new PoolLimitError('global', 'The server has no database connections to spare. Try again shortly.')
+      }
+      this.evict(victim).catch(() => undefined)
+    }
+  }
+
+  private async evict(entry: PoolEntry): Promise<void> {
+    if (!this.remove(entry)) return
+    this.evicted++
+    await this.close(entry)
+  }
+
+  private remove(entry: PoolEntry): boolean {
+    if (this.pools.get(entry.key) !== entry) return false
+    this.pools.delete(entry.key)
+    if (this.pools.size === 0) this.stopSweep()
+    return true
+  }
+
+  private async close(entry: PoolEntry): Promise<void> {
+    try {
+      await entry.pool.close()
+    } catch (error) {
+      console.error(`[${entry.tenantId}] Failed to close database pool:`, error)
+    }
+  }
+
+  private leaseCount(): number {
+    let leases = 0
+    this.pools.forEach((entry) => (leases += entry.leases))
+    return leases
+  }
+
+  // The sweep only runs while pools are open
+  private startSweep(): void {
+    if (this.sweepTimer || this.idleTimeoutMs <= 0) return
+    this.sweepTimer = setInterval(() => {
+      this.evictIdle().catch((error) => console.error('Failed to evict idle database pools:', error))
+    }, this.sweepIntervalMs)
+    this.sweepTimer.unref()
+  }
+
+  private stopSweep(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = null
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { PrismaClient } from '@prisma/client'
+import { ApiKeyRecord, ApiKeyStore } from './apiKeyAuth'
+
+// Looks up API keys issued from the dashboard by the hash of their token
+export class PrismaApiKeyStore implements ApiKeyStore {
+  private prisma: PrismaClient
+
+  constructor(prisma: PrismaClient = new PrismaClient()) {
+    this.prisma = prisma
+  }
+
+  async findByHash(hashedKey: string): Promise<ApiKeyRecord | null> {
+    return await this.prisma.apiKey.findUnique({
+      where: { hashedKey },
+      select: {
+        id: true,
+        userId: true,
+        name: true,
+        isActive: true,
+        expiresAt: true,
+      },
+    })
+  }
+
+  async markUsed(id: string, usedAt: Date): Promise<void> {
+    await this.prisma.apiKey.update({
+      where: { id },
+      data: { lastUsedAt: usedAt },
+    })
+  }
+}
@@ -0,0 +1,62 @@
+import { PrismaClient } from '@prisma/client'
+import { decryptPassword } from '../services/passwordEncryption'
+import { ConnectionStore, SavedConnection } from './savedConnections'
+
+// Reads connections saved from the dashboard and decrypts their passwords
+// with the same per-user key the connections API encrypted them with.
+export class PrismaConnectionStore implements ConnectionStore {
+  private prisma: PrismaClient
+
+  constructor(prisma: PrismaClient = new PrismaClient()) {
+    this.prisma = prisma
+  }
+
+  async findConnection(userId: string, nameOrId: string): Promise<SavedConnection | null> {
+    const connection = await this.prisma.connection.findFirst({
+      where: {
+        userId,
+        isActive: true,
+        OR: [{ id: nameOrId }, { name: nameOrId }],
+      },
+    })
+    if (!connection) return null
+
+    return {
+      id: connection.id,
+      name: connection.name,
+      server: connection.server,
+      database: connection.database,
+      port: connection.port,
+      user: connection.username,
+      password: decryptPassword(connection.encryptedPassword, userId),
+      trustServerCertificate: connection.trustServerCert,
+      readOnlyIntent: connection.readOnlyIntent === true,
+      allowedProcedures: connection.allowedProcedures || [],
+      writableTables: connection.writeMode ? connection.writableTables || [] : [],
+    }
+  }
+
+  async listConnectionNames(userId: string): Promise<string[]> {
+    const connections = await this.prisma.connection.findMany({
+      where: {
+        userId,
+        isActive: true,
+      },
+      select: {
+        name: true,
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    })
+    return connections.map((connection) => connection.name)
+  }
+
+  async allowsRawCredentials(userId: string): Promise<boolean> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { allowRawCredentials: true },
+    })
+    return user?.allowRawCredentials === true
+  }
+}
@@ -0,0 +1,30 @@
+import { PrismaClient } from '@prisma/client'
+import { MaskingRule, MaskingStore, isMaskAction, isMaskMatchType } from './masking'
+
+// Reads column masking rules saved from the dashboard. Rules without a
+// connection apply to every connection of the user.
+export class PrismaMaskingStore implements MaskingStore {
+  private prisma: PrismaClient
+
+  constructor(prisma: PrismaClient = new PrismaClient()) {
+    this.prisma = prisma
+  }
+
+  async getRules(userId: string, connectionId: string | null): Promise<MaskingRule[]> {
+    const rules = await this.prisma.maskingRule.findMany({
+      where: {
+        userId,
+        OR: [{ connectionId: null }, ...(connectionId ? [{ connectionId }] : [])],
+      },
+    })
+
+    return rules
+      .filter((rule) => isMaskMatchType(rule.matchType) && isMaskAction(rule.action))
+      .map((rule) => ({
+        id: rule.id,
+        matchType: rule.matchType,
+        pattern: rule.pattern,
+        action: rule.action,
+      }))
+  }
+}
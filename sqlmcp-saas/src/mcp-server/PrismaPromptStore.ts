@@ -0,0 +1,34 @@
+import { PrismaClient } from '@prisma/client'
+import { CustomPrompt, PromptStore, overrideGlobalPrompts, parsePromptArguments } from './prompts'
+
+// Reads user-defined prompts saved from the dashboard. Prompts without a
+// connection apply to every connection of the user.
+export class PrismaPromptStore implements PromptStore {
+  private prisma: PrismaClient
+
+  constructor(prisma: PrismaClient = new PrismaClient()) {
+    this.prisma = prisma
+  }
+
+  async getPrompts(userId: string, connectionId: string | null): Promise<CustomPrompt[]> {
+    const prompts = await this.prisma.prompt.findMany({
+      where: {
+        userId,
+        OR: [{ connectionId: null }, ...(connectionId ? [{ connectionId }] : [])],
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    })
+
+    return overrideGlobalPrompts(
+      prompts.map((prompt) => ({
+        name: prompt.name,
+        description: prompt.description || '',
+        template: prompt.template,
+        arguments: parsePromptArguments(prompt.arguments),
+        connectionId: prompt.connectionId,
+      }))
+    )
+  }
+}
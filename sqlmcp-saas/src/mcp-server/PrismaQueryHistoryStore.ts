@@ -0,0 +1,26 @@
+import { PrismaClient } from '@prisma/client'
+import { QueryHistoryEntry, QueryHistoryStore } from './queryHistory'
+
+// Writes batches of executed queries to the Query table
+export class PrismaQueryHistoryStore implements QueryHistoryStore {
+  private prisma: PrismaClient
+
+  constructor(prisma: PrismaClient = new PrismaClient()) {
+    this.prisma = prisma
+  }
+
+  async saveQueries(entries: QueryHistoryEntry[]): Promise<void> {
+    await this.prisma.query.createMany({
+      data: entries.map((entry) => ({
+        userId: entry.userId,
+        connectionId: entry.connectionId,
+        query: entry.query,
+        rowCount: entry.rowCount,
+        executionMs: entry.executionMs,
+        success: entry.success,
+        error: entry.error,
+        createdAt: entry.createdAt,
+      })),
+    })
+  }
+}
@@ -0,0 +1,56 @@
+import { PrismaClient } from '@prisma/client'
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library'
+import { BillingPeriod, PlanSubscription, QuotaStore } from './quota'
+
+// Reads plans from Subscription and counts tool calls in UsagePeriod
+export class PrismaQuotaStore implements QuotaStore {
+  private prisma: PrismaClient
+
+  constructor(prisma: PrismaClient = new PrismaClient()) {
+    this.prisma = prisma
+  }
+
+  async getSubscription(userId: string): Promise<PlanSubscription | null> {
+    return await this.prisma.subscription.findUnique({
+      where: { userId },
+      select: {
+        plan: true,
+        currentPeriodEnd: true,
+        queryQuota: true,
+      },
+    })
+  }
+
+  async consume(userId: string, period: BillingPeriod, limit: number | null): Promise<number | null> {
+    const key = { userId_periodStart: { userId, periodStart: period.start } }
+    await this.prisma.usagePeriod.upsert({
+      where: key,
+      create: { userId, periodStart: period.start, periodEnd: period.end },
+      update: {},
+    })
+
+    // The limit is checked in the update itself, so concurrent sessions
+    // cannot push the count past it, and the count returned is the one this
+    // update wrote rather than one read back after other sessions' updates
+    try {
+      const usage = await this.prisma.usagePeriod.update({
+        where: { ...key, ...(limit === null ? {} : { toolCalls: { lt: limit } }) },
+        data: { toolCalls: { increment: 1 } },
+        select: { toolCalls: true },
+      })
+      return usage.toolCalls
+    } catch (error) {
+      // No row matched: the period already holds limit calls
+      if (error instanceof PrismaClientKnownRequestError && error.code === 'P2025') return null
+      throw error
+    }
+  }
+
+  async used(userId: string, period: BillingPeriod): Promise<number> {
+    const usage = await this.prisma.usagePeriod.findUnique({
+      where: { userId_periodStart: { userId, periodStart: period.start } },
+      select: { toolCalls: true },
+    })
+    return usage ? usage.toolCalls : 0
+  }
+}
@@ -0,0 +1,30 @@
+import { PrismaClient } from '@prisma/client'
+import { WriteAuditEntry, WriteAuditStore } from './dml'
+
+// Writes the execute_dml audit log to the WriteAudit table
+export class PrismaWriteAuditStore implements WriteAuditStore {
+  private prisma: PrismaClient
+
+  constructor(prisma: PrismaClient = new PrismaClient()) {
+    this.prisma = prisma
+  }
+
+  async record(entry: WriteAuditEntry): Promise<void> {
+    await this.prisma.writeAudit.create({
+      data: {
+        userId: entry.userId,
+        apiKeyId: entry.apiKeyId,
+        connectionId: entry.connectionId,
+        connectionName: entry.connectionName,
+        statement: entry.statement,
+        tableName: entry.tableName,
+        verb: entry.verb,
+        phase: entry.phase,
+        rowCount: entry.rowCount,
+        success: entry.success,
+        error: entry.error,
+        createdAt: entry.createdAt,
+      },
+    })
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { ResultCache } from './ResultCache'
+import { normalizeQuery } from './queryValidator'
+
+describe('ResultCache', () => {
+  it('should reuse results until the tool TTL runs out and count hits and misses', () => {
+    const cache = new ResultCache({ query_data: 1000, list_tables: 60000 })
+    const now = 1_000_000
+
+    expect(cache.get('prod', 'query_data', ['SELECT 1', 100], now)).toBeUndefined()
+    cache.set('prod', 'query_data', ['SELECT 1', 100], { rows: 1 }, now)
+    cache.set('prod', 'list_tables', [null], { tables: 3 }, now)
+
+    expect(cache.get('prod', 'query_data', ['SELECT 1', 100], now + 999)).toEqual({ rows: 1 })
+    // Another limit or connection is another entry
+    expect(cache.get('prod', 'query_data', ['SELECT 1', 50], now)).toBeUndefined()
+    expect(cache.get('dev', 'query_data', ['SELECT 1', 100], now)).toBeUndefined()
+
+    expect(cache.get('prod', 'query_data', ['SELECT 1', 100], now + 1000)).toBeUndefined()
+    expect(cache.get('prod', 'list_tables', [null], now + 1000)).toEqual({ tables: 3 })
+    expect(cache.stats).toEqual({ hits: 2, misses: 4 })
+  })
+
+  it('should not cache tools whose TTL is 0 and clear one connection', () => {
+    const cache = new ResultCache({ get_table_sample: 0 })
+    cache.set('prod', 'get_table_sample', ['dbo.Orders', 10, 'markdown'], { rows: 10 })
+    cache.set('prod', 'describe_table', ['dbo.Orders'], { columns: 4 })
+    cache.set('dev', 'describe_table', ['dbo.Orders'], { columns: 5 })
+
+    expect(cache.isCached('get_table_sample')).toBe(false)
+    expect(cache.size).toBe(2)
+
+    cache.clear('prod')
+    expect(cache.get('prod', 'describe_table', ['dbo.Orders'])).toBeUndefined()
+    expect(cache.get('dev', 'describe_table', ['dbo.Orders'])).toEqual({ columns: 5 })
+  })
+
+  it('should key queries by their normalized text', () => {
+    expect(normalizeQuery('SELECT  Id\n  FROM [Orders] -- latest\nWHERE Name = \'a  b\';')).toBe(
+      normalizeQuery("SELECT Id FROM [Orders] WHERE Name = 'a  b'")
+    )
+    expect(normalizeQuery('SELECT id FROM Orders')).not.toBe(normalizeQuery('SELECT Id FROM Orders'))
+  })
+})
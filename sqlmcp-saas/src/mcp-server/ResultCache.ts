@@ -0,0 +1,108 @@
+// Tool results kept for a short while, so an agent repeating list_tables,
+// describe_table or query_data within a session does not hit the database
+// every time. Entries are keyed by connection, tool and the arguments that
+// shape the result (for query_data, the normalized query text and limit).
+
+export type CachedTool =
+  | 'list_tables'
+  | 'list_views'
+  | 'describe_table'
+  | 'get_relationships'
+  | 'query_data'
+  | 'get_table_sample'
+
+// Schema metadata changes rarely and is dropped as soon as the schema
+// watcher sees a change; data goes stale much sooner
+export const DEFAULT_CACHE_TTLS: Record<CachedTool, number> = {
+  list_tables: 5 * 60 * 1000,
+  list_views: 5 * 60 * 1000,
+  describe_table: 5 * 60 * 1000,
+  get_relationships: 5 * 60 * 1000,
+  query_data: 30 * 1000,
+  get_table_sample: 30 * 1000,
+}
+
+interface CacheEntry {
+  connection: string
+  value: unknown
+  expiresAt: number
+}
+
+export interface CacheStats {
+  hits: number
+  misses: number
+}
+
+export class ResultCache {
+  private entries = new Map<string, CacheEntry>()
+  private ttls: Record<CachedTool, number>
+  private maxEntries: number
+  private hits = 0
+  private misses = 0
+
+  // A TTL of 0 turns caching off for that tool
+  constructor(ttls: Partial<Record<CachedTool, number>> = {}, maxEntries: number = 100) {
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...ttls }
+    this.maxEntries = maxEntries
+  }
+
+  isCached(tool: string): tool is CachedTool {
+    return (this.ttls[tool as CachedTool] || 0) > 0
+  }
+
+  // The cached result, counted as a hit, or undefined, counted as a miss
+  get<T>(connection: string, tool: CachedTool, args: unknown[], now = Date.now()): T | undefined {
+    const key = this.key(connection, tool, args)
+    const entry = this.entries.get(key)
+    if (!entry || entry.expiresAt <= now) {
+      this.entries.delete(key)
+      this.misses++
+      return undefined
+    }
+    this.hits++
+    return entry.value as T
+  }
+
+  set(connection: string, tool: CachedTool, args: unknown[], value: unknown, now = Date.now()): void {
+    if (!this.isCached(tool)) return
+    this.prune(now)
+
+    const key = this.key(connection, tool, args)
+    // Re-inserted, so the least recently stored entry is evicted first
+    this.entries.delete(key)
+    this.entries.set(key, { connection, value, expiresAt: now + this.ttls[tool] })
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string)
+    }
+  }
+
+  // Drops every entry, or only those of one connection
+  clear(connection?: string): void {
+    if (connection === undefined) {
+      this.entries.clear()
+      return
+    }
+    this.entries.forEach((entry, key) => {
+      if (entry.connection === connection) this.entries.delete(key)
+    })
+  }
+
+  get stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses }
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  private key(connection: string, tool: CachedTool, args: unknown[]): string {
+    return JSON.stringify([connection, tool, ...args])
+  }
+
+  private prune(now: number): void {
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key)
+    })
+  }
+}
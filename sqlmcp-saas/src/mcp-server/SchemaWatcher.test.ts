@@ -0,0 +1,54 @@
+import { vi, describe, it, expect } from 'vitest'
+import { SchemaWatcher, diffSnapshots, SchemaSnapshot } from './SchemaWatcher'
+
+function snapshot(entries: [string, string, number][]): SchemaSnapshot {
+  return new Map(
+    entries.map(([name, type, modifiedAt]) => [
+      `dbo.${name}`,
+      { schema: 'dbo', name, type, modifiedAt },
+    ])
+  )
+}
+
+function row(name: string, modifiedAt: string) {
+  return { SCHEMA_NAME: 'dbo', OBJECT_NAME: name, OBJECT_TYPE: 'U', MODIFY_DATE: new Date(modifiedAt) }
+}
+
+describe('SchemaWatcher', () => {
+  describe('diffSnapshots', () => {
+    it('should report created, dropped and modified objects', () => {
+      const change = diffSnapshots(
+        snapshot([['Orders', 'U', 1], ['Customers', 'U', 1], ['OldView', 'V', 1]]),
+        snapshot([['Orders', 'U', 2], ['Customers', 'U', 1], ['NewProc', 'P', 1]])
+      )
+
+      expect(change).toEqual({
+        created: [{ schema: 'dbo', name: 'NewProc', type: 'P' }],
+        dropped: [{ schema: 'dbo', name: 'OldView', type: 'V' }],
+        modified: [{ schema: 'dbo', name: 'Orders', type: 'U' }],
+      })
+    })
+  })
+
+  describe('poll', () => {
+    it('should emit a change only when the schema differs from the last snapshot', async () => {
+      const query = vi
+        .fn()
+        .mockResolvedValueOnce({ recordset: [row('Orders', '2024-01-01')] })
+        .mockResolvedValueOnce({ recordset: [row('Orders', '2024-01-01')] })
+        .mockResolvedValueOnce({ recordset: [row('Orders', '2024-02-01')] })
+      const pool = { request: () => ({ query }) }
+      const watcher = new SchemaWatcher(pool as any, 60000)
+      const onChange = vi.fn()
+      watcher.on('change', onChange)
+
+      await watcher.start()
+      expect(await watcher.poll()).toBeNull()
+      await watcher.poll()
+      watcher.stop()
+
+      expect(onChange).toHaveBeenCalledTimes(1)
+      expect(onChange.mock.calls[0][0].modified).toEqual([{ schema: 'dbo', name: 'Orders', type: 'U' }])
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { EventEmitter } from 'events'
+import sql from 'mssql'
+
+export interface SchemaObjectRef {
+  schema: string
+  name: string
+  type: string
+}
+
+export interface SchemaChange {
+  created: SchemaObjectRef[]
+  dropped: SchemaObjectRef[]
+  modified: SchemaObjectRef[]
+}
+
+interface SnapshotEntry extends SchemaObjectRef {
+  modifiedAt: number
+}
+
+export type SchemaSnapshot = Map<string, SnapshotEntry>
+
+export function diffSnapshots(previous: SchemaSnapshot, next: SchemaSnapshot): SchemaChange {
+  const change: SchemaChange = { created: [], dropped: [], modified: [] }
+  const ref = ({ schema, name, type }: SnapshotEntry): SchemaObjectRef => ({ schema, name, type })
+
+  next.forEach((entry, key) => {
+    const before = previous.get(key)
+    if (!before) {
+      change.created.push(ref(entry))
+    } else if (before.modifiedAt !== entry.modifiedAt) {
+      change.modified.push(ref(entry))
+    }
+  })
+  previous.forEach((entry, key) => {
+    if (!next.has(key)) {
+      change.dropped.push(ref(entry))
+    }
+  })
+
+  return change
+}
+
+// Detects DDL changes by polling sys.objects.modify_date. Emits 'change' with
+// a SchemaChange whenever objects are created, dropped or altered.
+export class SchemaWatcher extends EventEmitter {
+  private pool: sql.ConnectionPool
+  private intervalMs: number
+  private snapshot: SchemaSnapshot | null = null
+  private timer: NodeJS.Timeout | null = null
+  private polling = false
+
+  constructor(pool: sql.ConnectionPool, intervalMs: number = 30000) {
+    super()
+    this.pool = pool
+    this.intervalMs = intervalMs
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) return
+
+    this.snapshot = await this.takeSnapshot()
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => console.error('Schema poll failed:', error))
+    }, this.intervalMs)
+    this.timer.unref()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.snapshot = null
+  }
+
+  async poll(): Promise<SchemaChange | null> {
+    // Skip a tick rather than overlap when the server is slow to answer
+    if (this.polling || !this.snapshot) return null
+    this.polling = true
+
+    try {
+      const next = await this.takeSnapshot()
+      const change = diffSnapshots(this.snapshot, next)
+      this.snapshot = next
+
+      if (change.created.length + change.dropped.length + change.modified.length === 0) {
+        return null
+      }
+
+      this.emit('change', change)
+      return change
+    } finally {
+      this.polling = false
+    }
+  }
+
+  private async takeSnapshot(): Promise<SchemaSnapshot> {
+    const result = await this.pool.request().query`
+      SELECT
+        s.name AS SCHEMA_NAME,
+        o.name AS OBJECT_NAME,
+        RTRIM(o.type) AS OBJECT_TYPE,
+        o.modify_date AS MODIFY_DATE
+      FROM sys.objects o
+      INNER JOIN sys.schemas s ON o.schema_id = s.schema_id
+      WHERE o.type IN ('U', 'V', 'P', 'FN', 'IF', 'TF')
+        AND o.is_ms_shipped = 0
+    `
+
+    const snapshot: SchemaSnapshot = new Map()
+    for (const row of result.recordset) {
+      snapshot.set(`${row.SCHEMA_NAME}.${row.OBJECT_NAME}`, {
+        schema: row.SCHEMA_NAME,
+        name: row.OBJECT_NAME,
+        type: row.OBJECT_TYPE,
+        modifiedAt: new Date(row.MODIFY_DATE).getTime(),
+      })
+    }
+    return snapshot
+  }
+}
@@ -1,18 +1,154 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js'
 import sql from 'mssql'
 import crypto from 'crypto'
+import {
+  validateReadOnlyQuery,
+  applyRowLimit,
+  applyPagination,
+  validateDmlStatement,
+  applyOutputClause,
+  queryIdentifiers,
+  DmlStatement,
+  QueryValidationError,
+} from './queryValidator'
+import { CursorStore, QueryCursor } from './CursorStore'
+import { ConnectionRegistry } from './ConnectionRegistry'
+import { ToolCall, resolveTimeout } from './ToolCall'
+import {
+  ProcedureName,
+  ProcedureParameter,
+  parseProcedureName,
+  quoteProcedureName,
+  isProcedureAllowed,
+  parseParameterDefaults,
+  formatProcedureParameters,
+  bindParameters,
+  runsDynamicSql,
+} from './procedures'
+import { parseShowplan, formatPlanSummary } from './showplan'
+import {
+  ForeignKey,
+  KeyColumn,
+  parseTableRef,
+  tableKey,
+  groupForeignKeys,
+  filterForeignKeys,
+  formatForeignKeys,
+  findJoinPath,
+  formatJoinPath,
+  buildMermaidErDiagram,
+} from './relationships'
+import {
+  ResultFormat,
+  QueryResultData,
+  ResultValue,
+  buildQueryResult,
+  formatQueryResult,
+  formatMarkdown,
+  toResultValue,
+  describeColumns,
+} from './resultFormatter'
+import {
+  MAX_PROFILE_SAMPLE,
+  MAX_PROFILE_TOP_N,
+  TableProfile,
+  TableProfileCache,
+  buildSampleQuery,
+  profileRows,
+  formatTableProfile,
+} from './tableProfile'
+import {
+  SEARCH_OBJECT_TYPES,
+  MAX_SEARCH_LIMIT,
+  SearchObjectType,
+  SchemaSearchRow,
+  parseSearchPattern,
+  typeCodesFor,
+  isSearchObjectType,
+  rankSearchResults,
+  formatSearchResults,
+} from './schemaSearch'
+import {
+  RESOURCE_URI_TEMPLATE,
+  RESOURCE_OBJECT_TYPES,
+  ColumnDefinition,
+  ParameterDefinition,
+  ResourceAddress,
+  buildResourceUri,
+  parseResourceUri,
+  formatDataType,
+  buildTableDdl,
+  formatColumnDefinitions,
+  formatParameterDefinitions,
+} from './schemaResources'
+import { SchemaWatcher, SchemaChange } from './SchemaWatcher'
+import { PromptContext, PromptStore, listPromptDefinitions, buildPrompt } from './prompts'
+import { ConnectionStore } from './savedConnections'
+import { QueryHistoryWriter } from './queryHistory'
+import { Plan, QuotaService, QuotaExceededError, formatQuotaWarning } from './quota'
+import { RateLimiter, RateLimitError } from './rateLimit'
+import {
+  DescribedColumn,
+  MaskingRule,
+  MaskingStore,
+  ResultColumnSource,
+  ResultReads,
+  resultColumnSources,
+  hasUntracedColumns,
+  resolveMasks,
+  applyMasks,
+} from './masking'
+import {
+  WRITE_SAMPLE_ROWS,
+  WriteAuditEntry,
+  WriteAuditStore,
+  WriteConfirmations,
+  WritePreview,
+  isTableWritable,
+  formatWritePreview,
+} from './dml'
+import { CachedTool, ResultCache } from './ResultCache'
+import { PoolLease, PoolManager } from './PoolManager'
+import {
+  ToolCore,
+  ToolDefinition,
+  ToolProfile,
+  ToolRegistry,
+  ToolResult,
+  createToolRegistry,
+  parseToolArguments,
+} from './tools'
+import {
+  ElevatedLoginPolicy,
+  PermissionReport,
+  readPermissionReport,
+  formatPermissionReport,
+} from './permissions'
 
-interface SqlServerConfig {
+export interface SqlServerConfig {
+  // Name the connection is known by in this session (default: the database name)
+  name?: string
   server: string
   database: string
   user: string
   password: string
   port?: number
+  // Connect with ApplicationIntent=ReadOnly, which routes to a readable
+  // secondary where an availability group has one
+  readOnlyIntent?: boolean
   options?: {
     encrypt?: boolean
     trustServerCertificate?: boolean
@@ -22,27 +158,139 @@ interface SqlServerConfig {
   }
 }
 
+const RESOURCE_PAGE_SIZE = 500
+const SCHEMA_POLL_INTERVAL_MS = 30000
+const DEFAULT_QUERY_TIMEOUT_MS = 30000
+const DEFAULT_MAX_CONNECTIONS = 5
+// Candidate rows read back per search, before ranking
+const MAX_SEARCH_CANDIDATES = 2000
+
+interface SqlServerMcpServerOptions {
+  promptStore?: PromptStore
+  // Longest timeoutMs a tool call may ask for, set from the user's plan
+  maxQueryTimeoutMs?: number
+  // schema.name of the procedures execute_procedure may run on connections
+  // opened with raw credentials; saved connections carry their own list
+  allowedProcedures?: string[]
+  // schema.table (or schema.*) of the tables execute_dml may change on
+  // connections opened with raw credentials; empty keeps write mode off
+  writableTables?: string[]
+  // Audit log of execute_dml previews and commits
+  writeAuditStore?: WriteAuditStore
+  // Saved dashboard connections for use_connection, and the account policy
+  // on raw credentials
+  connectionStore?: ConnectionStore
+  // Database connections a session may hold open at once
+  maxConnections?: number
+  // Writes every executed query to the Query table; usually shared by all
+  // sessions of a process
+  queryHistory?: QueryHistoryWriter
+  // Monthly tool-call quota of the user's plan
+  quota?: QuotaService
+  // Call rate per API key and concurrent calls per connection
+  rateLimiter?: RateLimiter
+  // The user's subscription plan, which selects the rate limits
+  plan?: Plan
+  // Column masking rules applied to query results
+  maskingStore?: MaskingStore
+  // How long results of each cacheable tool are reused; 0 turns it off
+  resultCacheTtls?: Partial<Record<CachedTool, number>>
+  // Whether connections whose login is db_owner or sysadmin are opened with
+  // a warning (the default) or refused
+  elevatedLogins?: ElevatedLoginPolicy
+  // Database pools shared by the sessions of a process; each session gets
+  // a manager of its own when none is passed
+  poolManager?: PoolManager
+  // Which tools are offered (default: full)
+  profile?: ToolProfile
+}
+
+// One named connection of the session and the state tied to its database
+interface DatabaseConnection {
+  name: string
+  config: SqlServerConfig
+  sqlConfig: sql.config
+  pool: sql.ConnectionPool
+  // This session's lease on the pool, released when the connection closes
+  lease: PoolLease
+  queryTimeoutMs: number
+  // The dashboard connection it was opened from; null for raw credentials
+  savedConnectionId: string | null
+  allowedProcedures: string[]
+  // Tables execute_dml may change; empty when write mode is off
+  writableTables: string[]
+  // What the login may do; null when it could not be read
+  permissions: PermissionReport | null
+  schemaWatcher: SchemaWatcher | null
+  profileCache: TableProfileCache
+}
+
 interface QueryMetrics {
   query: string
   executionTime: number
   rowCount: number
   success: boolean
   error?: string
+  // Set on result cache lookups, which run no query
+  cache?: 'hit' | 'miss'
 }
 
 export class SqlServerMcpServer {
   private server: Server
-  private sqlPool: sql.ConnectionPool | null = null
-  private config: SqlServerConfig | null = null
+  private connections: ConnectionRegistry<DatabaseConnection>
   private queryLimit: number
   private userId: string
-  private apiKey: string
+  // ID of the API key the session authenticated with; the token itself is
+  // never held after the handshake
+  private apiKeyId: string
   private queryMetrics: QueryMetrics[] = []
+  private subscriptions = new Set<string>()
+  private cursors = new CursorStore()
+  private resultCache: ResultCache
+  private activeCalls = new Map<string | number, ToolCall>()
+  private maxQueryTimeoutMs: number
+  private allowedProcedures: string[]
+  private writableTables: string[]
+  private writeAuditStore: WriteAuditStore | null
+  private writeConfirmations = new WriteConfirmations()
+  private promptStore: PromptStore | null
+  private connectionStore: ConnectionStore | null
+  private queryHistory: QueryHistoryWriter | null
+  private quota: QuotaService | null
+  private rateLimiter: RateLimiter | null
+  private plan: Plan
+  private maskingStore: MaskingStore | null
+  private elevatedLogins: ElevatedLoginPolicy
+  private poolManager: PoolManager
+  private tools: ToolRegistry
+  private toolCore: ToolCore
 
-  constructor(userId: string, apiKey: string, queryLimit: number = 1000) {
+  constructor(
+    userId: string,
+    apiKeyId: string,
+    queryLimit: number = 1000,
+    options: SqlServerMcpServerOptions = {}
+  ) {
     this.userId = userId
-    this.apiKey = apiKey
+    this.apiKeyId = apiKeyId
     this.queryLimit = queryLimit
+    this.promptStore = options.promptStore || null
+    this.connectionStore = options.connectionStore || null
+    this.queryHistory = options.queryHistory || null
+    this.quota = options.quota || null
+    this.rateLimiter = options.rateLimiter || null
+    this.plan = options.plan || 'FREE'
+    this.maskingStore = options.maskingStore || null
+    this.resultCache = new ResultCache(options.resultCacheTtls)
+    this.elevatedLogins = options.elevatedLogins || 'warn'
+    this.poolManager = options.poolManager || new PoolManager()
+    this.tools = createToolRegistry(options.profile || 'full')
+    this.toolCore = this.createToolCore()
+    this.maxQueryTimeoutMs = options.maxQueryTimeoutMs || DEFAULT_QUERY_TIMEOUT_MS
+    this.allowedProcedures = options.allowedProcedures || []
+    this.writableTables = options.writableTables || []
+    this.writeAuditStore = options.writeAuditStore || null
+    this.connections = new ConnectionRegistry(options.maxConnections || DEFAULT_MAX_CONNECTIONS)
     this.server = new Server(
       {
         name: 'sqlmcp-server',
@@ -50,163 +298,92 @@ export class SqlServerMcpServer {
       },
       {
         capabilities: {
-          tools: {},
+          tools: {
+            listChanged: true,
+          },
           resources: {
             subscribe: true,
+            listChanged: true,
           },
+          prompts: {},
+          logging: {},
         },
       }
     )
 
     this.setupHandlers()
+    this.setupResourceHandlers()
+    this.setupPromptHandlers()
   }
 
   private setupHandlers(): void {
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: 'connect_database',
-          description: 'Connect to a SQL Server database',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              server: { type: 'string', description: 'SQL Server hostname or IP' },
-              database: { type: 'string', description: 'Database name' },
-              user: { type: 'string', description: 'Username' },
-              password: { type: 'string', description: 'Password' },
-              port: { type: 'number', description: 'Port number (default: 1433)' },
-              encrypt: { type: 'boolean', description: 'Use encryption (default: true)' },
-            },
-            required: ['server', 'database', 'user', 'password'],
-          },
-        },
-        {
-          name: 'list_tables',
-          description: 'List all tables in the connected database with row counts',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              schema: { type: 'string', description: 'Schema name (default: all schemas)' },
-            },
-          },
-        },
-        {
-          name: 'list_views',
-          description: 'List all views in the connected database',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              schema: { type: 'string', description: 'Schema name (default: all schemas)' },
-            },
-          },
-        },
-        {
-          name: 'describe_table',
-          description: 'Get detailed schema information for a table including indexes and constraints',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              tableName: {
-                type: 'string',
-                description: 'Table name (can include schema: schema.table)',
-              },
-            },
-            required: ['tableName'],
-          },
-        },
-        {
-          name: 'query_data',
-          description: 'Execute a SELECT query on the database',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              query: {
-                type: 'string',
-                description: 'SQL SELECT query to execute',
-              },
-              limit: {
-                type: 'number',
-                description: 'Maximum number of rows to return',
-                default: 100,
-              },
-            },
-            required: ['query'],
-          },
-        },
-        {
-          name: 'get_table_sample',
-          description: 'Get a sample of data from a table',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              tableName: { type: 'string', description: 'Table name' },
-              sampleSize: { type: 'number', description: 'Number of rows to sample', default: 10 },
-            },
-            required: ['tableName'],
-          },
-        },
-        {
-          name: 'get_database_info',
-          description: 'Get information about the connected database',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-          },
-        },
-        {
-          name: 'analyze_query',
-          description: 'Analyze a query without executing it (estimated execution plan)',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              query: { type: 'string', description: 'SQL query to analyze' },
-            },
-            required: ['query'],
-          },
-        },
-      ],
+      tools: await this.tools.list(this.toolCore),
     }))
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: rawArgs } = request.params
+      let call: ToolCall | null = null
+      let releaseConnection: (() => Promise<void>) | null = null
 
       try {
-        switch (name) {
-          case 'connect_database':
-            return await this.connectDatabase(args as SqlServerConfig)
-          case 'list_tables':
-            this.ensureConnected()
-            return await this.listTables(args.schema as string)
-          case 'list_views':
-            this.ensureConnected()
-            return await this.listViews(args.schema as string)
-          case 'describe_table':
-            this.ensureConnected()
-            return await this.describeTable(args.tableName as string)
-          case 'query_data':
-            this.ensureConnected()
-            return await this.queryData(
-              args.query as string,
-              args.limit as number || 100
-            )
-          case 'get_table_sample':
-            this.ensureConnected()
-            return await this.getTableSample(
-              args.tableName as string,
-              args.sampleSize as number || 10
-            )
-          case 'get_database_info':
-            this.ensureConnected()
-            return await this.getDatabaseInfo()
-          case 'analyze_query':
-            this.ensureConnected()
-            return await this.analyzeQuery(args.query as string)
-          default:
-            throw new Error(`Unknown tool: ${name}`)
+        // Arguments are checked against the tool's schema before anything
+        // runs
+        const tool = this.tools.get(name)
+        const args = parseToolArguments(tool, rawArgs)
+
+        // Every call is tracked by its MCP request ID so that cancellation,
+        // disconnects and timeouts can stop its SQL requests
+        call = new ToolCall(
+          extra.requestId,
+          resolveTimeout(
+            args.timeoutMs,
+            this.connections.find(args.connection as string)?.queryTimeoutMs || DEFAULT_QUERY_TIMEOUT_MS,
+            this.maxQueryTimeoutMs
+          ),
+          extra.signal
+        )
+        this.activeCalls.set(extra.requestId, call)
+        releaseConnection = await this.checkRateLimits(tool, args)
+        await this.checkQuota(tool)
+
+        const context = { core: this.toolCore, call }
+        const run = () =>
+          this.metered(tool, this.targetConnection(tool.name, args), args, call!, () => tool.handler(args, context))
+        if (tool.cacheKey && this.resultCache.isCached(tool.name)) {
+          const db = this.connection(args.connection)
+          return await this.cached(db, tool.name, tool.cacheKey(args), args.fresh === true, run)
+        }
+        return await run()
+      } catch (caught) {
+        const error = call?.cancellationError() || caught
+        if (error instanceof RateLimitError) {
+          return {
+            content: [{ type: 'text', text: error.message }],
+            structuredContent: error.toJSON(),
+            isError: true,
+          }
+        }
+        if (error instanceof QuotaExceededError) {
+          return {
+            content: [{ type: 'text', text: error.message }],
+            isError: true,
+          }
         }
-      } catch (error) {
+        if (error instanceof QueryValidationError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Query rejected: ${error.message}`,
+              },
+            ],
+            isError: true,
+          }
+        }
+
         return {
           content: [
             {
@@ -214,24 +391,412 @@ export class SqlServerMcpServer {
               text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
             },
           ],
+          isError: true,
         }
+      } finally {
+        if (call) {
+          call.dispose()
+          this.activeCalls.delete(extra.requestId)
+        }
+        await releaseConnection?.().catch((error) =>
+          console.error(`[${this.userId}] Failed to release connection slot:`, error)
+        )
       }
     })
   }
 
-  private ensureConnected(): void {
-    if (!this.sqlPool || !this.sqlPool.connected) {
-      throw new Error('Database not connected. Please use connect_database first.')
+  private async checkRateLimits(
+    tool: ToolDefinition,
+    args: Record<string, unknown>
+  ): Promise<(() => Promise<void>) | null> {
+    if (tool.session) return null
+    return await this.acquireRateLimits(this.targetConnection(tool.name, args))
+  }
+
+  // Takes a token from the API key's bucket and a concurrency slot on the
+  // connection the request will run on. Returns the function that frees the
+  // slot.
+  private async acquireRateLimits(db: DatabaseConnection | undefined): Promise<(() => Promise<void>) | null> {
+    if (!this.rateLimiter) return null
+
+    await this.rateLimiter.checkApiKey(this.apiKeyId, this.plan)
+    if (!db) return null
+    // Saved connections are capped across all of the user's sessions
+    const key = db.savedConnectionId || `${this.userId}:${db.config.server}/${db.config.database}`
+    return await this.rateLimiter.acquireConnection(key, this.plan)
+  }
+
+  private targetConnection(toolName: string, args: Record<string, unknown>): DatabaseConnection | undefined {
+    if (toolName !== 'next_page') {
+      return this.connections.find(args.connection as string)
+    }
+    try {
+      return this.connections.find(this.cursors.get(args.cursor as string).connection)
+    } catch {
+      // nextPage reports the unknown or expired cursor
+      return undefined
     }
   }
 
-  private async connectDatabase(config: SqlServerConfig) {
+  // Runs a tool handler and, once the call has sent anything to the
+  // database, records it in the query history and counts it against the
+  // monthly quota, whether it succeeded or failed. Calls rejected before
+  // they reach the database and calls answered from the result cache are
+  // neither. Tools name the statement they ran on the call; the others are
+  // recorded by name and arguments.
+  private async metered(
+    tool: ToolDefinition,
+    db: DatabaseConnection | undefined,
+    args: Record<string, unknown>,
+    call: ToolCall,
+    run: () => Promise<ToolResult>
+  ): Promise<ToolResult> {
+    const startTime = Date.now()
+    const settle = async (error?: string) => {
+      if (tool.session || !call.executed) return
+      if (db) {
+        const query = call.statement ?? `${tool.name} ${JSON.stringify(args)}`
+        this.logQuery(db, query, Date.now() - startTime, call.rowCount, error === undefined, error)
+      }
+      await this.consumeQuota()
+    }
+
     try {
-      // Close existing connection if any
-      if (this.sqlPool) {
-        await this.sqlPool.close()
+      const result = await run()
+      await settle(result.isError ? result.content[0]?.text : undefined)
+      return result
+    } catch (caught) {
+      const error = call.cancellationError() || caught
+      await settle(error instanceof Error ? error.message : 'Unknown error')
+      throw caught
+    }
+  }
+
+  // Rejects the call when the monthly quota is already used up. Calls are
+  // counted only once they have run (see metered).
+  private async checkQuota(tool?: ToolDefinition): Promise<void> {
+    if (!this.quota || tool?.session) return
+    await this.quota.check(this.userId)
+  }
+
+  // Runs a request other than a tool call that reads the database, such as
+  // a prompt or a resource, under the limits tool calls have: it is rate limited, refused
+  // over quota and counted once it has reached the database, and its SQL is
+  // cancelled with the request or after the connection's timeout
+  private async limited<T>(
+    requestId: string | number,
+    signal: AbortSignal,
+    db: DatabaseConnection,
+    run: (call: ToolCall) => Promise<T>
+  ): Promise<T> {
+    const call = new ToolCall(requestId, resolveTimeout(undefined, db.queryTimeoutMs, this.maxQueryTimeoutMs), signal)
+    this.activeCalls.set(requestId, call)
+    let releaseConnection: (() => Promise<void>) | null = null
+
+    try {
+      releaseConnection = await this.acquireRateLimits(db)
+      await this.checkQuota()
+      try {
+        return await run(call)
+      } finally {
+        if (call.executed) await this.consumeQuota()
       }
+    } catch (caught) {
+      throw call.cancellationError() || caught
+    } finally {
+      call.dispose()
+      this.activeCalls.delete(requestId)
+      await releaseConnection?.().catch((error) =>
+        console.error(`[${this.userId}] Failed to release connection slot:`, error)
+      )
+    }
+  }
+
+  // Counts a call that ran against the monthly quota and warns the client
+  // when usage reaches 80% and 100%. The call has run by now, so a failure
+  // to count it is logged rather than returned.
+  private async consumeQuota(): Promise<void> {
+    if (!this.quota) return
+
+    try {
+      const usage = await this.quota.consume(this.userId)
+      if (usage.warning !== null) {
+        this.server
+          .sendLoggingMessage({ level: 'warning', logger: 'quota', data: formatQuotaWarning(usage) })
+          .catch((error) => console.error(`[${this.userId}] Failed to send quota warning:`, error))
+      }
+    } catch (error) {
+      // A concurrent call took the last call of the quota after this one
+      // was checked; this one is served, and the next is rejected
+      if (error instanceof QuotaExceededError) return
+      console.error(`[${this.userId}] Failed to count the call against the quota:`, error)
+    }
+  }
+
+  // Returns the tool's cached result for these arguments, or runs the tool
+  // and caches what it returns. fresh skips the lookup but still caches the
+  // new result. Failed calls are not cached, and neither are pages that come
+  // with a next_page cursor, which would expire while the result was served.
+  private async cached<T>(
+    db: DatabaseConnection,
+    tool: CachedTool,
+    args: unknown[],
+    fresh: boolean,
+    run: () => Promise<T>
+  ): Promise<T> {
+    if (!this.resultCache.isCached(tool)) return await run()
+
+    if (!fresh) {
+      const hit = this.resultCache.get<T>(db.name, tool, args)
+      this.pushMetric({
+        query: `${tool} ${JSON.stringify(args)}`.substring(0, 200),
+        executionTime: 0,
+        rowCount: 0,
+        success: true,
+        cache: hit === undefined ? 'miss' : 'hit',
+      })
+      if (hit !== undefined) return hit
+    }
+
+    const result = await run()
+    const page = (result as { structuredContent?: { nextCursor?: string } }).structuredContent
+    if (!page?.nextCursor) this.resultCache.set(db.name, tool, args, result)
+    return result
+  }
+
+  // What tool handlers run: the server's operations on the named or the
+  // active connection
+  private createToolCore(): ToolCore {
+    return {
+      allowsRawCredentials: () => this.allowsRawCredentials(),
+      hasSavedConnections: () => this.connectionStore !== null,
+      hasWritableConnection: () => this.connections.entries().some(([, db]) => db.writableTables.length > 0),
+      connectDatabase: (config) => this.connectDatabase(config),
+      useConnection: (nameOrId) => this.useConnection(nameOrId),
+      listConnections: () => this.listConnections(),
+      switchConnection: (name) => this.switchConnection(name),
+      testConnection: (connection, call) => this.testConnection(this.connection(connection), call),
+      listTables: (connection, schema, call) => this.listTables(this.connection(connection), schema, call),
+      listViews: (connection, schema, call) => this.listViews(this.connection(connection), schema, call),
+      searchSchema: (connection, query, objectTypes, schema, offset, limit, call) =>
+        this.searchSchema(this.connection(connection), query, objectTypes, schema, offset, limit, call),
+      describeTable: (connection, tableName, call) => this.describeTable(this.connection(connection), tableName, call),
+      getRelationships: (connection, tables, from, to, diagram, call) =>
+        this.getRelationships(this.connection(connection), tables, from, to, diagram, call),
+      queryData: (connection, query, limit, format, call) =>
+        this.queryData(this.connection(connection), query, limit, format, call),
+      getTableSample: (connection, tableName, sampleSize, format, call) =>
+        this.getTableSample(this.connection(connection), tableName, sampleSize, format, call),
+      nextPage: (cursor, format, call) => this.nextPage(cursor, format, call),
+      profileTable: (connection, tableName, sampleSize, topN, call) =>
+        this.profileTable(this.connection(connection), tableName, sampleSize, topN, call),
+      previewWrite: (connection, statement, call) => this.previewWrite(this.connection(connection), statement, call),
+      commitWrite: (confirmationToken, call) => this.commitWrite(confirmationToken, call),
+      listProcedures: (connection, schema, call) => this.listProcedures(this.connection(connection), schema, call),
+      describeProcedure: (connection, procedureName, call) =>
+        this.describeProcedure(this.connection(connection), procedureName, call),
+      executeProcedure: (connection, procedureName, parameters, call) =>
+        this.executeProcedure(this.connection(connection), procedureName, parameters, call),
+      getDatabaseInfo: (connection, call) => this.getDatabaseInfo(this.connection(connection), call),
+      analyzeQuery: (connection, query, call) => this.analyzeQuery(this.connection(connection), query, call),
+    }
+  }
+
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+      // Resources are listed for the active connection, and there is nothing
+      // to list until one is connected
+      const db = this.connections.find()
+      if (!db || !db.pool.connected) {
+        return { resources: [] }
+      }
+      return await this.limited(extra.requestId, extra.signal, db, (call) =>
+        this.listResources(db, request.params?.cursor, call)
+      )
+    })
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: RESOURCE_URI_TEMPLATE,
+          name: 'Schema object',
+          description: 'Columns or parameters and DDL of a table, view, stored procedure or function',
+          mimeType: 'text/markdown',
+        },
+      ],
+    }))
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      const { uri } = request.params
+      const address = parseResourceUri(uri)
+      const db = this.connection(address.connection)
+      return await this.limited(extra.requestId, extra.signal, db, (call) =>
+        this.readResource(db, uri, address, call)
+      )
+    })
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      // Validate the URI so clients find out about typos up front
+      parseResourceUri(request.params.uri)
+      this.subscriptions.add(request.params.uri)
+      return {}
+    })
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri)
+      return {}
+    })
+  }
+
+  private setupPromptHandlers(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: listPromptDefinitions(await this.getCustomPrompts(this.connections.find())),
+    }))
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params
+      const db = this.connection()
+      const customPrompts = await this.getCustomPrompts(db)
+      // Built-in prompts query the database like the tools they stand in for
+      return await this.limited(extra.requestId, extra.signal, db, (call) =>
+        buildPrompt(name, args || {}, this.promptContext(db, call), customPrompts)
+      )
+    })
+  }
+
+  private async getCustomPrompts(db?: DatabaseConnection) {
+    if (!this.promptStore) return []
+    // Only prompts shared across all connections apply to raw connections
+    return await this.promptStore.getPrompts(this.userId, db?.savedConnectionId || null)
+  }
+
+  // Prompts are filled in with the same text the tools return
+  private promptContext(db: DatabaseConnection, call: ToolCall): PromptContext {
+    const text = (result: { content: { type: string; text: string }[] }) =>
+      result.content.map((item) => item.text).join('\n\n')
+
+    return {
+      describeDatabase: async () => text(await this.getDatabaseInfo(db, call)),
+      listTables: async () => text(await this.listTables(db, undefined, call)),
+      describeTable: async (tableName) => text(await this.describeTable(db, tableName, call)),
+      // Only the readable plan summary, not the JSON copy
+      analyzeQuery: async (query) => (await this.analyzeQuery(db, query, call)).content[0].text,
+    }
+  }
+
+  private async startSchemaWatcher(db: DatabaseConnection): Promise<void> {
+    this.stopSchemaWatcher(db)
+    db.schemaWatcher = new SchemaWatcher(db.pool, SCHEMA_POLL_INTERVAL_MS)
+    db.schemaWatcher.on('change', (change: SchemaChange) => {
+      this.notifySchemaChange(db, change).catch((error) =>
+        console.error(`[${this.userId}] Failed to send schema notifications:`, error)
+      )
+    })
+    await db.schemaWatcher.start()
+  }
+
+  private stopSchemaWatcher(db: DatabaseConnection): void {
+    if (db.schemaWatcher) {
+      db.schemaWatcher.stop()
+      db.schemaWatcher.removeAllListeners()
+      db.schemaWatcher = null
+    }
+  }
+
+  private async notifySchemaChange(db: DatabaseConnection, change: SchemaChange): Promise<void> {
+    // Cached metadata, and results of queries over the old schema, are stale
+    this.resultCache.clear(db.name)
+
+    // Dropped objects are reported to subscribers too, so they stop using them
+    for (const object of [...change.modified, ...change.dropped]) {
+      db.profileCache.invalidate(object.schema, object.name)
+      const uri = buildResourceUri({
+        connection: db.name,
+        schema: object.schema,
+        object: object.name,
+      })
+      if (this.subscriptions.has(uri)) {
+        await this.server.sendResourceUpdated({ uri })
+      }
+    }
+
+    if (change.created.length > 0 || change.dropped.length > 0) {
+      await this.server.sendResourceListChanged()
+    }
+  }
+
+  // The named connection, or the active one, checked to still be connected
+  private connection(name?: unknown): DatabaseConnection {
+    const db = this.connections.get(typeof name === 'string' && name ? name : undefined)
+    if (!db.pool.connected) {
+      throw new Error(`Connection '${db.name}' is closed. Please use connect_database to reconnect.`)
+    }
+    return db
+  }
+
+  private async allowsRawCredentials(): Promise<boolean> {
+    return this.connectionStore ? await this.connectionStore.allowsRawCredentials(this.userId) : true
+  }
+
+  private async connectDatabase(config: SqlServerConfig) {
+    if (!(await this.allowsRawCredentials())) {
+      throw new Error(
+        'Connecting with credentials is disabled for this account. Use use_connection with a connection saved in the dashboard.'
+      )
+    }
+
+    const name = (config.name || config.database || '').trim()
+    if (!name) {
+      throw new Error('Connection name or database is required')
+    }
+    return await this.openConnection(name, config, null, this.allowedProcedures, this.writableTables)
+  }
+
+  // Opens a saved dashboard connection. Its password is decrypted here and
+  // never passes through the client.
+  private async useConnection(nameOrId: string) {
+    if (!this.connectionStore) {
+      throw new Error('Saved connections are not available on this server')
+    }
+    if (!nameOrId) {
+      throw new Error('name is required')
+    }
+
+    const saved = await this.connectionStore.findConnection(this.userId, nameOrId)
+    if (!saved) {
+      const names = await this.connectionStore.listConnectionNames(this.userId)
+      throw new Error(
+        `Saved connection '${nameOrId}' not found. ${
+          names.length > 0 ? `Saved connections: ${names.join(', ')}` : 'Save one in the dashboard first.'
+        }`
+      )
+    }
+
+    const config: SqlServerConfig = {
+      server: saved.server,
+      database: saved.database,
+      user: saved.user,
+      password: saved.password,
+      port: saved.port,
+      options: {
+        trustServerCertificate: saved.trustServerCertificate,
+      },
+      readOnlyIntent: saved.readOnlyIntent,
+    }
+    return await this.openConnection(saved.name, config, saved.id, saved.allowedProcedures, saved.writableTables)
+  }
+
+  private async openConnection(
+    name: string,
+    config: SqlServerConfig,
+    savedConnectionId: string | null,
+    allowedProcedures: string[],
+    writableTables: string[]
+  ) {
+    this.connections.assertCapacity(name)
 
+    let lease: PoolLease | null = null
+    try {
       // Configure connection
       const sqlConfig: sql.config = {
         server: config.server,
@@ -244,7 +809,9 @@ export class SqlServerMcpServer {
           trustServerCertificate: config.options?.trustServerCertificate || false,
           enableArithAbort: config.options?.enableArithAbort !== false,
           connectionTimeout: config.options?.connectionTimeout || 30000,
-          requestTimeout: config.options?.requestTimeout || 30000,
+          // Calls cancel themselves at their own timeout; this is the backstop
+          requestTimeout: this.maxQueryTimeoutMs,
+          readOnlyIntent: config.readOnlyIntent === true,
         },
         pool: {
           max: 10,
@@ -253,21 +820,66 @@ export class SqlServerMcpServer {
         },
       }
 
-      this.config = config
-      this.sqlPool = await sql.connect(sqlConfig)
+      // Pools are isolated per user. The user's sessions that open the same
+      // connection with the same settings share one.
+      lease = await this.poolManager.acquire(
+        this.userId,
+        savedConnectionId || `${config.server}/${config.database}`,
+        sqlConfig
+      )
+      const pool = lease.pool
 
       // Test connection
-      await this.sqlPool.request().query`SELECT 1 as test`
+      await pool.request().query`SELECT 1 as test`
+      const permissions = await this.checkPermissions(pool)
+
+      const db: DatabaseConnection = {
+        name,
+        config,
+        sqlConfig,
+        pool,
+        lease,
+        queryTimeoutMs: Math.min(
+          config.options?.requestTimeout || DEFAULT_QUERY_TIMEOUT_MS,
+          this.maxQueryTimeoutMs
+        ),
+        savedConnectionId,
+        allowedProcedures,
+        writableTables,
+        permissions,
+        schemaWatcher: null,
+        profileCache: new TableProfileCache(),
+      }
+
+      // A connection opened under an existing name replaces it, and only
+      // once the new one works
+      const replaced = this.connections.add(name, db)
+      if (replaced) {
+        await this.closeConnection(replaced)
+      }
+
+      // Watch for DDL changes so resource subscribers stay current
+      await this.startSchemaWatcher(db)
+      await this.server.sendResourceListChanged()
+      if (writableTables.length > 0 || replaced?.writableTables.length) {
+        // execute_dml is listed only while a connection in write mode is open
+        await this.server.sendToolListChanged()
+      }
 
       return {
         content: [
           {
             type: 'text',
-            text: `Successfully connected to SQL Server: ${config.server}/${config.database}`,
+            text:
+              `Successfully connected to SQL Server: ${config.server}/${config.database} as connection '${name}' (now active)` +
+              (permissions ? `\n\n${formatPermissionReport(permissions)}` : ''),
           },
         ],
       }
     } catch (error) {
+      if (lease && this.connections.find(name)?.lease !== lease) {
+        await lease.release()
+      }
       throw new Error(
         `Connection failed: ${
           error instanceof Error ? error.message : 'Unknown error'
@@ -276,12 +888,84 @@ export class SqlServerMcpServer {
     }
   }
 
-  private async listTables(schema?: string) {
-    const startTime = Date.now()
-    
+  // Reads what the login may do. Owner and sysadmin logins are refused when
+  // the policy says so, and so are logins whose permissions cannot be read.
+  private async checkPermissions(pool: sql.ConnectionPool): Promise<PermissionReport | null> {
+    let report: PermissionReport
+    try {
+      report = await readPermissionReport(pool)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      if (this.elevatedLogins === 'refuse') {
+        throw new Error(`The permissions of the login could not be checked: ${message}`)
+      }
+      console.error(`[${this.userId}] Failed to read login permissions:`, error)
+      return null
+    }
+
+    if (report.level === 'elevated' && this.elevatedLogins === 'refuse') {
+      throw new Error(
+        `${report.warnings[0]} This account only accepts logins that are neither db_owner nor sysadmin; ` +
+          'connect with a read-only login instead.'
+      )
+    }
+    return report
+  }
+
+  private listConnections() {
+    const active = this.connections.active
+    const lines = this.connections.entries().map(
+      ([name, db]) =>
+        `- ${name}${name === active ? ' (active)' : ''}: ${db.config.server}/${db.config.database}${
+          db.pool.connected ? '' : ' (closed)'
+        }`
+    )
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            lines.length === 0
+              ? `No open connections. Use connect_database to open one (up to ${this.connections.limit}).`
+              : `Open connections (${lines.length} of ${this.connections.limit}):\n\n${lines.join('\n')}`,
+        },
+      ],
+    }
+  }
+
+  private async switchConnection(name: string) {
+    if (!name) {
+      throw new Error('name is required')
+    }
+    const db = this.connections.switch(name)
+
+    // Resources are listed for the active connection
+    await this.server.sendResourceListChanged()
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Switched to connection '${name}': ${db.config.server}/${db.config.database}`,
+        },
+      ],
+    }
+  }
+
+  private async closeConnection(db: DatabaseConnection): Promise<void> {
+    this.stopSchemaWatcher(db)
+    this.cursors.clear(db.name)
+    this.resultCache.clear(db.name)
+    this.writeConfirmations.clear(db.name)
+    db.profileCache.clear()
+    await db.lease.release()
+  }
+
+  private async listTables(db: DatabaseConnection, schema?: string, call?: ToolCall) {
     let whereClause = "WHERE t.TABLE_TYPE = 'BASE TABLE' AND t.TABLE_SCHEMA NOT IN ('sys', 'INFORMATION_SCHEMA')"
     if (schema) {
-      whereClause += ` AND t.TABLE_SCHEMA = '${schema}'`
+      whereClause += ' AND t.TABLE_SCHEMA = @schema'
     }
 
     const query = `
@@ -310,9 +994,12 @@ export class SqlServerMcpServer {
       ORDER BY t.TABLE_SCHEMA, t.TABLE_NAME
     `
 
-    const result = await this.sqlPool!.request().query(query)
-    
-    this.logQuery(query, Date.now() - startTime, result.recordset.length, true)
+    const request = this.request(db, call)
+    if (schema) {
+      request.input('schema', sql.NVarChar, schema)
+    }
+    const result = await request.query(query)
+    call?.recordStatement(query, result.recordset.length)
 
     const tables = result.recordset.map(
       (row) =>
@@ -329,13 +1016,104 @@ export class SqlServerMcpServer {
     }
   }
 
-  private async listViews(schema?: string) {
+  private async searchSchema(
+    db: DatabaseConnection,
+    query: string,
+    objectTypes: unknown[],
+    schema: string | undefined,
+    offset: number,
+    limit: number,
+    call?: ToolCall
+  ) {
+    const pattern = parseSearchPattern(query)
+
+    const invalidType = objectTypes.find((type) => !isSearchObjectType(type))
+    if (invalidType !== undefined) {
+      throw new Error(`Invalid object type '${invalidType}'. Expected one of: ${SEARCH_OBJECT_TYPES.join(', ')}`)
+    }
+    const typeCodes = typeCodesFor(objectTypes as SearchObjectType[])
+      .map((code) => `'${code}'`)
+      .join(', ')
+
+    const start = Math.max(0, Math.floor(offset))
+    const pageSize = Math.max(1, Math.min(Math.floor(limit), MAX_SEARCH_LIMIT))
+
+    // Matching uses a case- and accent-insensitive collation whatever the
+    // database's own. Routine bodies come back as a window around the first
+    // match, with its line number, rather than in full.
+    const objectFilter = `o.is_ms_shipped = 0 AND o.type IN (${typeCodes})${schema ? ' AND s.name = @schema' : ''}`
+    const searchQuery = `
+      SELECT TOP (${MAX_SEARCH_CANDIDATES}) * FROM (
+        SELECT o.type AS OBJECT_TYPE, s.name AS SCHEMA_NAME, o.name AS OBJECT_NAME,
+          'name' AS MATCH_KIND, NULL AS COLUMN_NAME, NULL AS MATCH_TEXT, NULL AS MATCH_LINE, 0 AS KIND_ORDER
+        FROM sys.objects o
+        INNER JOIN sys.schemas s ON o.schema_id = s.schema_id
+        WHERE ${objectFilter} AND o.name COLLATE Latin1_General_CI_AI LIKE @pattern
+        UNION ALL
+        SELECT o.type, s.name, o.name, 'column', c.name, TYPE_NAME(c.user_type_id), NULL, 1
+        FROM sys.columns c
+        INNER JOIN sys.objects o ON c.object_id = o.object_id
+        INNER JOIN sys.schemas s ON o.schema_id = s.schema_id
+        WHERE ${objectFilter} AND c.name COLLATE Latin1_General_CI_AI LIKE @pattern
+        UNION ALL
+        SELECT o.type, s.name, o.name, 'description', c.name, CAST(ep.value AS NVARCHAR(4000)), NULL, 2
+        FROM sys.extended_properties ep
+        INNER JOIN sys.objects o ON ep.major_id = o.object_id
+        INNER JOIN sys.schemas s ON o.schema_id = s.schema_id
+        LEFT JOIN sys.columns c ON c.object_id = ep.major_id AND c.column_id = ep.minor_id
+        WHERE ep.class = 1 AND ep.name = 'MS_Description' AND ${objectFilter}
+          AND CAST(ep.value AS NVARCHAR(4000)) COLLATE Latin1_General_CI_AI LIKE @textPattern
+        UNION ALL
+        SELECT o.type, s.name, o.name, 'definition', NULL,
+          SUBSTRING(m.definition, CASE WHEN p.position > 300 THEN p.position - 300 ELSE 1 END, 600),
+          (DATALENGTH(LEFT(m.definition, p.position)) - DATALENGTH(REPLACE(LEFT(m.definition, p.position), NCHAR(10), ''))) / 2 + 1,
+          3
+        FROM sys.sql_modules m
+        INNER JOIN sys.objects o ON m.object_id = o.object_id
+        INNER JOIN sys.schemas s ON o.schema_id = s.schema_id
+        CROSS APPLY (SELECT PATINDEX(@textPattern, m.definition COLLATE Latin1_General_CI_AI) AS position) p
+        WHERE ${objectFilter} AND p.position > 0
+      ) candidates
+      ORDER BY KIND_ORDER, SCHEMA_NAME, OBJECT_NAME
+    `
+
+    const request = this.request(db, call)
+      .input('pattern', sql.NVarChar, pattern.like)
+      .input('textPattern', sql.NVarChar, pattern.textLike)
+    if (schema) {
+      request.input('schema', sql.NVarChar, schema)
+    }
+    const result = await request.query(searchQuery)
+    call?.recordStatement(searchQuery, result.recordset.length)
+
+    const ranked = rankSearchResults(result.recordset as SchemaSearchRow[], pattern)
+    const page = ranked.slice(start, start + pageSize)
+    const truncatedNote =
+      result.recordset.length === MAX_SEARCH_CANDIDATES
+        ? '\n\nThe search matched too many objects to rank them all. Narrow it with a more specific query, objectTypes or schema.'
+        : ''
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatSearchResults(pattern.text, page, ranked.length, start) + truncatedNote,
+        },
+      ],
+    }
+  }
+
+  private async listViews(db: DatabaseConnection, schema?: string, call?: ToolCall) {
     let whereClause = "WHERE TABLE_SCHEMA NOT IN ('sys', 'INFORMATION_SCHEMA')"
     if (schema) {
-      whereClause += ` AND TABLE_SCHEMA = '${schema}'`
+      whereClause += ' AND TABLE_SCHEMA = @schema'
     }
 
-    const result = await this.sqlPool!.request().query(`
+    const request = this.request(db, call)
+    if (schema) {
+      request.input('schema', sql.NVarChar, schema)
+    }
+    const result = await request.query(`
       SELECT 
         TABLE_SCHEMA,
         TABLE_NAME as VIEW_NAME,
@@ -364,7 +1142,314 @@ export class SqlServerMcpServer {
     }
   }
 
-  private async describeTable(tableName: string) {
+  private async getRelationships(
+    db: DatabaseConnection,
+    tables: string[],
+    from?: string,
+    to?: string,
+    diagram = false,
+    call?: ToolCall,
+  ) {
+    if (!Array.isArray(tables)) {
+      throw new Error('tables must be a list of table names')
+    }
+    if (!!from !== !!to) {
+      throw new Error('Both from and to are required to find a join path')
+    }
+
+    const allForeignKeys = await this.getForeignKeys(db, call)
+    const foreignKeys = filterForeignKeys(allForeignKeys, tables.map(parseTableRef))
+    const sections = [
+      `## Relationships (${foreignKeys.length})\n${
+        foreignKeys.length > 0 ? formatForeignKeys(foreignKeys).join('\n') : '(none)'
+      }`,
+    ]
+
+    if (from && to) {
+      const start = parseTableRef(from)
+      const end = parseTableRef(to)
+      const path = findJoinPath(allForeignKeys, start, end)
+      sections.push(
+        `## Join path: ${start.schema}.${start.table} -> ${end.schema}.${end.table}\n${
+          path
+            ? `\`\`\`sql\n${formatJoinPath(start, path)}\n\`\`\``
+            : 'No chain of foreign keys connects these tables.'
+        }`
+      )
+    }
+
+    if (diagram) {
+      const keyColumns = foreignKeys.length > 0 ? await this.getKeyColumns(db, call) : []
+      sections.push(`## ER diagram\n\`\`\`mermaid\n${buildMermaidErDiagram(foreignKeys, keyColumns)}\n\`\`\``)
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: sections.join('\n\n'),
+        },
+      ],
+    }
+  }
+
+  private async getForeignKeys(db: DatabaseConnection, call?: ToolCall): Promise<ForeignKey[]> {
+    const result = await this.request(db, call).query`
+      SELECT 
+        fk.name AS FK_NAME,
+        ps.name AS FROM_SCHEMA,
+        pt.name AS FROM_TABLE,
+        pc.name AS FROM_COLUMN,
+        pc.is_nullable AS FROM_NULLABLE,
+        rs.name AS TO_SCHEMA,
+        rt.name AS TO_TABLE,
+        rc.name AS TO_COLUMN,
+        fk.delete_referential_action_desc AS ON_DELETE,
+        fk.update_referential_action_desc AS ON_UPDATE,
+        fk.is_disabled AS IS_DISABLED
+      FROM sys.foreign_keys fk
+      INNER JOIN sys.foreign_key_columns fkc ON fk.object_id = fkc.constraint_object_id
+      INNER JOIN sys.tables pt ON fkc.parent_object_id = pt.object_id
+      INNER JOIN sys.schemas ps ON pt.schema_id = ps.schema_id
+      INNER JOIN sys.columns pc ON fkc.parent_object_id = pc.object_id AND fkc.parent_column_id = pc.column_id
+      INNER JOIN sys.tables rt ON fkc.referenced_object_id = rt.object_id
+      INNER JOIN sys.schemas rs ON rt.schema_id = rs.schema_id
+      INNER JOIN sys.columns rc ON fkc.referenced_object_id = rc.object_id AND fkc.referenced_column_id = rc.column_id
+      ORDER BY ps.name, pt.name, fk.name, fkc.constraint_column_id
+    `
+
+    return groupForeignKeys(result.recordset)
+  }
+
+  // Primary and foreign key columns of every table, for ER diagrams
+  private async getKeyColumns(db: DatabaseConnection, call?: ToolCall): Promise<KeyColumn[]> {
+    const result = await this.request(db, call).query`
+      SELECT 
+        s.name AS SCHEMA_NAME,
+        t.name AS TABLE_NAME,
+        c.name AS COLUMN_NAME,
+        ty.name AS TYPE_NAME,
+        CAST(CASE WHEN pk.column_id IS NOT NULL THEN 1 ELSE 0 END AS bit) AS IS_PRIMARY_KEY,
+        CAST(CASE WHEN EXISTS (
+          SELECT 1 FROM sys.foreign_key_columns fkc
+          WHERE fkc.parent_object_id = c.object_id AND fkc.parent_column_id = c.column_id
+        ) THEN 1 ELSE 0 END AS bit) AS IS_FOREIGN_KEY
+      FROM sys.columns c
+      INNER JOIN sys.tables t ON c.object_id = t.object_id
+      INNER JOIN sys.schemas s ON t.schema_id = s.schema_id
+      INNER JOIN sys.types ty ON c.user_type_id = ty.user_type_id
+      LEFT JOIN (
+        SELECT ic.object_id, ic.column_id
+        FROM sys.index_columns ic
+        INNER JOIN sys.indexes i ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+        WHERE i.is_primary_key = 1
+      ) pk ON c.object_id = pk.object_id AND c.column_id = pk.column_id
+      WHERE pk.column_id IS NOT NULL
+        OR EXISTS (
+          SELECT 1 FROM sys.foreign_key_columns fkc
+          WHERE fkc.parent_object_id = c.object_id AND fkc.parent_column_id = c.column_id
+        )
+      ORDER BY s.name, t.name, c.column_id
+    `
+
+    return result.recordset.map((row) => ({
+      schema: row.SCHEMA_NAME,
+      table: row.TABLE_NAME,
+      column: row.COLUMN_NAME,
+      typeName: row.TYPE_NAME,
+      isPrimaryKey: row.IS_PRIMARY_KEY,
+      isForeignKey: row.IS_FOREIGN_KEY,
+    }))
+  }
+
+  private async listProcedures(db: DatabaseConnection, schema?: string, call?: ToolCall) {
+    const result = await this.request(db, call)
+      .input('schema', sql.NVarChar, schema || null).query`
+      SELECT 
+        s.name AS SCHEMA_NAME,
+        p.name AS PROCEDURE_NAME,
+        (SELECT COUNT(*) FROM sys.parameters pa WHERE pa.object_id = p.object_id AND pa.parameter_id > 0) AS PARAMETER_COUNT
+      FROM sys.procedures p
+      INNER JOIN sys.schemas s ON p.schema_id = s.schema_id
+      WHERE p.is_ms_shipped = 0 AND (@schema IS NULL OR s.name = @schema)
+      ORDER BY s.name, p.name
+    `
+
+    const procedures = result.recordset.map((row) => {
+      const allowed = isProcedureAllowed(db.allowedProcedures, { schema: row.SCHEMA_NAME, name: row.PROCEDURE_NAME })
+      return `- ${row.SCHEMA_NAME}.${row.PROCEDURE_NAME} (${row.PARAMETER_COUNT} parameters)${
+        allowed ? ' [executable]' : ''
+      }`
+    })
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Found ${result.recordset.length} stored procedures:\n\n${procedures.join(
+            '\n'
+          )}\n\nProcedures marked [executable] are allowlisted for this connection and can be run with execute_procedure.`,
+        },
+      ],
+    }
+  }
+
+  private async describeProcedure(db: DatabaseConnection, procedureName: string, call?: ToolCall) {
+    const procedure = parseProcedureName(procedureName)
+    const parameters = await this.getProcedureParameters(db, procedure, call)
+    const allowed = isProcedureAllowed(db.allowedProcedures, procedure)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# ${procedure.schema}.${procedure.name}
+
+## Parameters
+${parameters.length > 0 ? formatProcedureParameters(parameters).join('\n') : '(none)'}
+
+## Execution
+${
+  allowed
+    ? 'Allowlisted: run it with execute_procedure.'
+    : 'Not allowlisted. The connection owner can allow it in the dashboard.'
+}`,
+        },
+      ],
+    }
+  }
+
+  private async getProcedureParameters(
+    db: DatabaseConnection,
+    procedure: ProcedureName,
+    call?: ToolCall,
+  ): Promise<ProcedureParameter[]> {
+    const procedureResult = await this.request(db, call)
+      .input('schema', sql.NVarChar, procedure.schema)
+      .input('name', sql.NVarChar, procedure.name).query`
+      SELECT p.object_id AS OBJECT_ID, OBJECT_DEFINITION(p.object_id) AS DEFINITION
+      FROM sys.procedures p
+      INNER JOIN sys.schemas s ON p.schema_id = s.schema_id
+      WHERE s.name = @schema AND p.name = @name
+    `
+
+    if (procedureResult.recordset.length === 0) {
+      throw new Error(`Stored procedure '${procedure.schema}.${procedure.name}' not found`)
+    }
+    const { OBJECT_ID: objectId, DEFINITION: definition } = procedureResult.recordset[0]
+
+    const result = await this.request(db, call)
+      .input('objectId', sql.Int, objectId).query`
+      SELECT 
+        p.name AS PARAMETER_NAME,
+        t.name AS TYPE_NAME,
+        p.max_length AS MAX_LENGTH,
+        p.precision AS PRECISION,
+        p.scale AS SCALE,
+        p.is_output AS IS_OUTPUT,
+        p.is_readonly AS IS_READONLY,
+        p.has_default_value AS HAS_DEFAULT,
+        CONVERT(nvarchar(4000), p.default_value) AS DEFAULT_VALUE
+      FROM sys.parameters p
+      INNER JOIN sys.types t ON p.user_type_id = t.user_type_id
+      WHERE p.object_id = @objectId AND p.parameter_id > 0
+      ORDER BY p.parameter_id
+    `
+
+    // Encrypted procedures have no definition to read defaults from
+    const defaults = definition ? parseParameterDefaults(definition) : {}
+
+    return result.recordset.map((row) => {
+      const defaultValue = row.HAS_DEFAULT ? row.DEFAULT_VALUE ?? 'NULL' : defaults[row.PARAMETER_NAME] ?? null
+      return {
+        name: row.PARAMETER_NAME,
+        typeName: row.TYPE_NAME,
+        maxLength: row.MAX_LENGTH,
+        precision: row.PRECISION,
+        scale: row.SCALE,
+        isOutput: row.IS_OUTPUT,
+        isReadOnly: row.IS_READONLY,
+        hasDefault: defaultValue !== null,
+        defaultValue,
+      }
+    })
+  }
+
+  private async executeProcedure(
+    db: DatabaseConnection,
+    procedureName: string,
+    args: Record<string,
+    unknown>,
+    call?: ToolCall,
+  ) {
+    const procedure = parseProcedureName(procedureName)
+    if (!isProcedureAllowed(db.allowedProcedures, procedure)) {
+      throw new Error(
+        `Stored procedure '${procedure.schema}.${procedure.name}' is not allowlisted for this connection. The connection owner can allow it in the dashboard.`
+      )
+    }
+
+    const parameters = await this.getProcedureParameters(db, procedure, call)
+    const request = this.request(db, call)
+    bindParameters(request, parameters, args)
+
+    const statement = `EXEC ${quoteProcedureName(procedure)}`
+    call?.recordStatement(statement)
+
+    try {
+      const result = await request.execute(quoteProcedureName(procedure))
+      const resultSets = await this.maskProcedureResults(
+        db,
+        procedure,
+        (result.recordsets as sql.IRecordSet<Record<string, unknown>>[]).map((recordset) => buildQueryResult(recordset, this.queryLimit)),
+        call
+      )
+      call?.recordStatement(
+        statement,
+        resultSets.reduce((sum, set) => sum + set.rowCount, 0)
+      )
+
+      const output: Record<string, unknown> = {}
+      for (const [name, value] of Object.entries(result.output || {})) {
+        output[`@${name}`] = toResultValue(value)
+      }
+
+      const sections = resultSets.map((set, index) => `## Result set ${index + 1}\n${formatMarkdown(set)}`)
+      if (Object.keys(output).length > 0) {
+        sections.push(
+          `## Output parameters\n${Object.entries(output)
+            .map(([name, value]) => `- ${name} = ${value === null ? 'NULL' : value}`)
+            .join('\n')}`
+        )
+      }
+      sections.push(
+        `Return value: ${result.returnValue}. Rows affected: ${(result.rowsAffected as number[]).reduce(
+          (sum, count) => sum + count,
+          0
+        )}`
+      )
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `# ${statement}\n\n${sections.join('\n\n')}`,
+          },
+        ],
+        structuredContent: {
+          resultSets,
+          output,
+          returnValue: result.returnValue,
+          rowsAffected: result.rowsAffected,
+        },
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(`Procedure execution failed: ${errorMessage}`)
+    }
+  }
+
+  private async describeTable(db: DatabaseConnection, tableName: string, call?: ToolCall) {
     // Parse schema and table name
     const parts = tableName.split('.')
     const schema = parts.length > 1 ? parts[0] : 'dbo'
@@ -376,7 +1461,7 @@ export class SqlServerMcpServer {
     }
 
     // Get columns
-    const columnsResult = await this.sqlPool!.request()
+    const columnsResult = await this.request(db, call)
       .input('schema', sql.NVarChar, schema)
       .input('table', sql.NVarChar, table).query`
       SELECT 
@@ -425,7 +1510,7 @@ export class SqlServerMcpServer {
     }
 
     // Get indexes
-    const indexesResult = await this.sqlPool!.request()
+    const indexesResult = await this.request(db, call)
       .input('schema', sql.NVarChar, schema)
       .input('table', sql.NVarChar, table).query`
       SELECT 
@@ -442,6 +1527,16 @@ export class SqlServerMcpServer {
       ORDER BY i.name
     `
 
+    const foreignKeys = filterForeignKeys(await this.getForeignKeys(db, call), [{ schema, table }])
+    const maskingRules = await this.maskingRules(db)
+    const references = new Map<string, string>()
+    for (const fk of foreignKeys) {
+      if (tableKey(fk.from) !== tableKey({ schema, table })) continue
+      fk.fromColumns.forEach((column, i) =>
+        references.set(column, `${fk.to.schema}.${fk.to.table}(${fk.toColumns[i]})`)
+      )
+    }
+
     // Format output
     const columns = columnsResult.recordset.map((col) => {
       let type = col.DATA_TYPE
@@ -456,8 +1551,15 @@ export class SqlServerMcpServer {
       const attributes = []
       if (col.IS_NULLABLE === 'NO') attributes.push('NOT NULL')
       if (col.IS_PRIMARY_KEY === 'YES') attributes.push('PRIMARY KEY')
-      if (col.IS_FOREIGN_KEY === 'YES') attributes.push('FOREIGN KEY')
+      if (col.IS_FOREIGN_KEY === 'YES') {
+        const target = references.get(col.COLUMN_NAME)
+        attributes.push(target ? `FOREIGN KEY -> ${target}` : 'FOREIGN KEY')
+      }
       if (col.COLUMN_DEFAULT) attributes.push(`DEFAULT ${col.COLUMN_DEFAULT}`)
+      const mask = resolveMasks(maskingRules, [
+        { name: col.COLUMN_NAME, type: col.DATA_TYPE, schema, table, column: col.COLUMN_NAME },
+      ]).get(col.COLUMN_NAME)
+      if (mask) attributes.push(`MASKED (${mask.action})`)
 
       return `- ${col.COLUMN_NAME}: ${type} ${attributes.join(' ')}`
     })
@@ -472,112 +1574,492 @@ export class SqlServerMcpServer {
           type: 'text',
           text: `Table: ${schema}.${table}\n\nColumns:\n${columns.join('\n')}${
             indexes.length > 0 ? `\n\nIndexes:\n${indexes.join('\n')}` : ''
-          }`,
+          }${foreignKeys.length > 0 ? `\n\nRelationships:\n${formatForeignKeys(foreignKeys).join('\n')}` : ''}`,
         },
       ],
     }
   }
 
-  private async queryData(query: string, limit: number) {
-    const startTime = Date.now()
-    
+  private async queryData(
+    db: DatabaseConnection,
+    query: string,
+    limit: number,
+    format: ResultFormat = 'markdown',
+    call?: ToolCall,
+  ) {
     // Validate query
-    const normalizedQuery = query.trim().toUpperCase()
-    
-    if (!normalizedQuery.startsWith('SELECT') && !normalizedQuery.startsWith('WITH')) {
-      throw new Error('Only SELECT queries (including CTEs) are allowed')
+    const statement = validateReadOnlyQuery(query)
+
+    const pageSize = Math.min(limit, this.queryLimit)
+    if (applyPagination(query, statement, 0, pageSize + 1)) {
+      return await this.fetchPage(db, { connection: db.name, query, offset: 0, pageSize }, format, call)
     }
 
-    // Security checks
-    const dangerousKeywords = [
-      'INSERT', 'UPDATE', 'DELETE', 'DROP', 'CREATE', 'ALTER', 'TRUNCATE',
-      'EXEC', 'EXECUTE', 'SP_', 'XP_', 'GRANT', 'REVOKE', 'DENY',
-      'BACKUP', 'RESTORE', 'BULK', 'OPENROWSET', 'OPENQUERY'
-    ]
-    
-    for (const keyword of dangerousKeywords) {
-      if (normalizedQuery.includes(keyword)) {
-        throw new Error(`Query contains forbidden keyword: ${keyword}`)
-      }
+    // The query limits its own rows, so it is run as a single page
+    const limitedQuery = applyRowLimit(query, statement, pageSize)
+    call?.recordStatement(limitedQuery)
+
+    try {
+      const result = await this.readOnlyQuery(db, limitedQuery, call)
+      call?.recordStatement(limitedQuery, result.recordset.length)
+
+      const data = await this.maskResult(db, limitedQuery, buildQueryResult(result.recordset, pageSize), call)
+      return formatQueryResult(data, format)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(`Query execution failed: ${errorMessage}`)
     }
+  }
 
-    // Apply row limit
-    const effectiveLimit = Math.min(limit, this.queryLimit)
-    let limitedQuery = query
+  // Throws unless write mode is on for the connection and the table is in
+  // its allowlist. A saved connection's allowlist is read from the store
+  // again, so changes made in the dashboard apply to an open connection.
+  private async checkWritable(db: DatabaseConnection, schema: string, table: string): Promise<void> {
+    if (db.savedConnectionId && this.connectionStore) {
+      const saved = await this.connectionStore.findConnection(this.userId, db.savedConnectionId)
+      db.writableTables = saved ? saved.writableTables : []
+    }
 
-    // Add TOP clause if not present
-    if (!normalizedQuery.includes('TOP') && !normalizedQuery.includes('OFFSET')) {
-      if (normalizedQuery.startsWith('WITH')) {
-        // For CTEs, add TOP after the final SELECT
-        const lastSelectIndex = limitedQuery.toUpperCase().lastIndexOf('SELECT')
-        limitedQuery = 
-          limitedQuery.substring(0, lastSelectIndex) + 
-          `SELECT TOP ${effectiveLimit} ` + 
-          limitedQuery.substring(lastSelectIndex + 6)
-      } else {
-        limitedQuery = query.replace(/SELECT/i, `SELECT TOP ${effectiveLimit}`)
-      }
+    if (db.writableTables.length === 0) {
+      throw new Error(`Write mode is off for connection '${db.name}'. Turn it on and allow tables in the dashboard.`)
+    }
+    if (!isTableWritable(db.writableTables, schema, table)) {
+      throw new Error(
+        `${schema}.${table} is not in the write allowlist of connection '${db.name}'. Writable tables: ${db.writableTables.join(', ')}`
+      )
+    }
+  }
+
+  // Runs a write in a dry run and returns its preview with a confirmation
+  // token. Nothing is changed until commitWrite is called with the token.
+  private async previewWrite(db: DatabaseConnection, statement: string, call?: ToolCall) {
+    if (!statement) {
+      throw new Error('statement is required')
+    }
+    if (db.writableTables.length === 0) {
+      throw new Error(`Write mode is off for connection '${db.name}'. Turn it on and allow tables in the dashboard.`)
+    }
+
+    const dml = validateDmlStatement(statement)
+    const schema = dml.schema || 'dbo'
+    const tableName = `${schema}.${dml.table}`
+    await this.checkWritable(db, schema, dml.table)
+
+    const columnsResult = await this.request(db, call)
+      .input('schema', sql.NVarChar, schema)
+      .input('table', sql.NVarChar, dml.table).query`
+      SELECT c.name AS COLUMN_NAME, TYPE_NAME(c.system_type_id) AS DATA_TYPE
+      FROM sys.columns c
+      INNER JOIN sys.tables t ON c.object_id = t.object_id
+      INNER JOIN sys.schemas s ON t.schema_id = s.schema_id
+      WHERE s.name = @schema AND t.name = @table
+      ORDER BY c.column_id
+    `
+    if (columnsResult.recordset.length === 0) {
+      throw new Error(`Table '${tableName}' not found`)
     }
+    // text, ntext and image values cannot be read back through OUTPUT
+    const columns: { COLUMN_NAME: string; DATA_TYPE: string }[] = columnsResult.recordset.filter(
+      (col) => !['text', 'ntext', 'image'].includes(col.DATA_TYPE)
+    )
 
+    const audit = { statement, tableName, verb: dml.verb, phase: 'dry_run' as const }
+    let dryRun: { preview: WritePreview; text: string }
+    call?.recordStatement(statement)
     try {
-      const result = await this.sqlPool!.request().query(limitedQuery)
-      
-      this.logQuery(limitedQuery, Date.now() - startTime, result.recordset.length, true)
+      dryRun = await this.dryRunWrite(db, dml, statement, schema, columns, call)
+      call?.recordStatement(statement, dryRun.preview.rowCount)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      await this.recordWrite(db, { ...audit, rowCount: 0, success: false, error: errorMessage }).catch((auditError) =>
+        console.error(`[${this.userId}] Failed to audit write:`, auditError)
+      )
+      throw new Error(`Dry run failed: ${errorMessage}`)
+    }
 
-      if (result.recordset.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Query executed successfully but returned no results.',
-            },
-          ],
+    const { preview, text } = dryRun
+    await this.recordWrite(db, { ...audit, rowCount: preview.rowCount, success: true, error: null })
+    const pending = this.writeConfirmations.create({
+      connection: db.name,
+      statement,
+      text,
+      verb: dml.verb,
+      schema,
+      table: dml.table,
+      tableName,
+      rowCount: preview.rowCount,
+    })
+
+    return {
+      content: [{ type: 'text', text: formatWritePreview(preview, pending) }],
+      structuredContent: {
+        ...preview,
+        confirmationToken: pending.token,
+        expiresAt: new Date(pending.expiresAt).toISOString(),
+      },
+    }
+  }
+
+  // Runs the statement with an OUTPUT clause so the changed rows can be
+  // shown, then rolls it back
+  private async dryRunWrite(
+    db: DatabaseConnection,
+    dml: DmlStatement,
+    statement: string,
+    schema: string,
+    columns: { COLUMN_NAME: string; DATA_TYPE: string }[],
+    call?: ToolCall
+  ): Promise<{ preview: WritePreview; text: string }> {
+    const quote = (name: string) => `[${name.replace(/\]/g, ']]')}]`
+    const output: string[] = []
+    for (const { COLUMN_NAME: name } of columns) {
+      if (dml.verb !== 'INSERT') output.push(`deleted.${quote(name)} AS ${quote(`before.${name}`)}`)
+      if (dml.verb !== 'DELETE') output.push(`inserted.${quote(name)} AS ${quote(`after.${name}`)}`)
+    }
+
+    const preview: WritePreview = {
+      verb: dml.verb,
+      tableName: `${schema}.${dml.table}`,
+      rowCount: 0,
+      before: null,
+      after: null,
+    }
+
+    let text = output.length > 0 ? applyOutputClause(statement, dml, output.join(', ')) : statement
+    let result: { recordset: any[]; rowCount: number }
+    try {
+      result = await this.runWrite(db, text, call)
+    } catch (error) {
+      // Error 334: OUTPUT without INTO is not allowed on a table with
+      // enabled triggers
+      if ((error as { number?: number })?.number !== 334) throw error
+      text = statement
+      result = await this.runWrite(db, text, call)
+      preview.sampleNote = 'the table has enabled triggers, so changed rows cannot be read back'
+    }
+    preview.rowCount = result.rowCount
+
+    if (result.recordset.length > 0) {
+      const masks = resolveMasks(
+        await this.maskingRules(db),
+        columns.map((col) => ({
+          name: col.COLUMN_NAME,
+          type: col.DATA_TYPE,
+          schema,
+          table: dml.table,
+          column: col.COLUMN_NAME,
+        }))
+      )
+      const sample = result.recordset.slice(0, WRITE_SAMPLE_ROWS)
+      const build = (prefix: string): QueryResultData => {
+        const rows = sample.map((row) => {
+          const values: Record<string, ResultValue> = {}
+          for (const col of columns) {
+            values[col.COLUMN_NAME] = toResultValue(row[`${prefix}.${col.COLUMN_NAME}`])
+          }
+          return values
+        })
+        const data: QueryResultData = {
+          columns: columns.map((col) => ({ name: col.COLUMN_NAME, type: col.DATA_TYPE, nullable: true })),
+          rows,
+          rowCount: rows.length,
+          limit: WRITE_SAMPLE_ROWS,
+          truncated: result.rowCount > rows.length,
         }
+        return applyMasks(data, masks, this.maskingKey(db))
       }
+      if (dml.verb !== 'INSERT') preview.before = build('before')
+      if (dml.verb !== 'DELETE') preview.after = build('after')
+    }
 
-      // Format as markdown table for better readability
-      const columns = Object.keys(result.recordset[0])
-      const rows = result.recordset.map((row) =>
-        columns.map((col) => {
-          const value = row[col]
-          if (value === null) return 'NULL'
-          if (value instanceof Date) return value.toISOString()
-          if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
-          return String(value).replace(/\|/g, '\\|') // Escape pipes for markdown
-        })
-      )
+    return { preview, text }
+  }
+
+  // Commits a previewed write, provided it still affects the number of rows
+  // the preview showed
+  private async commitWrite(token: string, call?: ToolCall) {
+    const pending = this.writeConfirmations.take(token)
+    const db = this.connection(pending.connection)
+    // Write mode or the allowlist may have changed since the preview
+    await this.checkWritable(db, pending.schema, pending.table)
+    const audit = { statement: pending.statement, tableName: pending.tableName, verb: pending.verb, phase: 'commit' as const }
 
-      // Create markdown table
-      const header = `| ${columns.join(' | ')} |`
-      const separator = `| ${columns.map(() => '---').join(' | ')} |`
-      const dataRows = rows.map(row => `| ${row.join(' | ')} |`)
-
-      const table = [
-        header,
-        separator,
-        ...dataRows,
-        '',
-        `*${result.recordset.length} rows returned${
-          result.recordset.length === effectiveLimit ? ' (limit reached)' : ''
-        }*`,
-      ].join('\n')
+    call?.recordStatement(pending.statement)
+    try {
+      const { rowCount } = await this.runWrite(db, pending.text, call, async (rowCount) => {
+        if (rowCount !== pending.rowCount) {
+          throw new Error(
+            `The statement now affects ${rowCount} rows instead of the ${pending.rowCount} previewed, so it was ` +
+              'rolled back. Run it again for a new preview.'
+          )
+        }
+        // Audited before the commit, so no committed write goes unlogged
+        await this.recordWrite(db, { ...audit, rowCount, success: true, error: null })
+      })
+      call?.recordStatement(pending.statement, rowCount)
+      // Cached results may show rows as they were before the write
+      this.resultCache.clear(db.name)
 
       return {
         content: [
           {
             type: 'text',
-            text: table,
+            text: `Committed: the ${pending.verb} affected ${rowCount} row${rowCount === 1 ? '' : 's'} in ${pending.tableName}.`,
           },
         ],
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      this.logQuery(limitedQuery, Date.now() - startTime, 0, false, errorMessage)
+      await this.recordWrite(db, { ...audit, rowCount: 0, success: false, error: errorMessage }).catch((auditError) =>
+        console.error(`[${this.userId}] Failed to audit write:`, auditError)
+      )
+      throw new Error(`Write failed: ${errorMessage}`)
+    }
+  }
+
+  // Runs a write in a transaction. It is committed only when beforeCommit is
+  // given and accepts the affected row count; otherwise, or when anything
+  // fails, it is rolled back.
+  private async runWrite(
+    db: DatabaseConnection,
+    text: string,
+    call?: ToolCall,
+    beforeCommit?: (rowCount: number) => Promise<void>
+  ): Promise<{ recordset: any[]; rowCount: number }> {
+    const transaction = new sql.Transaction(db.pool)
+    await transaction.begin()
+    try {
+      const request = new sql.Request(transaction)
+      const result = await (call ? call.track(request) : request).query(text)
+      // With OUTPUT, the returned rows are exactly the changed rows;
+      // rowsAffected may also count rows changed by triggers
+      const rowCount = result.recordset ? result.recordset.length : result.rowsAffected[0] || 0
+
+      if (beforeCommit) {
+        await beforeCommit(rowCount)
+        await transaction.commit()
+      } else {
+        await transaction.rollback()
+      }
+      return { recordset: result.recordset || [], rowCount }
+    } catch (error) {
+      await transaction.rollback().catch(() => undefined)
+      throw error
+    }
+  }
+
+  private async recordWrite(
+    db: DatabaseConnection,
+    entry: Omit<WriteAuditEntry, 'userId' | 'apiKeyId' | 'connectionId' | 'connectionName' | 'createdAt'>
+  ): Promise<void> {
+    console.log(`[${this.userId}] Write ${entry.phase}:`, {
+      table: entry.tableName,
+      verb: entry.verb,
+      rowCount: entry.rowCount,
+      success: entry.success,
+      error: entry.error,
+    })
+
+    await this.writeAuditStore?.record({
+      ...entry,
+      userId: this.userId,
+      apiKeyId: this.apiKeyId,
+      connectionId: db.savedConnectionId,
+      connectionName: db.name,
+      createdAt: new Date(),
+    })
+  }
+
+  private maskingKey(db: DatabaseConnection): string {
+    return `${this.userId}:${db.savedConnectionId || db.name}`
+  }
+
+  private async maskingRules(db: DatabaseConnection): Promise<MaskingRule[]> {
+    return this.maskingStore ? await this.maskingStore.getRules(this.userId, db.savedConnectionId) : []
+  }
+
+  // Applies the connection's masking rules to a page of results. Result
+  // columns are traced to the table columns they read, so an alias does not
+  // get around a rule and schema.table.column rules can be matched.
+  private async maskResult(
+    db: DatabaseConnection,
+    query: string,
+    data: QueryResultData,
+    call?: ToolCall
+  ): Promise<QueryResultData> {
+    const rules = await this.maskingRules(db)
+    if (rules.length === 0) return data
+
+    const described = await this.describeResult(rules, () =>
+      this.request(db, call).input('tsql', sql.NVarChar, query).query`
+        SELECT source_schema AS SOURCE_SCHEMA, source_table AS SOURCE_TABLE, source_column AS SOURCE_COLUMN
+        FROM sys.dm_exec_describe_first_result_set(@tsql, NULL, 1)
+        WHERE is_hidden = 0
+        ORDER BY column_ordinal
+      `
+    )
+    const sources = resultColumnSources(data, described)
+    const reads = await this.resultReads(db, rules, [sources], { names: queryIdentifiers(query) }, call)
+    return applyMasks(data, resolveMasks(rules, sources, reads), this.maskingKey(db))
+  }
+
+  // Masks the result sets of a stored procedure. SQL Server describes only
+  // the first one, so columns of later result sets are matched by name and
+  // type alone.
+  private async maskProcedureResults(
+    db: DatabaseConnection,
+    procedure: ProcedureName,
+    resultSets: QueryResultData[],
+    call?: ToolCall
+  ): Promise<QueryResultData[]> {
+    const rules = await this.maskingRules(db)
+    if (rules.length === 0 || resultSets.length === 0) return resultSets
+
+    const described = await this.describeResult(rules, () =>
+      this.request(db, call).input('procedure', sql.NVarChar, quoteProcedureName(procedure)).query`
+        SELECT source_schema AS SOURCE_SCHEMA, source_table AS SOURCE_TABLE, source_column AS SOURCE_COLUMN
+        FROM sys.dm_exec_describe_first_result_set_for_object(OBJECT_ID(@procedure), 1)
+        WHERE is_hidden = 0
+        ORDER BY column_ordinal
+      `
+    )
+    const sources = resultSets.map((data, index) => resultColumnSources(data, index === 0 ? described : []))
+    const reads = await this.resultReads(db, rules, sources, { procedure }, call)
+    return resultSets.map((data, index) =>
+      applyMasks(data, resolveMasks(rules, sources[index], reads), this.maskingKey(db))
+    )
+  }
+
+  // What a result with untraced columns may read: the tables its traced
+  // columns come from, and the tables read by the views, functions and
+  // synonyms the query names or by the procedure, following their
+  // dependencies. Undefined when no column rule needs it.
+  private async resultReads(
+    db: DatabaseConnection,
+    rules: MaskingRule[],
+    sources: ResultColumnSource[][],
+    from: { names?: string[]; procedure?: ProcedureName },
+    call?: ToolCall
+  ): Promise<ResultReads | undefined> {
+    if (!rules.some((rule) => rule.matchType === 'column') || !sources.some(hasUntracedColumns)) {
+      return undefined
+    }
+
+    const names = from.names || []
+    const traced = sources
+      .flat()
+      .filter((source) => source.table)
+      .map((source) => ({ schema: source.schema || null, table: source.table as string }))
+    const procedure = from.procedure ? quoteProcedureName(from.procedure) : null
+
+    try {
+      if (procedure) {
+        const definition = await this.request(db, call).input('procedure', sql.NVarChar, procedure).query`
+          SELECT OBJECT_DEFINITION(OBJECT_ID(@procedure)) AS DEFINITION
+        `
+        if (runsDynamicSql(definition.recordset[0]?.DEFINITION ?? null)) {
+          return { tables: traced, names, unknown: true }
+        }
+      }
+
+      const result = await this.request(db, call)
+        .input('names', sql.NVarChar, JSON.stringify(names))
+        .input('procedure', sql.NVarChar, procedure).query`
+        WITH deps AS (
+          SELECT d.referenced_id AS OBJECT_ID, 1 AS LEVEL
+          FROM sys.sql_expression_dependencies d
+          INNER JOIN sys.objects o ON d.referencing_id = o.object_id
+          WHERE (o.type IN ('V', 'IF', 'TF', 'FN') AND o.name IN (SELECT value FROM OPENJSON(@names)))
+            OR o.object_id = OBJECT_ID(@procedure)
+          UNION ALL
+          SELECT d.referenced_id, deps.LEVEL + 1
+          FROM deps
+          INNER JOIN sys.sql_expression_dependencies d ON d.referencing_id = deps.OBJECT_ID
+          WHERE deps.LEVEL < 8
+        )
+        SELECT DISTINCT s.name AS SCHEMA_NAME, o.name AS TABLE_NAME
+        FROM deps
+        INNER JOIN sys.objects o ON deps.OBJECT_ID = o.object_id
+        INNER JOIN sys.schemas s ON o.schema_id = s.schema_id
+        WHERE o.type = 'U'
+        UNION
+        SELECT PARSENAME(sn.base_object_name, 2), PARSENAME(sn.base_object_name, 1)
+        FROM sys.synonyms sn
+        WHERE sn.name IN (SELECT value FROM OPENJSON(@names))
+      `
+      const tables = result.recordset.map((row: { SCHEMA_NAME: string | null; TABLE_NAME: string }) => ({
+        schema: row.SCHEMA_NAME,
+        table: row.TABLE_NAME,
+      }))
+      return { tables: [...traced, ...tables], names }
+    } catch (error) {
+      // Without the dependencies, every masked table may be read
+      console.error(`[${this.userId}] Failed to read result dependencies for masking:`, error)
+      return { tables: traced, names, unknown: true }
+    }
+  }
+
+  // The source of each result column, read with describe
+  private async describeResult(
+    rules: MaskingRule[],
+    describe: () => Promise<sql.IResult<DescribedColumn>>
+  ): Promise<DescribedColumn[]> {
+    try {
+      return (await describe()).recordset
+    } catch (error) {
+      // Name and type rules still work on the result columns, but column
+      // rules cannot be checked, so the result is withheld
+      if (rules.some((rule) => rule.matchType === 'column')) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        throw new Error(`Masking rules could not be checked because the result columns could not be traced: ${message}`)
+      }
+      return []
+    }
+  }
+
+  private async nextPage(cursor: string, format: ResultFormat, call?: ToolCall) {
+    if (!cursor) {
+      throw new Error('cursor is required')
+    }
+    const page = this.cursors.get(cursor)
+    return await this.fetchPage(this.connection(page.connection), page, format, call)
+  }
+
+  // Runs one page of a query with OFFSET/FETCH, fetching a row past the page
+  // to find out whether another page exists.
+  private async fetchPage(db: DatabaseConnection, page: QueryCursor, format: ResultFormat, call?: ToolCall) {
+    const paged = applyPagination(page.query, validateReadOnlyQuery(page.query), page.offset, page.pageSize + 1)!
+    call?.recordStatement(paged.text)
+
+    try {
+      const result = await this.readOnlyQuery(db, paged.text, call)
+      call?.recordStatement(paged.text, Math.min(result.recordset.length, page.pageSize))
+
+      const nextCursor =
+        result.recordset.length > page.pageSize
+          ? this.cursors.create({ ...page, offset: page.offset + page.pageSize })
+          : undefined
+
+      const data = await this.maskResult(
+        db,
+        paged.text,
+        buildQueryResult(result.recordset, page.pageSize, { offset: page.offset, nextCursor }),
+        call
+      )
+      return formatQueryResult(data, format)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       throw new Error(`Query execution failed: ${errorMessage}`)
     }
   }
 
-  private async getTableSample(tableName: string, sampleSize: number) {
+  private async getTableSample(
+    db: DatabaseConnection,
+    tableName: string,
+    sampleSize: number,
+    format: ResultFormat = 'markdown',
+    call?: ToolCall
+  ) {
     // Validate table name
     const parts = tableName.split('.')
     const schema = parts.length > 1 ? parts[0] : 'dbo'
@@ -587,12 +2069,289 @@ export class SqlServerMcpServer {
       throw new Error('Invalid table name')
     }
 
-    const query = `SELECT TOP ${Math.min(sampleSize, 100)} * FROM [${schema}].[${table}] ORDER BY NEWID()`
-    return await this.queryData(query, sampleSize)
+    // A seeded hash of each row gives a random order that stays the same
+    // from page to page, unlike ORDER BY NEWID()
+    const seed = crypto.randomBytes(8).toString('hex')
+    const query = `SELECT * FROM [${schema}].[${table}] ORDER BY HASHBYTES('SHA2_256', CONCAT('${seed}', BINARY_CHECKSUM(*)))`
+    return await this.queryData(db, query, Math.min(sampleSize, 100), format, call)
+  }
+
+  private async profileTable(
+    db: DatabaseConnection,
+    tableName: string,
+    sampleSize: number,
+    topN: number,
+    call?: ToolCall,
+  ) {
+    const parts = tableName.split('.')
+    const schema = parts.length > 1 ? parts[0] : 'dbo'
+    const table = parts.length > 1 ? parts[1] : parts[0]
+
+    if (!/^[a-zA-Z0-9_]+$/.test(schema) || !/^[a-zA-Z0-9_]+$/.test(table)) {
+      throw new Error('Invalid table name')
+    }
+
+    const limit = Math.max(1, Math.min(Math.floor(sampleSize), MAX_PROFILE_SAMPLE))
+    const options = {
+      topN: Math.max(1, Math.min(Math.floor(topN), MAX_PROFILE_TOP_N)),
+      histogramBins: 10,
+    }
+
+    // modify_date moves with schema changes; the partition row count stands in
+    // for data changes without scanning the table
+    const statsResult = await this.request(db, call)
+      .input('schema', sql.NVarChar, schema)
+      .input('table', sql.NVarChar, table).query`
+      SELECT t.modify_date AS MODIFY_DATE, SUM(p.rows) AS ROW_COUNT
+      FROM sys.tables t
+      INNER JOIN sys.schemas s ON t.schema_id = s.schema_id
+      INNER JOIN sys.partitions p ON t.object_id = p.object_id AND p.index_id IN (0, 1)
+      WHERE s.name = @schema AND t.name = @table
+      GROUP BY t.modify_date
+    `
+
+    if (statsResult.recordset.length === 0) {
+      throw new Error(`Table '${tableName}' not found`)
+    }
+    const rowCount = Number(statsResult.recordset[0].ROW_COUNT)
+    // A changed masking rule makes cached profiles stale too
+    const rules = await this.maskingRules(db)
+    const signature = TableProfileCache.signature(statsResult.recordset[0].MODIFY_DATE, rowCount, {
+      limit,
+      ...options,
+      masking: rules.map((rule) => [rule.matchType, rule.pattern, rule.action]),
+    })
+
+    let profile = db.profileCache.get(schema, table, signature)
+    const cached = profile !== null
+
+    if (!profile) {
+      let sample = buildSampleQuery(schema, table, rowCount, limit)
+      let result = await this.request(db, call).query(sample.query)
+
+      // TABLESAMPLE can come back empty when the table's pages are sparse;
+      // fall back to a plain TOP sample
+      if (sample.method === 'tablesample' && result.recordset.length === 0) {
+        sample = buildSampleQuery(schema, table, limit + 1, limit)
+        result = await this.request(db, call).query(sample.query)
+      }
+      call?.recordStatement(sample.query, result.recordset.length)
+
+      // Masked columns are profiled from their masked values and dropped ones
+      // not at all, so top values and min/max do not reveal them
+      const sampled = await this.maskResult(
+        db,
+        sample.query,
+        {
+          columns: describeColumns(result.recordset),
+          rows: result.recordset,
+          rowCount: result.recordset.length,
+          limit,
+          truncated: false,
+        },
+        call
+      )
+
+      profile = {
+        schema,
+        table,
+        rowCount,
+        sampledRows: result.recordset.length,
+        sampleMethod: sample.method,
+        columns: profileRows(sampled.columns, sampled.rows, options),
+      } as TableProfile
+      db.profileCache.set(schema, table, signature, profile)
+    }
+
+    const note = cached ? '\n\n*Cached profile: the table has not changed since it was last profiled.*' : ''
+    return {
+      content: [{ type: 'text', text: formatTableProfile(profile) + note }],
+      structuredContent: profile as unknown as Record<string, unknown>,
+    }
+  }
+
+  // A request on the connection pool, cancelled along with the tool call
+  private request(db: DatabaseConnection, call?: ToolCall, pool: sql.ConnectionPool = db.pool): sql.Request {
+    const request = pool.request()
+    return call ? call.track(request) : request
+  }
+
+  // Runs a validated SELECT in a transaction that is always rolled back, so
+  // anything the validator missed cannot be committed
+  private async readOnlyQuery(db: DatabaseConnection, text: string, call?: ToolCall) {
+    const transaction = new sql.Transaction(db.pool)
+    await transaction.begin()
+    try {
+      const request = new sql.Request(transaction)
+      return await (call ? call.track(request) : request).query(text)
+    } finally {
+      // A failed query may already have ended the transaction
+      await transaction.rollback().catch(() => undefined)
+    }
+  }
+
+  private async listResources(db: DatabaseConnection, cursor?: string, call?: ToolCall) {
+    const offset = cursor ? parseInt(cursor, 10) || 0 : 0
+
+    const result = await this.request(db, call)
+      .input('offset', sql.Int, offset)
+      .input('pageSize', sql.Int, RESOURCE_PAGE_SIZE + 1).query`
+      SELECT 
+        s.name AS SCHEMA_NAME,
+        o.name AS OBJECT_NAME,
+        RTRIM(o.type) AS OBJECT_TYPE
+      FROM sys.objects o
+      INNER JOIN sys.schemas s ON o.schema_id = s.schema_id
+      WHERE o.type IN ('U', 'V', 'P', 'FN', 'IF', 'TF')
+        AND o.is_ms_shipped = 0
+      ORDER BY s.name, o.name
+      OFFSET @offset ROWS FETCH NEXT @pageSize ROWS ONLY
+    `
+
+    const rows = result.recordset.slice(0, RESOURCE_PAGE_SIZE)
+    const hasMore = result.recordset.length > RESOURCE_PAGE_SIZE
+
+    return {
+      resources: rows.map((row) => ({
+        uri: buildResourceUri({
+          connection: db.name,
+          schema: row.SCHEMA_NAME,
+          object: row.OBJECT_NAME,
+        }),
+        name: `${row.SCHEMA_NAME}.${row.OBJECT_NAME}`,
+        description: RESOURCE_OBJECT_TYPES[row.OBJECT_TYPE],
+        mimeType: 'text/markdown',
+      })),
+      ...(hasMore ? { nextCursor: String(offset + RESOURCE_PAGE_SIZE) } : {}),
+    }
+  }
+
+  private async readResource(db: DatabaseConnection, uri: string, address: ResourceAddress, call?: ToolCall) {
+    const objectResult = await this.request(db, call)
+      .input('schema', sql.NVarChar, address.schema)
+      .input('object', sql.NVarChar, address.object).query`
+      SELECT 
+        o.object_id AS OBJECT_ID,
+        RTRIM(o.type) AS OBJECT_TYPE,
+        OBJECT_DEFINITION(o.object_id) AS DEFINITION
+      FROM sys.objects o
+      INNER JOIN sys.schemas s ON o.schema_id = s.schema_id
+      WHERE s.name = @schema AND o.name = @object
+        AND o.type IN ('U', 'V', 'P', 'FN', 'IF', 'TF')
+    `
+
+    if (objectResult.recordset.length === 0) {
+      throw new Error(`Object '${address.schema}.${address.object}' not found`)
+    }
+
+    const { OBJECT_ID: objectId, OBJECT_TYPE: objectType, DEFINITION: definition } =
+      objectResult.recordset[0]
+    const sections = [`# ${RESOURCE_OBJECT_TYPES[objectType]}: ${address.schema}.${address.object}`]
+
+    let ddl: string | null = definition
+    if (['U', 'V', 'IF', 'TF'].includes(objectType)) {
+      const columns = await this.getObjectColumns(db, objectId, call)
+      sections.push(`## Columns\n${formatColumnDefinitions(columns).join('\n')}`)
+      if (objectType === 'U') {
+        ddl = buildTableDdl(address.schema, address.object, columns)
+      }
+    }
+    if (['P', 'FN', 'IF', 'TF'].includes(objectType)) {
+      const parameters = await this.getObjectParameters(db, objectId, call)
+      sections.push(
+        `## Parameters\n${
+          parameters.length > 0 ? formatParameterDefinitions(parameters).join('\n') : '(none)'
+        }`
+      )
+    }
+
+    sections.push(
+      `## DDL\n\`\`\`sql\n${ddl ?? '-- Definition is encrypted or not visible to this login'}\n\`\`\``
+    )
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/markdown',
+          text: sections.join('\n\n'),
+        },
+      ],
+    }
+  }
+
+  private async getObjectColumns(db: DatabaseConnection, objectId: number, call?: ToolCall): Promise<ColumnDefinition[]> {
+    const result = await this.request(db, call)
+      .input('objectId', sql.Int, objectId).query`
+      SELECT 
+        c.name AS COLUMN_NAME,
+        t.name AS TYPE_NAME,
+        c.max_length AS MAX_LENGTH,
+        c.precision AS PRECISION,
+        c.scale AS SCALE,
+        c.is_nullable AS IS_NULLABLE,
+        c.is_identity AS IS_IDENTITY,
+        c.is_computed AS IS_COMPUTED,
+        dc.definition AS DEFAULT_DEFINITION,
+        cc.definition AS COMPUTED_DEFINITION,
+        CASE WHEN pk.column_id IS NOT NULL THEN 1 ELSE 0 END AS IS_PRIMARY_KEY
+      FROM sys.columns c
+      INNER JOIN sys.types t ON c.user_type_id = t.user_type_id
+      LEFT JOIN sys.default_constraints dc ON c.default_object_id = dc.object_id
+      LEFT JOIN sys.computed_columns cc ON c.object_id = cc.object_id AND c.column_id = cc.column_id
+      LEFT JOIN (
+        SELECT ic.object_id, ic.column_id
+        FROM sys.indexes i
+        INNER JOIN sys.index_columns ic ON i.object_id = ic.object_id AND i.index_id = ic.index_id
+        WHERE i.is_primary_key = 1
+      ) pk ON c.object_id = pk.object_id AND c.column_id = pk.column_id
+      WHERE c.object_id = @objectId
+      ORDER BY c.column_id
+    `
+
+    return result.recordset.map((row) => ({
+      name: row.COLUMN_NAME,
+      dataType: formatDataType(row.TYPE_NAME, row.MAX_LENGTH, row.PRECISION, row.SCALE),
+      isNullable: row.IS_NULLABLE,
+      isIdentity: row.IS_IDENTITY,
+      isComputed: row.IS_COMPUTED,
+      defaultDefinition: row.DEFAULT_DEFINITION,
+      computedDefinition: row.COMPUTED_DEFINITION,
+      isPrimaryKey: row.IS_PRIMARY_KEY === 1,
+    }))
+  }
+
+  private async getObjectParameters(
+    db: DatabaseConnection,
+    objectId: number,
+    call?: ToolCall
+  ): Promise<ParameterDefinition[]> {
+    const result = await this.request(db, call)
+      .input('objectId', sql.Int, objectId).query`
+      SELECT 
+        p.name AS PARAMETER_NAME,
+        t.name AS TYPE_NAME,
+        p.max_length AS MAX_LENGTH,
+        p.precision AS PRECISION,
+        p.scale AS SCALE,
+        p.is_output AS IS_OUTPUT,
+        p.has_default_value AS HAS_DEFAULT
+      FROM sys.parameters p
+      INNER JOIN sys.types t ON p.user_type_id = t.user_type_id
+      WHERE p.object_id = @objectId AND p.parameter_id > 0
+      ORDER BY p.parameter_id
+    `
+
+    return result.recordset.map((row) => ({
+      name: row.PARAMETER_NAME,
+      dataType: formatDataType(row.TYPE_NAME, row.MAX_LENGTH, row.PRECISION, row.SCALE),
+      isOutput: row.IS_OUTPUT,
+      hasDefault: row.HAS_DEFAULT,
+    }))
   }
 
-  private async getDatabaseInfo() {
-    const result = await this.sqlPool!.request().query`
+  private async getDatabaseInfo(db: DatabaseConnection, call?: ToolCall) {
+    const result = await this.request(db, call).query`
       SELECT 
         DB_NAME() as DatabaseName,
         @@VERSION as ServerVersion,
@@ -623,28 +2382,61 @@ Object Counts:
 - Functions: ${info.FunctionCount}
 
 Server Version:
-${info.ServerVersion}`,
+${info.ServerVersion}${db.permissions ? `\n\n${formatPermissionReport(db.permissions)}` : ''}`,
+        },
+      ],
+    }
+  }
+
+  private async testConnection(db: DatabaseConnection, call?: ToolCall) {
+    const result = await this.request(db, call).query`SELECT @@VERSION as version`
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Connection successful!\n\nServer: ${db.config.server}\nDatabase: ${db.config.database}\nVersion: ${result.recordset[0].version}`,
         },
       ],
     }
   }
 
-  private async analyzeQuery(query: string) {
+  private async analyzeQuery(db: DatabaseConnection, query: string, call?: ToolCall) {
+    // A batch that fails to compile, or that turns SHOWPLAN off, would run
+    // for real, so only what query_data accepts is analyzed
+    validateReadOnlyQuery(query)
+    call?.recordStatement(query)
+
+    // SHOWPLAN_XML is a session setting, so the SET and the query must run on
+    // the same connection. A dedicated single-connection pool guarantees that
+    // and keeps the setting from leaking into the shared pool. It comes from
+    // the pool manager like every other pool, so it counts against the caps.
+    let lease: PoolLease | null = null
     try {
-      // Get estimated execution plan
-      await this.sqlPool!.request().query`SET SHOWPLAN_XML ON`
-      const planResult = await this.sqlPool!.request().query(query)
-      await this.sqlPool!.request().query`SET SHOWPLAN_XML OFF`
+      lease = await this.poolManager.acquire(
+        this.userId,
+        `${db.savedConnectionId || `${db.config.server}/${db.config.database}`}:showplan`,
+        { ...db.sqlConfig, pool: { max: 1, min: 0, idleTimeoutMillis: 1000 } }
+      )
+      const planPool = lease.pool
+      await this.request(db, call, planPool).batch('SET SHOWPLAN_XML ON')
+      const planResult = await this.request(db, call, planPool).batch(query)
+
+      // Each statement's plan comes back as a single-column XML row
+      const recordsets = planResult.recordsets as sql.IRecordSet<any>[]
+      const planXml = recordsets.flatMap((recordset) =>
+        recordset.map((row) => String(Object.values(row)[0]))
+      )
+      const summary = parseShowplan(planXml)
 
-      // Extract key information from the plan
-      // This is simplified - real implementation would parse the XML
       return {
         content: [
           {
             type: 'text',
-            text: `Query analysis complete. The query is syntactically valid and can be executed.
-            
-Note: For detailed execution plan analysis, consider using SQL Server Management Studio or Azure Data Studio.`,
+            text: formatPlanSummary(summary),
+          },
+          {
+            type: 'text',
+            text: JSON.stringify(summary, null, 2),
           },
         ],
       }
@@ -658,25 +2450,28 @@ Note: For detailed execution plan analysis, consider using SQL Server Management
             }`,
           },
         ],
+        isError: true,
       }
+    } finally {
+      await lease?.release()
     }
   }
 
-  private logQuery(query: string, executionTime: number, rowCount: number, success: boolean, error?: string) {
-    const metric: QueryMetrics = {
+  private logQuery(
+    db: DatabaseConnection,
+    query: string,
+    executionTime: number,
+    rowCount: number,
+    success: boolean,
+    error?: string
+  ) {
+    this.pushMetric({
       query: query.substring(0, 200), // Truncate for storage
       executionTime,
       rowCount,
       success,
       error,
-    }
-    
-    this.queryMetrics.push(metric)
-    
-    // Keep only last 100 queries in memory
-    if (this.queryMetrics.length > 100) {
-      this.queryMetrics.shift()
-    }
+    })
 
     // Log to console for monitoring
     console.log(`[${this.userId}] Query executed:`, {
@@ -685,18 +2480,50 @@ Note: For detailed execution plan analysis, consider using SQL Server Management
       rowCount,
       error,
     })
+
+    this.queryHistory?.record({
+      userId: this.userId,
+      connectionId: db.savedConnectionId,
+      query,
+      rowCount,
+      executionMs: executionTime,
+      success,
+      error: error || null,
+      createdAt: new Date(),
+    })
   }
 
-  async disconnect(): Promise<void> {
-    if (this.sqlPool) {
-      await this.sqlPool.close()
-      this.sqlPool = null
+  private pushMetric(metric: QueryMetrics) {
+    this.queryMetrics.push(metric)
+
+    // Keep only last 100 queries in memory
+    if (this.queryMetrics.length > 100) {
+      this.queryMetrics.shift()
     }
   }
 
-  async start(): Promise<void> {
-    const transport = new StdioServerTransport()
+  async disconnect(): Promise<void> {
+    this.activeCalls.forEach((call) => call.cancel())
+    this.cursors.clear()
+    await Promise.all(this.connections.clear().map((db) => this.closeConnection(db)))
+    await this.queryHistory?.flush()
+  }
+
+  // Opens a connection the host has already resolved, as the simple profile
+  // does for the one database its endpoint serves
+  async openDatabase(config: SqlServerConfig, savedConnectionId: string | null = null): Promise<void> {
+    const name = config.name || config.database
+    await this.openConnection(name, config, savedConnectionId, this.allowedProcedures, this.writableTables)
+  }
+
+  // Binds this server to a transport. The HTTP server calls this once per
+  // session; start() uses it for stdio.
+  async connect(transport: Transport): Promise<void> {
     await this.server.connect(transport)
+  }
+
+  async start(): Promise<void> {
+    await this.connect(new StdioServerTransport())
     console.log(`SQL Server MCP Server started for user ${this.userId}`)
   }
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { vi, describe, it, expect, afterEach } from 'vitest'
+import { ToolCall, resolveTimeout } from './ToolCall'
+
+function fakeRequest() {
+  return { cancel: vi.fn() } as any
+}
+
+describe('ToolCall', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should cancel tracked requests when the MCP request is aborted', () => {
+    const controller = new AbortController()
+    const call = new ToolCall(7, 30000, controller.signal)
+    const request = call.track(fakeRequest())
+
+    controller.abort()
+
+    expect(request.cancel).toHaveBeenCalledTimes(1)
+    expect(call.cancellationError()?.message).toBe('Query was cancelled')
+    call.dispose()
+  })
+
+  it('should cancel tracked requests when the call times out', () => {
+    vi.useFakeTimers()
+    const call = new ToolCall(8, 5000)
+    const request = call.track(fakeRequest())
+
+    vi.advanceTimersByTime(5000)
+
+    expect(request.cancel).toHaveBeenCalledTimes(1)
+    expect(call.cancellationError()?.message).toBe('Query timed out after 5000ms')
+    call.dispose()
+  })
+
+  it('should tell whether the call sent anything to the database', () => {
+    const call = new ToolCall(9, 30000)
+    expect(call.executed).toBe(false)
+
+    call.track(fakeRequest())
+    call.recordStatement('SELECT TOP 100 * FROM Orders', 42)
+    call.dispose()
+
+    expect(call.executed).toBe(true)
+    expect(call.statement).toBe('SELECT TOP 100 * FROM Orders')
+    expect(call.rowCount).toBe(42)
+  })
+
+  it('should bound timeouts by the plan maximum', () => {
+    expect(resolveTimeout(undefined, 30000, 10000)).toBe(10000)
+    expect(resolveTimeout(120000, 30000, 60000)).toBe(60000)
+    expect(() => resolveTimeout(-1, 30000, 60000)).toThrow('timeoutMs must be a positive number')
+  })
+})
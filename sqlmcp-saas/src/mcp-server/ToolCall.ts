@@ -0,0 +1,104 @@
+// Ties SQL requests to the MCP tool call that started them.
+//
+// A call is cancelled when the client sends notifications/cancelled, the
+// session disconnects, or the call runs past its timeout. Each of these
+// cancels the call's in-flight mssql requests so the query stops on the
+// server too.
+
+import sql from 'mssql'
+
+export type CancelReason = 'cancelled' | 'timeout'
+
+export class QueryCancelledError extends Error {
+  reason: CancelReason
+
+  constructor(reason: CancelReason, timeoutMs: number) {
+    super(reason === 'timeout' ? `Query timed out after ${timeoutMs}ms` : 'Query was cancelled')
+    this.name = 'QueryCancelledError'
+    this.reason = reason
+  }
+}
+
+// Validates a timeoutMs tool argument and bounds it by the plan maximum
+export function resolveTimeout(requested: unknown, defaultMs: number, maxMs: number): number {
+  if (requested === undefined || requested === null) {
+    return Math.min(defaultMs, maxMs)
+  }
+  if (typeof requested !== 'number' || !Number.isFinite(requested) || requested <= 0) {
+    throw new Error('timeoutMs must be a positive number of milliseconds')
+  }
+  return Math.min(Math.floor(requested), maxMs)
+}
+
+export class ToolCall {
+  readonly requestId: string | number
+  readonly timeoutMs: number
+  private requests = new Set<sql.Request>()
+  private reason: CancelReason | null = null
+  private ranSql = false
+  private timer: NodeJS.Timeout
+  private signal?: AbortSignal
+  private onAbort = () => this.cancel('cancelled')
+
+  // signal is the SDK's per-request abort signal, which fires on
+  // notifications/cancelled and when the transport closes
+  constructor(requestId: string | number, timeoutMs: number, signal?: AbortSignal) {
+    this.requestId = requestId
+    this.timeoutMs = timeoutMs
+    this.timer = setTimeout(() => this.cancel('timeout'), timeoutMs)
+    this.signal = signal
+    if (signal?.aborted) {
+      this.reason = 'cancelled'
+    } else {
+      signal?.addEventListener('abort', this.onAbort, { once: true })
+    }
+  }
+
+  // What the query history records for the call: the statement it ran and
+  // the rows that came back. Calls that never name one are recorded by tool
+  // name and arguments.
+  statement: string | null = null
+  rowCount = 0
+
+  get cancelled(): boolean {
+    return this.reason !== null
+  }
+
+  // Whether the call sent anything to the database, as opposed to being
+  // rejected beforehand or answered from a cache
+  get executed(): boolean {
+    return this.ranSql
+  }
+
+  recordStatement(statement: string, rowCount = 0): void {
+    this.statement = statement
+    this.rowCount = rowCount
+  }
+
+  cancel(reason: CancelReason = 'cancelled'): void {
+    if (this.reason) return
+    this.reason = reason
+    this.requests.forEach((request) => request.cancel())
+  }
+
+  // Registers a request so that cancelling the call cancels it. A request
+  // made after the call was cancelled fails as soon as it runs.
+  track(request: sql.Request): sql.Request {
+    this.requests.add(request)
+    this.ranSql = true
+    if (this.reason) request.cancel()
+    return request
+  }
+
+  // The error to report in place of whatever the driver threw for a
+  // cancelled request
+  cancellationError(): QueryCancelledError | null {
+    return this.reason ? new QueryCancelledError(this.reason, this.timeoutMs) : null
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer)
+    this.signal?.removeEventListener('abort', this.onAbort)
+    this.requests.clear()
+  }
+}
@@ -0,0 +1,49 @@
+import { vi, describe, it, expect } from 'vitest'
+import { IncomingMessage } from 'http'
+import { generateApiKey } from '../services/apiKeyTokens'
+import { readApiKey, verifyApiKey, ApiKeyRecord, ApiKeyStore } from './apiKeyAuth'
+
+function store(keys: Record<string, ApiKeyRecord>): ApiKeyStore & { markUsed: ReturnType<typeof vi.fn> } {
+  return {
+    findByHash: async (hashedKey) => keys[hashedKey] || null,
+    markUsed: vi.fn(async () => undefined),
+  }
+}
+
+function key(overrides: Partial<ApiKeyRecord> = {}): ApiKeyRecord {
+  return { id: 'key-1', userId: 'user-1', name: 'Claude Desktop', isActive: true, expiresAt: null, ...overrides }
+}
+
+describe('API key authentication', () => {
+  it('should read the key from the Authorization or X-API-Key header', () => {
+    expect(readApiKey({ headers: { authorization: 'Bearer sqlmcp_abc' } } as IncomingMessage)).toBe('sqlmcp_abc')
+    expect(readApiKey({ headers: { 'x-api-key': ' sqlmcp_abc ' } } as unknown as IncomingMessage)).toBe('sqlmcp_abc')
+    expect(readApiKey({ headers: { authorization: 'Basic dXNlcg==' } } as IncomingMessage)).toBeNull()
+    expect(readApiKey({ headers: {} } as IncomingMessage)).toBeNull()
+  })
+
+  it('should accept an active key and record when it was used', async () => {
+    const { token, hashedKey } = generateApiKey()
+    const keys = store({ [hashedKey]: key() })
+    const now = new Date('2024-06-01T00:00:00Z')
+
+    await expect(verifyApiKey(keys, token, now)).resolves.toMatchObject({ userId: 'user-1' })
+    expect(keys.markUsed).toHaveBeenCalledWith('key-1', now)
+  })
+
+  it('should reject missing, unknown, revoked and expired keys', async () => {
+    const revoked = generateApiKey()
+    const expired = generateApiKey()
+    const keys = store({
+      [revoked.hashedKey]: key({ isActive: false }),
+      [expired.hashedKey]: key({ expiresAt: new Date('2024-01-01T00:00:00Z') }),
+    })
+    const now = new Date('2024-06-01T00:00:00Z')
+
+    await expect(verifyApiKey(keys, null, now)).rejects.toMatchObject({ reason: 'missing' })
+    await expect(verifyApiKey(keys, generateApiKey().token, now)).rejects.toMatchObject({ reason: 'invalid' })
+    await expect(verifyApiKey(keys, revoked.token, now)).rejects.toThrow("API key 'Claude Desktop' has been revoked")
+    await expect(verifyApiKey(keys, expired.token, now)).rejects.toThrow('expired on 2024-01-01T00:00:00.000Z')
+    expect(keys.markUsed).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,74 @@
+import { IncomingMessage } from 'http'
+import { hashApiKey, isApiKeyFormat } from '../services/apiKeyTokens'
+
+export type ApiKeyFailure = 'missing' | 'invalid' | 'revoked' | 'expired'
+
+// Raised when an MCP client cannot be authenticated. The message is sent to
+// the client as the handshake error, so it says what to fix.
+export class ApiKeyError extends Error {
+  reason: ApiKeyFailure
+
+  constructor(message: string, reason: ApiKeyFailure) {
+    super(message)
+    this.name = 'ApiKeyError'
+    this.reason = reason
+  }
+}
+
+export interface ApiKeyRecord {
+  id: string
+  userId: string
+  name: string
+  isActive: boolean
+  expiresAt: Date | null
+}
+
+export interface ApiKeyStore {
+  findByHash(hashedKey: string): Promise<ApiKeyRecord | null>
+  markUsed(id: string, usedAt: Date): Promise<void>
+}
+
+// Reads the token from "Authorization: Bearer <key>" or "X-API-Key: <key>"
+export function readApiKey(req: IncomingMessage): string | null {
+  const authorization = req.headers.authorization
+  if (authorization) {
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization.trim())
+    return match ? match[1] : null
+  }
+
+  const header = req.headers['x-api-key']
+  const value = Array.isArray(header) ? header[0] : header
+  return value ? value.trim() : null
+}
+
+export async function verifyApiKey(store: ApiKeyStore, token: string | null, now = new Date()): Promise<ApiKeyRecord> {
+  if (!token) {
+    throw new ApiKeyError('API key required. Send it as "Authorization: Bearer <key>".', 'missing')
+  }
+  if (!isApiKeyFormat(token)) {
+    throw new ApiKeyError('Invalid API key', 'invalid')
+  }
+
+  return checkApiKey(store, hashApiKey(token), now)
+}
+
+// Looks a key up by its hash and checks it is still active, as sessions do
+// again after the handshake to notice keys revoked or expired since
+export async function checkApiKey(store: ApiKeyStore, hashedKey: string, now = new Date()): Promise<ApiKeyRecord> {
+  const key = await store.findByHash(hashedKey)
+  if (!key) {
+    throw new ApiKeyError('Invalid API key', 'invalid')
+  }
+  if (!key.isActive) {
+    throw new ApiKeyError(`API key '${key.name}' has been revoked. Create a new key in the dashboard.`, 'revoked')
+  }
+  if (key.expiresAt && key.expiresAt.getTime() <= now.getTime()) {
+    throw new ApiKeyError(
+      `API key '${key.name}' expired on ${key.expiresAt.toISOString()}. Create a new key in the dashboard.`,
+      'expired'
+    )
+  }
+
+  await store.markUsed(key.id, now)
+  return key
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { WriteConfirmations, formatWritePreview, isTableWritable } from './dml'
+
+const write = {
+  connection: 'default',
+  statement: 'DELETE FROM dbo.Orders WHERE Id = 1',
+  text: 'DELETE FROM dbo.Orders OUTPUT deleted.[Id] AS [before.Id] WHERE Id = 1',
+  verb: 'DELETE' as const,
+  schema: 'dbo',
+  table: 'Orders',
+  tableName: 'dbo.Orders',
+  rowCount: 1,
+}
+
+describe('write mode', () => {
+  it('should match the allowlist by table or whole schema', () => {
+    expect(isTableWritable(['dbo.Orders'], 'DBO', 'orders')).toBe(true)
+    expect(isTableWritable(['sales.*'], 'sales', 'Invoices')).toBe(true)
+    expect(isTableWritable(['dbo.Orders', 'sales.*'], 'dbo', 'Customers')).toBe(false)
+  })
+
+  it('should accept each confirmation token once and only before it expires', () => {
+    const confirmations = new WriteConfirmations(60000)
+    const now = 1_000_000
+
+    const pending = confirmations.create(write, now)
+    expect(confirmations.take(pending.token, now + 1000)).toMatchObject({ tableName: 'dbo.Orders', rowCount: 1 })
+    expect(() => confirmations.take(pending.token, now + 1000)).toThrow('already used')
+
+    const expired = confirmations.create(write, now)
+    expect(() => confirmations.take(expired.token, now + 60000)).toThrow('expired')
+
+    const closed = confirmations.create(write, now)
+    confirmations.clear('default')
+    expect(() => confirmations.take(closed.token, now)).toThrow('Unknown')
+  })
+
+  it('should describe the dry run and how to commit it', () => {
+    const pending = new WriteConfirmations().create(write, 0)
+    const text = formatWritePreview(
+      {
+        verb: 'DELETE',
+        tableName: 'dbo.Orders',
+        rowCount: 1,
+        before: { columns: [{ name: 'Id', type: 'int', nullable: false }], rows: [{ Id: 1 }], rowCount: 1, limit: 5, truncated: false },
+        after: null,
+      },
+      pending,
+      0
+    )
+
+    expect(text).toContain('this DELETE would affect 1 row in dbo.Orders')
+    expect(text).toContain('Before:')
+    expect(text).not.toContain('After:')
+    expect(text).toContain(`confirmationToken "${pending.token}" within 5 minutes`)
+  })
+})
@@ -0,0 +1,141 @@
+// Write mode for execute_dml.
+//
+// A write is first run in a transaction that is rolled back, and the preview
+// of what it would change is returned with a confirmation token. Only a
+// second call with that token commits it, and only if it still affects the
+// same number of rows. Writes are limited to each connection's table
+// allowlist and every preview and commit is audited.
+
+import crypto from 'crypto'
+import { DmlVerb } from './queryValidator'
+import { QueryResultData, formatMarkdown } from './resultFormatter'
+
+export interface PendingWrite {
+  token: string
+  // Name of the session connection the preview ran on
+  connection: string
+  statement: string
+  // The statement as it is run, with the OUTPUT clause that counts its rows
+  text: string
+  verb: DmlVerb
+  schema: string
+  table: string
+  tableName: string
+  rowCount: number
+  expiresAt: number
+}
+
+export interface WritePreview {
+  verb: DmlVerb
+  tableName: string
+  rowCount: number
+  // Up to WRITE_SAMPLE_ROWS rows as they were and as they would be
+  before: QueryResultData | null
+  after: QueryResultData | null
+  // Why there are no samples, when there are none
+  sampleNote?: string
+}
+
+export type WritePhase = 'dry_run' | 'commit'
+
+export interface WriteAuditEntry {
+  userId: string
+  apiKeyId: string
+  connectionId: string | null
+  connectionName: string
+  statement: string
+  tableName: string
+  verb: DmlVerb
+  phase: WritePhase
+  rowCount: number
+  success: boolean
+  error: string | null
+  createdAt: Date
+}
+
+export interface WriteAuditStore {
+  record(entry: WriteAuditEntry): Promise<void>
+}
+
+export const WRITE_SAMPLE_ROWS = 5
+const DEFAULT_CONFIRMATION_TTL_MS = 5 * 60 * 1000
+
+// Allowlist entries are schema.table, or schema.* for a whole schema
+export function isTableWritable(writableTables: string[], schema: string, table: string): boolean {
+  const name = `${schema}.${table}`.toLowerCase()
+  return writableTables.some((entry) => {
+    const allowed = entry.trim().toLowerCase()
+    return allowed === name || allowed === `${schema.toLowerCase()}.*`
+  })
+}
+
+// Confirmation tokens of previewed writes, held per session. A token can be
+// used once, and only until it expires.
+export class WriteConfirmations {
+  private pending = new Map<string, PendingWrite>()
+  private ttlMs: number
+
+  constructor(ttlMs: number = DEFAULT_CONFIRMATION_TTL_MS) {
+    this.ttlMs = ttlMs
+  }
+
+  create(write: Omit<PendingWrite, 'token' | 'expiresAt'>, now = Date.now()): PendingWrite {
+    this.prune(now)
+    const pending = { ...write, token: crypto.randomBytes(16).toString('hex'), expiresAt: now + this.ttlMs }
+    this.pending.set(pending.token, pending)
+    return pending
+  }
+
+  take(token: string, now = Date.now()): PendingWrite {
+    const pending = this.pending.get(token)
+    this.pending.delete(token)
+    if (!pending) {
+      throw new Error('Unknown or already used confirmation token. Run the statement again to get a new preview.')
+    }
+    if (pending.expiresAt <= now) {
+      throw new Error('Confirmation token has expired. Run the statement again to get a new preview.')
+    }
+    return pending
+  }
+
+  // Drops the tokens of a closed connection, or all of them
+  clear(connection?: string): void {
+    if (connection === undefined) {
+      this.pending.clear()
+      return
+    }
+    for (const [token, pending] of Array.from(this.pending.entries())) {
+      if (pending.connection === connection) this.pending.delete(token)
+    }
+  }
+
+  private prune(now: number): void {
+    for (const [token, pending] of Array.from(this.pending.entries())) {
+      if (pending.expiresAt <= now) this.pending.delete(token)
+    }
+  }
+}
+
+function formatSample(title: string, data: QueryResultData | null): string[] {
+  if (!data) return []
+  return [`${title}:`, '', formatMarkdown(data), '']
+}
+
+export function formatWritePreview(preview: WritePreview, pending: PendingWrite, now = Date.now()): string {
+  const rows = `${preview.rowCount.toLocaleString('en-US')} row${preview.rowCount === 1 ? '' : 's'}`
+  const lines = [
+    `Dry run: this ${preview.verb} would affect ${rows} in ${preview.tableName}. Nothing has been changed; the transaction was rolled back.`,
+    '',
+    ...formatSample('Before', preview.before),
+    ...formatSample('After', preview.after),
+  ]
+  if (preview.sampleNote) {
+    lines.push(`No before/after samples: ${preview.sampleNote}`, '')
+  }
+  lines.push(
+    `To commit this write, call execute_dml with confirmationToken "${pending.token}" within ` +
+      `${Math.round((pending.expiresAt - now) / 60000)} minutes. ` +
+      'It is committed only if it still affects the same number of rows.'
+  )
+  return lines.join('\n')
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MaskingRule,
+  applyMasks,
+  resolveMasks,
+  resultColumnSources,
+  partialMask,
+  validateMaskingRule,
+} from './masking'
+import { queryIdentifiers } from './queryValidator'
+import { QueryResultData } from './resultFormatter'
+
+function rule(matchType: MaskingRule['matchType'], pattern: string, action: MaskingRule['action']): MaskingRule {
+  return { id: `${matchType}:${pattern}`, matchType, pattern, action }
+}
+
+describe('Masking', () => {
+  it('should match by name, alias source, type and explicit column with the strictest action winning', () => {
+    const masks = resolveMasks(
+      [
+        rule('name', '*email*', 'partial'),
+        rule('type', 'date', 'null'),
+        rule('column', 'dbo.Customers.SSN', 'drop'),
+        rule('name', 'Contact?mail', 'hash'),
+      ],
+      [
+        { name: 'Id', type: 'int', schema: 'dbo', table: 'Customers', column: 'Id' },
+        { name: 'ContactEmail', type: 'nvarchar(200)' },
+        { name: 'c', type: 'nvarchar(11)', schema: 'dbo', table: 'Customers', column: 'ssn' },
+        { name: 'Born', type: 'date' },
+      ]
+    )
+
+    expect(Array.from(masks.values())).toEqual([
+      { column: 'ContactEmail', action: 'hash' },
+      { column: 'c', action: 'drop' },
+      { column: 'Born', action: 'null' },
+    ])
+  })
+
+  it('should mask untraced expressions over a masked table with its column rules', () => {
+    const rules = [rule('column', 'dbo.Customers.SSN', 'null'), rule('column', 'dbo.Cards.Number', 'drop')]
+    const data: QueryResultData = {
+      columns: [
+        { name: 'Id', type: 'int', nullable: false },
+        { name: 'x', type: 'nvarchar(11)', nullable: true },
+      ],
+      rows: [{ Id: 1, x: '123-45-6789' }],
+      rowCount: 1,
+      limit: 100,
+      truncated: false,
+    }
+    // describe_first_result_set traces Id but not the expression
+    const sources = resultColumnSources(data, [
+      { SOURCE_SCHEMA: 'dbo', SOURCE_TABLE: 'Customers', SOURCE_COLUMN: 'Id' },
+      { SOURCE_SCHEMA: null, SOURCE_TABLE: null, SOURCE_COLUMN: null },
+    ])
+    const reads = (query: string) => ({ tables: [], names: queryIdentifiers(query) })
+
+    const masks = resolveMasks(rules, sources, reads('SELECT Id, LEFT(SSN, 11) AS x FROM [dbo].[Customers]'))
+    expect(Array.from(masks.values())).toEqual([{ column: 'x', action: 'null' }])
+    expect(applyMasks(data, masks, 'key').rows).toEqual([{ Id: 1, x: null }])
+
+    // A view over the table is found through its dependencies
+    const viaView = resolveMasks(rules, sources, { tables: [{ schema: 'dbo', table: 'Customers' }], names: ['v'] })
+    expect(viaView.get('x')?.action).toBe('null')
+    expect(resolveMasks(rules, sources, reads("SELECT Id, Name + '' AS x FROM dbo.Orders")).size).toBe(0)
+    // When what the result reads is unknown, every column rule applies
+    expect(resolveMasks(rules, sources, { tables: [], names: [], unknown: true }).get('x')?.action).toBe('drop')
+  })
+
+  it('should mask values, drop columns and list what was masked', () => {
+    const data: QueryResultData = {
+      columns: [
+        { name: 'Id', type: 'int', nullable: false },
+        { name: 'Card', type: 'varchar(16)', nullable: false, length: 16 },
+        { name: 'Email', type: 'nvarchar(200)', nullable: true },
+        { name: 'Notes', type: 'nvarchar(max)', nullable: true },
+      ],
+      rows: [
+        { Id: 1, Card: '4242424242424242', Email: 'ann@example.com', Notes: 'vip' },
+        { Id: 2, Card: '5555555555554444', Email: null, Notes: null },
+      ],
+      rowCount: 2,
+      limit: 100,
+      truncated: false,
+    }
+    const masks = resolveMasks(
+      [rule('name', 'card', 'partial'), rule('name', 'email', 'hash'), rule('name', 'notes', 'drop')],
+      data.columns
+    )
+    const masked = applyMasks(data, masks, 'user-1:conn-1')
+
+    expect(masked.columns.map((column) => `${column.name} ${column.type}`)).toEqual([
+      'Id int',
+      'Card nvarchar',
+      'Email nvarchar',
+    ])
+    expect(masked.rows[0].Card).toBe('************4242')
+    expect(masked.rows[0].Email).toMatch(/^[0-9a-f]{16}$/)
+    expect(masked.rows[0].Email).not.toBe(applyMasks(data, masks, 'user-2:conn-9').rows[0].Email)
+    expect(masked.rows[1]).toEqual({ Id: 2, Card: '************4444', Email: null })
+    expect(masked.masked).toEqual([
+      { column: 'Card', action: 'partial' },
+      { column: 'Email', action: 'hash' },
+      { column: 'Notes', action: 'drop' },
+    ])
+    expect(partialMask('abc')).toBe('***')
+  })
+
+  it('should reject rules the server cannot apply', () => {
+    expect(validateMaskingRule('name', '*ssn*', 'hash')).toBeNull()
+    expect(validateMaskingRule('column', 'Customers.SSN', 'drop')).toBe('Column rules need a schema.table.column pattern')
+    expect(validateMaskingRule('name', 'ssn', 'encrypt')).toBe('action must be one of: hash, partial, null, drop')
+  })
+})
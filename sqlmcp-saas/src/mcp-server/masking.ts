@@ -0,0 +1,216 @@
+// Column masking rules that keep PII out of the results sent to the AI
+// provider.
+//
+// A rule matches result columns by name pattern, by data type, or by the
+// table column they read (schema.table.column), and masks their values once
+// the query has run. When several rules match a column the strictest action
+// wins: drop, then null, then hash, then partial.
+
+import crypto from 'crypto'
+import { QueryResultData, ResultValue } from './resultFormatter'
+
+export const MASK_MATCH_TYPES = ['name', 'type', 'column'] as const
+export type MaskMatchType = (typeof MASK_MATCH_TYPES)[number]
+
+export const MASK_ACTIONS = ['hash', 'partial', 'null', 'drop'] as const
+export type MaskAction = (typeof MASK_ACTIONS)[number]
+
+export interface MaskingRule {
+  id: string
+  matchType: MaskMatchType
+  // Name pattern ('*' and '?' wildcards), type name, or schema.table.column
+  pattern: string
+  action: MaskAction
+}
+
+export interface MaskingStore {
+  // Rules of the connection plus the user's rules for every connection
+  getRules(userId: string, connectionId: string | null): Promise<MaskingRule[]>
+}
+
+// A result column and, when it could be traced, the table column it reads
+export interface ResultColumnSource {
+  name: string
+  type: string
+  schema?: string | null
+  table?: string | null
+  column?: string | null
+}
+
+// What a result may read from, as far as it can be told: the tables its
+// traced columns and the views or functions it uses read, and the names its
+// SQL mentions. unknown when it cannot be told, e.g. for dynamic SQL.
+export interface ResultReads {
+  tables: { schema: string | null; table: string }[]
+  names: string[]
+  unknown?: boolean
+}
+
+// A row of sys.dm_exec_describe_first_result_set, in column order
+export interface DescribedColumn {
+  SOURCE_SCHEMA: string | null
+  SOURCE_TABLE: string | null
+  SOURCE_COLUMN: string | null
+}
+
+export interface ColumnMask {
+  column: string
+  action: MaskAction
+}
+
+const ACTION_STRENGTH: Record<MaskAction, number> = { partial: 1, hash: 2, null: 3, drop: 4 }
+
+export function isMaskMatchType(value: unknown): value is MaskMatchType {
+  return typeof value === 'string' && (MASK_MATCH_TYPES as readonly string[]).includes(value)
+}
+
+export function isMaskAction(value: unknown): value is MaskAction {
+  return typeof value === 'string' && (MASK_ACTIONS as readonly string[]).includes(value)
+}
+
+// Returns why a rule from the dashboard is invalid, or null when it is fine
+export function validateMaskingRule(matchType: unknown, pattern: unknown, action: unknown): string | null {
+  if (!isMaskMatchType(matchType)) {
+    return `matchType must be one of: ${MASK_MATCH_TYPES.join(', ')}`
+  }
+  if (!isMaskAction(action)) {
+    return `action must be one of: ${MASK_ACTIONS.join(', ')}`
+  }
+  if (typeof pattern !== 'string' || !pattern.trim() || pattern.length > 256) {
+    return 'pattern is required (max 256 characters)'
+  }
+  if (matchType === 'column' && pattern.trim().split('.').length !== 3) {
+    return 'Column rules need a schema.table.column pattern'
+  }
+  if (matchType === 'type' && !/^[a-z0-9_*?]+$/i.test(pattern.trim())) {
+    return 'Type rules need a type name such as nvarchar or date'
+  }
+  return null
+}
+
+function wildcardRegex(pattern: string): RegExp {
+  const source = pattern
+    .trim()
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+export function ruleMatches(rule: MaskingRule, source: ResultColumnSource): boolean {
+  const regex = wildcardRegex(rule.pattern)
+  switch (rule.matchType) {
+    case 'name':
+      // An alias does not hide the column it reads
+      return regex.test(source.name) || (!!source.column && regex.test(source.column))
+    case 'type':
+      return regex.test(source.type.replace(/\(.*$/, '').trim())
+    case 'column':
+      return (
+        !!source.schema && !!source.table && !!source.column &&
+        regex.test(`${source.schema}.${source.table}.${source.column}`)
+      )
+  }
+}
+
+// The columns of a result, traced to the table columns they read when the
+// result set could be described
+export function resultColumnSources(data: QueryResultData, described: DescribedColumn[] = []): ResultColumnSource[] {
+  const sources: ResultColumnSource[] =
+    data.columns.length > 0
+      ? data.columns.map((column) => ({ name: column.name, type: column.type }))
+      : Object.keys(data.rows[0] || {}).map((name) => ({ name, type: '' }))
+  return sources.map((source, i) => ({
+    ...source,
+    schema: described[i]?.SOURCE_SCHEMA,
+    table: described[i]?.SOURCE_TABLE,
+    column: described[i]?.SOURCE_COLUMN,
+  }))
+}
+
+// Whether a result may read the table of a schema.table.column rule
+export function mayReadRuleTable(rule: MaskingRule, reads: ResultReads): boolean {
+  if (reads.unknown) return true
+  const [schema, table] = rule.pattern.trim().split('.')
+  const schemaRegex = wildcardRegex(schema)
+  const tableRegex = wildcardRegex(table)
+  return (
+    reads.tables.some((read) => (!read.schema || schemaRegex.test(read.schema)) && tableRegex.test(read.table)) ||
+    reads.names.some((name) => tableRegex.test(name))
+  )
+}
+
+// Whether any result column could not be traced to a table column, such as
+// an expression like LEFT(SSN, 4) or SSN + ''
+export function hasUntracedColumns(sources: ResultColumnSource[]): boolean {
+  return sources.some((source) => !source.column)
+}
+
+// The strictest matching action for each result column, keyed by name.
+// Columns that could not be traced get the column rules of every table the
+// result may read, since they may be computed from a masked column.
+export function resolveMasks(
+  rules: MaskingRule[],
+  sources: ResultColumnSource[],
+  reads?: ResultReads
+): Map<string, ColumnMask> {
+  const untracedRules = reads
+    ? rules.filter((rule) => rule.matchType === 'column' && mayReadRuleTable(rule, reads))
+    : []
+  const masks = new Map<string, ColumnMask>()
+  for (const source of sources) {
+    for (const rule of rules) {
+      const applies = ruleMatches(rule, source) || (!source.column && untracedRules.includes(rule))
+      if (!applies) continue
+      const current = masks.get(source.name)
+      if (!current || ACTION_STRENGTH[rule.action] > ACTION_STRENGTH[current.action]) {
+        masks.set(source.name, { column: source.name, action: rule.action })
+      }
+    }
+  }
+  return masks
+}
+
+// Keeps the last quarter of the value (at most four characters), so a
+// card number still reads as ************4242
+export function partialMask(text: string): string {
+  const visible = Math.min(4, Math.floor(text.length / 4))
+  return '*'.repeat(text.length - visible) + text.substring(text.length - visible)
+}
+
+// Hashes are keyed per connection, so equal values still group and join
+// within a connection but cannot be looked up elsewhere
+export function maskValue(value: ResultValue, action: MaskAction, key: string): ResultValue {
+  if (value === null || action === 'null' || action === 'drop') return null
+  if (action === 'hash') {
+    return crypto.createHmac('sha256', key).update(String(value)).digest('hex').substring(0, 16)
+  }
+  return partialMask(String(value))
+}
+
+export function applyMasks(data: QueryResultData, masks: Map<string, ColumnMask>, key: string): QueryResultData {
+  if (masks.size === 0) return data
+
+  const columns = data.columns
+    .filter((column) => masks.get(column.name)?.action !== 'drop')
+    .map((column) => {
+      const mask = masks.get(column.name)
+      if (!mask) return column
+      // Masked values are text, or null, whatever the column held before
+      return mask.action === 'null'
+        ? { ...column, nullable: true }
+        : { name: column.name, type: 'nvarchar', nullable: column.nullable }
+    })
+
+  const rows = data.rows.map((row) => {
+    const masked: Record<string, ResultValue> = {}
+    for (const [name, value] of Object.entries(row)) {
+      const mask = masks.get(name)
+      if (mask?.action === 'drop') continue
+      masked[name] = mask ? maskValue(value, mask.action, key) : value
+    }
+    return masked
+  })
+
+  return { ...data, columns, rows, masked: Array.from(masks.values()) }
+}
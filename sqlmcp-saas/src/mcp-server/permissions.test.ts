@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { buildPermissionReport, formatPermissionReport } from './permissions'
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  LOGIN_NAME: 'mcp_reader',
+  USER_NAME: 'mcp_reader',
+  IS_SYSADMIN: 0,
+  UPDATEABILITY: 'READ_WRITE',
+  db_owner: 0,
+  db_ddladmin: 0,
+  db_datawriter: 0,
+  db_securityadmin: 0,
+  ...overrides,
+})
+
+describe('buildPermissionReport', () => {
+  it('should report a login with only SELECT as read-only', () => {
+    const report = buildPermissionReport(row(), ['CONNECT', 'SELECT', 'SHOWPLAN'])
+
+    expect(report).toMatchObject({ level: 'read_only', roles: [], warnings: [] })
+    expect(formatPermissionReport(report)).toBe("Permissions of login 'mcp_reader' (user mcp_reader): read-only")
+  })
+
+  it('should flag db_owner and sysadmin logins as elevated', () => {
+    const owner = buildPermissionReport(row({ db_owner: 1, db_datawriter: 1 }), ['CONNECT', 'SELECT', 'INSERT'])
+    expect(owner).toMatchObject({ level: 'elevated', isDbOwner: true, roles: ['db_owner', 'db_datawriter'] })
+    expect(owner.warnings[0]).toBe("Login 'mcp_reader' is db_owner and can change anything in the database.")
+
+    const admin = buildPermissionReport(row({ LOGIN_NAME: 'sa', USER_NAME: 'dbo', IS_SYSADMIN: 1, db_owner: 1 }), ['CONTROL'])
+    expect(admin).toMatchObject({ level: 'elevated', isSysadmin: true })
+    expect(admin.warnings[0]).toContain("'sa' is a sysadmin")
+  })
+
+  it('should note that a read-only database refuses writes', () => {
+    const report = buildPermissionReport(row({ UPDATEABILITY: 'READ_ONLY' }), ['SELECT', 'UPDATE'])
+
+    expect(report).toMatchObject({ level: 'write', databaseReadOnly: true })
+    expect(report.warnings).toEqual(['The database is read-only, so writes are refused by SQL Server.'])
+  })
+})
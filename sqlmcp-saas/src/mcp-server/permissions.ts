@@ -0,0 +1,125 @@
+// What the login behind a connection is allowed to do.
+//
+// Query validation keeps writes out of query_data, but the database itself
+// should refuse them too. The permission report is read when a connection is
+// opened and when one is tested from the dashboard, so that owner and
+// sysadmin logins are flagged before an AI client gets to use them.
+
+import sql from 'mssql'
+
+// warn opens elevated connections with a warning; refuse does not open them
+export type ElevatedLoginPolicy = 'warn' | 'refuse'
+
+export type PermissionLevel = 'read_only' | 'write' | 'elevated'
+
+export interface PermissionReport {
+  login: string
+  user: string
+  isSysadmin: boolean
+  isDbOwner: boolean
+  // Fixed database roles the user belongs to
+  roles: string[]
+  // Effective database-level permissions from fn_my_permissions
+  permissions: string[]
+  // True on read-only databases and readable secondaries, where the
+  // database refuses every write whatever the login may do
+  databaseReadOnly: boolean
+  level: PermissionLevel
+  warnings: string[]
+}
+
+// Fixed roles checked with IS_ROLEMEMBER, strongest first
+export const CHECKED_ROLES = ['db_owner', 'db_ddladmin', 'db_datawriter', 'db_securityadmin'] as const
+
+// Database permissions that allow changing data or schema
+const WRITE_PERMISSIONS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'EXECUTE', 'ALTER', 'CONTROL', 'TAKE OWNERSHIP',
+  'CREATE TABLE', 'CREATE PROCEDURE', 'CREATE FUNCTION', 'CREATE VIEW', 'CREATE SCHEMA',
+  'ALTER ANY SCHEMA', 'ALTER ANY USER', 'ALTER ANY ROLE',
+])
+
+export interface PermissionRow {
+  LOGIN_NAME: string
+  USER_NAME: string
+  IS_SYSADMIN: number | null
+  UPDATEABILITY: string | null
+  [role: string]: unknown
+}
+
+export function buildPermissionReport(row: PermissionRow, permissions: string[]): PermissionReport {
+  const isSysadmin = row.IS_SYSADMIN === 1
+  const roles = CHECKED_ROLES.filter((role) => row[role] === 1)
+  const isDbOwner = roles.includes('db_owner')
+  const writes = permissions.filter((permission) => WRITE_PERMISSIONS.has(permission))
+  const databaseReadOnly = row.UPDATEABILITY === 'READ_ONLY'
+
+  const level: PermissionLevel =
+    isSysadmin || isDbOwner || permissions.includes('CONTROL')
+      ? 'elevated'
+      : writes.length > 0 || roles.length > 0
+        ? 'write'
+        : 'read_only'
+
+  const warnings: string[] = []
+  if (isSysadmin) {
+    warnings.push(`Login '${row.LOGIN_NAME}' is a sysadmin and can change anything on the server.`)
+  } else if (isDbOwner) {
+    warnings.push(`Login '${row.LOGIN_NAME}' is db_owner and can change anything in the database.`)
+  } else if (level === 'elevated') {
+    warnings.push(`Login '${row.LOGIN_NAME}' has CONTROL on the database.`)
+  } else if (level === 'write' && !databaseReadOnly) {
+    const granted = [...roles, ...writes]
+    warnings.push(`Login '${row.LOGIN_NAME}' can change data (${granted.join(', ')}).`)
+  }
+  if (level !== 'read_only') {
+    warnings.push(
+      databaseReadOnly
+        ? 'The database is read-only, so writes are refused by SQL Server.'
+        : 'Use a login with only SELECT permissions (db_datareader) so that SQL Server refuses writes as well.'
+    )
+  }
+
+  return {
+    login: row.LOGIN_NAME,
+    user: row.USER_NAME,
+    isSysadmin,
+    isDbOwner,
+    roles,
+    permissions,
+    databaseReadOnly,
+    level,
+    warnings,
+  }
+}
+
+export async function readPermissionReport(pool: sql.ConnectionPool): Promise<PermissionReport> {
+  const roles = CHECKED_ROLES.map((role) => `IS_ROLEMEMBER('${role}') AS [${role}]`).join(',\n      ')
+  const identity = await pool.request().query(`
+    SELECT
+      SUSER_SNAME() AS LOGIN_NAME,
+      USER_NAME() AS USER_NAME,
+      IS_SRVROLEMEMBER('sysadmin') AS IS_SYSADMIN,
+      CAST(DATABASEPROPERTYEX(DB_NAME(), 'Updateability') AS nvarchar(20)) AS UPDATEABILITY,
+      ${roles}
+  `)
+  const permissions = await pool.request().query`
+    SELECT permission_name AS PERMISSION_NAME
+    FROM fn_my_permissions(NULL, 'DATABASE')
+    ORDER BY permission_name
+  `
+  return buildPermissionReport(
+    identity.recordset[0],
+    permissions.recordset.map((row: { PERMISSION_NAME: string }) => row.PERMISSION_NAME)
+  )
+}
+
+export function formatPermissionReport(report: PermissionReport): string {
+  const level = {
+    read_only: 'read-only',
+    write: 'can write',
+    elevated: 'elevated (owner or administrator)',
+  }[report.level]
+  const lines = [`Permissions of login '${report.login}' (user ${report.user}): ${level}`]
+  if (report.roles.length > 0) lines.push(`Roles: ${report.roles.join(', ')}`)
+  return [...lines, ...report.warnings.map((warning) => `Warning: ${warning}`)].join('\n')
+}
@@ -0,0 +1,83 @@
+import { vi, describe, it, expect } from 'vitest'
+import {
+  parseProcedureName,
+  isProcedureAllowed,
+  parseParameterDefaults,
+  bindParameters,
+  runsDynamicSql,
+  ProcedureParameter,
+} from './procedures'
+
+function param(name: string, overrides: Partial<ProcedureParameter> = {}): ProcedureParameter {
+  return {
+    name,
+    typeName: 'int',
+    maxLength: 4,
+    precision: 10,
+    scale: 0,
+    isOutput: false,
+    isReadOnly: false,
+    hasDefault: false,
+    defaultValue: null,
+    ...overrides,
+  }
+}
+
+describe('Procedures', () => {
+  it('should parse and allowlist procedure names case-insensitively', () => {
+    expect(parseProcedureName('[sales].[GetOrders]')).toEqual({ schema: 'sales', name: 'GetOrders' })
+    expect(isProcedureAllowed(['dbo.GetOrders'], parseProcedureName('getorders'))).toBe(true)
+    expect(isProcedureAllowed(['sales.GetOrders'], parseProcedureName('GetOrders'))).toBe(false)
+    expect(() => parseProcedureName('a.b.c')).toThrow('Invalid procedure name')
+  })
+
+  it('should read parameter defaults from the procedure header', () => {
+    const defaults = parseParameterDefaults(`-- Orders report
+CREATE PROCEDURE dbo.GetOrders
+  @CustomerId int,
+  @Status nvarchar(20) = N'open, pending',
+  @Top int = -1 OUTPUT,
+  @Since datetime2(3) = NULL
+WITH RECOMPILE
+AS
+BEGIN
+  DECLARE @x int = 5
+  SELECT @x
+END`)
+
+    expect(defaults).toEqual({
+      '@Status': "N'open, pending'",
+      '@Top': '-1',
+      '@Since': 'NULL',
+    })
+  })
+
+  it('should recognize procedures that run dynamic SQL', () => {
+    expect(runsDynamicSql("CREATE PROCEDURE p WITH EXECUTE AS OWNER AS SELECT 'EXEC (x)' FROM dbo.Orders")).toBe(false)
+    expect(runsDynamicSql('CREATE PROCEDURE p AS EXEC dbo.Other')).toBe(false)
+    expect(runsDynamicSql('CREATE PROCEDURE p @q nvarchar(max) AS EXEC sys.sp_executesql @q')).toBe(true)
+    expect(runsDynamicSql('CREATE PROCEDURE p @q nvarchar(max) AS EXEC (@q)')).toBe(true)
+    expect(runsDynamicSql(null)).toBe(true)
+  })
+
+  it('should bind typed inputs and outputs and reject bad arguments', () => {
+    const parameters = [
+      param('@CustomerId'),
+      param('@Status', { typeName: 'nvarchar', maxLength: 40, hasDefault: true, defaultValue: "N'open'" }),
+      param('@Total', { isOutput: true }),
+    ]
+    const request = { input: vi.fn(), output: vi.fn() }
+
+    bindParameters(request as any, parameters, { CustomerId: 42 })
+
+    expect(request.input).toHaveBeenCalledTimes(1)
+    expect(request.input.mock.calls[0][0]).toBe('CustomerId')
+    expect(request.input.mock.calls[0][2]).toBe(42)
+    expect(request.output.mock.calls[0][0]).toBe('Total')
+
+    expect(() => bindParameters(request as any, parameters, {})).toThrow('Missing required parameter: @CustomerId')
+    expect(() => bindParameters(request as any, parameters, { CustomerId: 1, Foo: 2 })).toThrow(
+      "Unknown parameter 'Foo'"
+    )
+  })
+})
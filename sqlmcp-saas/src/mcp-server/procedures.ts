@@ -0,0 +1,236 @@
+// Stored procedure discovery and allowlisted execution.
+//
+// Procedures can change data, so execute_procedure only runs procedures the
+// connection owner has allowlisted in the dashboard. Arguments are always
+// bound as typed parameters, never spliced into the EXEC text.
+
+import sql from 'mssql'
+import { tokenize } from './queryValidator'
+import { formatDataType } from './schemaResources'
+
+export interface ProcedureName {
+  schema: string
+  name: string
+}
+
+export interface ProcedureParameter {
+  name: string
+  typeName: string
+  maxLength: number
+  precision: number
+  scale: number
+  isOutput: boolean
+  isReadOnly: boolean
+  hasDefault: boolean
+  defaultValue: string | null
+}
+
+// Parses "proc", "schema.proc" or "[schema].[proc]"
+export function parseProcedureName(procedureName: string): ProcedureName {
+  const parts = (procedureName || '').split('.').map((part) => part.trim().replace(/^\[(.*)\]$/, '$1'))
+  if (parts.length > 2 || parts.some((part) => !/^[\p{L}_][\p{L}\p{N}_@#$ ]*$/u.test(part))) {
+    throw new Error(`Invalid procedure name '${procedureName}'`)
+  }
+
+  return parts.length === 2 ? { schema: parts[0], name: parts[1] } : { schema: 'dbo', name: parts[0] }
+}
+
+export function quoteProcedureName({ schema, name }: ProcedureName): string {
+  return `[${schema.replace(/\]/g, ']]')}].[${name.replace(/\]/g, ']]')}]`
+}
+
+// Allowlist entries are schema.name, compared case-insensitively like SQL
+// Server's default collation
+export function isProcedureAllowed(allowlist: string[], procedure: ProcedureName): boolean {
+  const key = `${procedure.schema}.${procedure.name}`.toLowerCase()
+  return allowlist.some((entry) => {
+    try {
+      const allowed = parseProcedureName(entry)
+      return `${allowed.schema}.${allowed.name}`.toLowerCase() === key
+    } catch {
+      return false
+    }
+  })
+}
+
+// Whether a procedure body builds and runs SQL at run time (sp_executesql,
+// EXEC (@sql) or EXEC @name), so what it reads cannot be told from its
+// dependencies. A missing definition (WITH ENCRYPTION) counts as dynamic.
+export function runsDynamicSql(definition: string | null): boolean {
+  if (definition === null) return true
+  const tokens = tokenize(definition)
+  return tokens.some((token, i) => {
+    if (token.type !== 'word' && token.type !== 'identifier') return false
+    if (token.value.replace(/[[\]"]/g, '').toUpperCase() === 'SP_EXECUTESQL') return true
+    const next = tokens[i + 1]
+    return (
+      token.type === 'word' &&
+      (token.upper === 'EXEC' || token.upper === 'EXECUTE') &&
+      (next?.value === '(' || next?.type === 'variable')
+    )
+  })
+}
+
+// sys.parameters only records defaults for CLR procedures, so T-SQL defaults
+// are read from the procedure header: every "@name type = value" before the
+// AS (or WITH/FOR options) that starts the body.
+export function parseParameterDefaults(definition: string): Record<string, string> {
+  const tokens = tokenize(definition)
+  const defaults: Record<string, string> = {}
+  const baseDepth = tokens[0]?.depth ?? 0
+
+  let current: string | null = null
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    const afterVariable = tokens[i - 1]?.type === 'variable'
+    if (
+      token.type === 'word' &&
+      token.depth === baseDepth &&
+      ['AS', 'WITH', 'FOR'].includes(token.upper) &&
+      !(token.upper === 'AS' && afterVariable)
+    ) {
+      break
+    }
+
+    if (token.type === 'variable') {
+      current = token.value
+    } else if (current && token.value === '=' && tokens[i + 1]) {
+      const first = tokens[i + 1]
+      let last = first
+      for (let j = i + 2; j < tokens.length; j++) {
+        const t = tokens[j]
+        if (t.value === ',' || t.type === 'variable' || t.depth < first.depth) break
+        if (t.type === 'word' && ['OUT', 'OUTPUT', 'READONLY', 'AS', 'WITH', 'FOR'].includes(t.upper)) break
+        last = t
+      }
+      defaults[current] = definition.substring(first.start, last.end)
+      current = null
+    }
+  }
+
+  return defaults
+}
+
+export function formatProcedureParameters(parameters: ProcedureParameter[]): string[] {
+  return parameters.map((param) => {
+    const attributes = []
+    if (param.isOutput) attributes.push('OUTPUT')
+    if (param.isReadOnly) attributes.push('READONLY')
+    if (param.defaultValue !== null) {
+      attributes.push(`DEFAULT ${param.defaultValue}`)
+    } else if (param.hasDefault) {
+      attributes.push('(optional)')
+    } else if (!param.isOutput) {
+      attributes.push('(required)')
+    }
+
+    return `- ${param.name}: ${formatDataType(param.typeName, param.maxLength, param.precision, param.scale)}${
+      attributes.length > 0 ? ` ${attributes.join(' ')}` : ''
+    }`
+  })
+}
+
+// Maps a sys.types name and sizes to the mssql type used to bind it
+export function sqlTypeFor(param: ProcedureParameter): sql.ISqlType | sql.ISqlTypeFactory {
+  const length = (bytes: number) => (bytes === -1 ? sql.MAX : bytes)
+
+  switch (param.typeName.toLowerCase()) {
+    case 'bigint':
+      return sql.BigInt
+    case 'int':
+      return sql.Int
+    case 'smallint':
+      return sql.SmallInt
+    case 'tinyint':
+      return sql.TinyInt
+    case 'bit':
+      return sql.Bit
+    case 'float':
+      return sql.Float
+    case 'real':
+      return sql.Real
+    case 'decimal':
+      return sql.Decimal(param.precision, param.scale)
+    case 'numeric':
+      return sql.Numeric(param.precision, param.scale)
+    case 'money':
+      return sql.Money
+    case 'smallmoney':
+      return sql.SmallMoney
+    case 'date':
+      return sql.Date
+    case 'datetime':
+      return sql.DateTime
+    case 'smalldatetime':
+      return sql.SmallDateTime
+    case 'datetime2':
+      return sql.DateTime2(param.scale)
+    case 'datetimeoffset':
+      return sql.DateTimeOffset(param.scale)
+    case 'time':
+      return sql.Time(param.scale)
+    case 'char':
+      return sql.Char(length(param.maxLength))
+    case 'varchar':
+      return sql.VarChar(length(param.maxLength))
+    case 'nchar':
+      return sql.NChar(param.maxLength === -1 ? sql.MAX : param.maxLength / 2)
+    case 'nvarchar':
+      return sql.NVarChar(param.maxLength === -1 ? sql.MAX : param.maxLength / 2)
+    case 'binary':
+      return sql.Binary(length(param.maxLength))
+    case 'varbinary':
+      return sql.VarBinary(length(param.maxLength))
+    case 'uniqueidentifier':
+      return sql.UniqueIdentifier
+    case 'xml':
+      return sql.Xml
+    case 'sql_variant':
+      return sql.Variant
+    default:
+      throw new Error(`Parameter ${param.name} has unsupported type ${param.typeName}`)
+  }
+}
+
+// Binds tool arguments to the procedure's parameters. Argument names may be
+// given with or without the leading @.
+export function bindParameters(
+  request: sql.Request,
+  parameters: ProcedureParameter[],
+  args: Record<string, unknown>
+): void {
+  const byName = new Map(parameters.map((param) => [param.name.replace(/^@/, '').toLowerCase(), param]))
+  const values = new Map<ProcedureParameter, unknown>()
+
+  for (const [key, value] of Object.entries(args || {})) {
+    const param = byName.get(key.replace(/^@/, '').toLowerCase())
+    if (!param) {
+      throw new Error(`Unknown parameter '${key}'. Expected: ${parameters.map((p) => p.name).join(', ') || '(none)'}`)
+    }
+    values.set(param, value)
+  }
+
+  // Table-valued parameters default to an empty table
+  const missing = parameters.filter(
+    (param) => !param.isOutput && !param.isReadOnly && !param.hasDefault && !values.has(param)
+  )
+  if (missing.length > 0) {
+    throw new Error(`Missing required parameter${missing.length > 1 ? 's' : ''}: ${missing.map((p) => p.name).join(', ')}`)
+  }
+
+  for (const param of parameters) {
+    if (param.isReadOnly) {
+      if (values.has(param)) {
+        throw new Error(`Parameter ${param.name} is table-valued, which execute_procedure does not support`)
+      }
+      continue
+    }
+
+    const name = param.name.replace(/^@/, '')
+    if (param.isOutput) {
+      request.output(name, sqlTypeFor(param), values.get(param))
+    } else if (values.has(param)) {
+      request.input(name, sqlTypeFor(param), values.get(param))
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { vi, describe, it, expect } from 'vitest'
+import {
+  buildPrompt,
+  checkPromptFields,
+  listPromptDefinitions,
+  overrideGlobalPrompts,
+  renderTemplate,
+  CustomPrompt,
+  PromptContext,
+} from './prompts'
+
+const context: PromptContext = {
+  describeDatabase: vi.fn(async () => 'Database: Shop'),
+  listTables: vi.fn(async () => 'Found 2 tables:\n\n- dbo.Orders\n- dbo.Customers'),
+  describeTable: vi.fn(async (tableName: string) => `Table: ${tableName}\n\nColumns:\n- Id: int NOT NULL`),
+}
+
+const customPrompts: CustomPrompt[] = [
+  {
+    name: 'monthly_revenue',
+    description: 'Revenue for a month',
+    template: 'Show total revenue for {{month}} from dbo.Orders',
+    arguments: [{ name: 'month', required: true }],
+  },
+  {
+    name: 'explain_table',
+    description: 'Shadowed built-in',
+    template: 'ignored',
+    arguments: [],
+  },
+]
+
+describe('Prompts', () => {
+  it('should list built-in prompts followed by custom prompts without duplicates', () => {
+    const names = listPromptDefinitions(customPrompts).map((p) => p.name)
+
+    expect(names).toEqual([
+      'explore_database',
+      'explain_table',
+      'write_report_query',
+      'investigate_slow_query',
+      'monthly_revenue',
+    ])
+  })
+
+  it('should fill built-in prompts from live metadata', async () => {
+    const result = await buildPrompt('explain_table', { tableName: 'dbo.Orders' }, context, [])
+
+    expect(context.describeTable).toHaveBeenCalledWith('dbo.Orders')
+    expect(result.messages[0].content.text).toContain('Table: dbo.Orders')
+  })
+
+  it('should fall back to plan-less text when the server cannot analyze queries', async () => {
+    const result = await buildPrompt('investigate_slow_query', { query: 'SELECT 1' }, context, [])
+
+    expect(result.messages[0].content.text).toContain('Execution plan analysis is not available')
+  })
+
+  it('should render custom prompt templates', async () => {
+    const result = await buildPrompt('monthly_revenue', { month: 'March' }, context, customPrompts)
+
+    expect(result.messages[0].content.text).toBe('Show total revenue for March from dbo.Orders')
+  })
+
+  it('should require declared arguments', async () => {
+    await expect(buildPrompt('monthly_revenue', {}, context, customPrompts)).rejects.toThrow(
+      "Missing required argument for prompt 'monthly_revenue': month"
+    )
+  })
+
+  it('should let a connection prompt override a global prompt of the same name', () => {
+    const prompt = { description: '', arguments: [], name: 'top_customers' }
+    const prompts = overrideGlobalPrompts([
+      { ...prompt, template: 'global', connectionId: null },
+      { ...prompt, template: 'connection', connectionId: 'conn-1' },
+      { ...prompt, name: 'other', template: 'global', connectionId: null },
+    ])
+
+    expect(prompts.map((p) => [p.name, p.template])).toEqual([
+      ['top_customers', 'connection'],
+      ['other', 'global'],
+    ])
+  })
+
+  it('should validate prompt fields before they are stored', () => {
+    expect(checkPromptFields({ template: 'Show {{month}}', arguments: [{ name: 'month', required: true }] })).toBeNull()
+    expect(checkPromptFields({ template: 'x', arguments: 'month' })).toMatch(/^arguments: /)
+    expect(checkPromptFields({ arguments: [{ required: true }] }, true)).toMatch(/^arguments\.0\.name: /)
+    expect(checkPromptFields({ description: 'Only this' }, true)).toBeNull()
+  })
+
+  it('should leave unknown placeholders untouched', () => {
+    expect(renderTemplate('{{a}} and {{ b }}', { a: '1' })).toBe('1 and {{ b }}')
+  })
+})
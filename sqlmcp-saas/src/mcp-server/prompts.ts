@@ -0,0 +1,265 @@
+// MCP prompts for common database analysis workflows.
+//
+// Built-in prompts are filled in from live metadata through a PromptContext,
+// which each server implements with its own tools. Users can add their own
+// prompts per connection; those are plain templates with {{argument}} slots.
+
+import { z } from 'zod/v4'
+
+export interface PromptArgument {
+  name: string
+  description?: string
+  required?: boolean
+}
+
+export interface PromptDefinition {
+  name: string
+  description: string
+  arguments: PromptArgument[]
+}
+
+export interface CustomPrompt extends PromptDefinition {
+  template: string
+}
+
+// A custom prompt with the connection it belongs to, null for every one
+export interface ScopedPrompt extends CustomPrompt {
+  connectionId: string | null
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant'
+  content: { type: 'text'; text: string }
+}
+
+// Metadata lookups the built-in prompts need. Each returns tool-style text.
+export interface PromptContext {
+  describeDatabase(): Promise<string>
+  listTables(): Promise<string>
+  describeTable(tableName: string): Promise<string>
+  analyzeQuery?(query: string): Promise<string>
+}
+
+// Loads user-defined prompts for the current connection: one per name, the
+// connection's own in place of a global prompt of the same name
+export interface PromptStore {
+  getPrompts(userId: string, connectionId: string | null): Promise<CustomPrompt[]>
+}
+
+export const BUILT_IN_PROMPTS: PromptDefinition[] = [
+  {
+    name: 'explore_database',
+    description: 'Get oriented in the connected database: what it contains and where to start',
+    arguments: [],
+  },
+  {
+    name: 'explain_table',
+    description: 'Explain what a table stores and how it is used, based on its schema',
+    arguments: [
+      { name: 'tableName', description: 'Table name (can include schema: schema.table)', required: true },
+    ],
+  },
+  {
+    name: 'write_report_query',
+    description: 'Write a SELECT query for a report described in plain language',
+    arguments: [
+      { name: 'report', description: 'What the report should show', required: true },
+      { name: 'tables', description: 'Comma-separated tables to use (default: pick from all tables)' },
+    ],
+  },
+  {
+    name: 'investigate_slow_query',
+    description: 'Find out why a query is slow and how to speed it up',
+    arguments: [{ name: 'query', description: 'The slow SQL query', required: true }],
+  },
+]
+
+export const promptArgumentSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_]+$/, 'may only contain letters, numbers and underscores'),
+  description: z.string().max(500).optional(),
+  required: z.boolean().optional(),
+})
+
+// The fields of a custom prompt the dashboard may set
+const promptFieldsSchema = z.object({
+  description: z.string().max(1000).nullable().optional(),
+  template: z.string().min(1).max(20000),
+  arguments: z.array(promptArgumentSchema).max(20),
+})
+
+// Checks prompt fields before they are stored, all of them or (partial)
+// only those present. Returns the problems, or null when they are valid.
+export function checkPromptFields(fields: Record<string, unknown>, partial = false): string | null {
+  const parsed = (partial ? promptFieldsSchema.partial() : promptFieldsSchema).safeParse(fields)
+  if (parsed.success) return null
+  return parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+}
+
+// Arguments as stored, or none when they do not fit the schema
+export function parsePromptArguments(value: unknown): PromptArgument[] {
+  const parsed = z.array(promptArgumentSchema).safeParse(value)
+  return parsed.success ? parsed.data : []
+}
+
+// One prompt per name, a connection's own prompt winning over a global one
+export function overrideGlobalPrompts(prompts: ScopedPrompt[]): CustomPrompt[] {
+  const byName = new Map<string, ScopedPrompt>()
+  for (const prompt of prompts) {
+    const existing = byName.get(prompt.name)
+    if (!existing || (existing.connectionId === null && prompt.connectionId !== null)) {
+      byName.set(prompt.name, prompt)
+    }
+  }
+  return Array.from(byName.values()).map(({ connectionId, ...prompt }) => prompt)
+}
+
+function userMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } }
+}
+
+export function renderTemplate(template: string, args: Record<string, string>): string {
+  return template.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (match, name) =>
+    args[name] !== undefined ? args[name] : match
+  )
+}
+
+export function checkRequiredArguments(prompt: PromptDefinition, args: Record<string, string>): void {
+  const missing = prompt.arguments.filter((arg) => arg.required && !args[arg.name]).map((arg) => arg.name)
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument${missing.length > 1 ? 's' : ''} for prompt '${prompt.name}': ${missing.join(', ')}`)
+  }
+}
+
+export async function buildBuiltInPrompt(
+  name: string,
+  args: Record<string, string>,
+  context: PromptContext
+): Promise<{ description: string; messages: PromptMessage[] }> {
+  const prompt = BUILT_IN_PROMPTS.find((p) => p.name === name)
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`)
+  }
+  checkRequiredArguments(prompt, args)
+
+  switch (name) {
+    case 'explore_database': {
+      const [info, tables] = await Promise.all([context.describeDatabase(), context.listTables()])
+      return {
+        description: prompt.description,
+        messages: [
+          userMessage(`Help me explore this SQL Server database.
+
+${info}
+
+${tables}
+
+Summarize what this database appears to be for, group the tables by business area, point out the central tables and how they likely relate, and suggest a few questions I could answer with it. Use describe_table and get_table_sample before making claims about a table's contents.`),
+        ],
+      }
+    }
+
+    case 'explain_table': {
+      const definition = await context.describeTable(args.tableName)
+      return {
+        description: prompt.description,
+        messages: [
+          userMessage(`Explain the table ${args.tableName}.
+
+${definition}
+
+Describe what each row represents, what the important columns mean, how the keys and indexes suggest it is queried, and which other tables it probably joins to. Use get_table_sample if example values would help.`),
+        ],
+      }
+    }
+
+    case 'write_report_query': {
+      const tableNames = (args.tables || '')
+        .split(',')
+        .map((t) => t.trim())
+        .filter(Boolean)
+      const schema =
+        tableNames.length > 0
+          ? (await Promise.all(tableNames.map((t) => context.describeTable(t)))).join('\n\n')
+          : await context.listTables()
+      return {
+        description: prompt.description,
+        messages: [
+          userMessage(`Write a T-SQL SELECT query for this report: ${args.report}
+
+Available schema:
+
+${schema}
+
+Use only the tables and columns above (call describe_table for any others you need), qualify columns with table aliases, and explain any assumptions. Run the query with query_data to check the results before presenting it.`),
+        ],
+      }
+    }
+
+    case 'investigate_slow_query': {
+      const plan = context.analyzeQuery
+        ? await context.analyzeQuery(args.query)
+        : 'Execution plan analysis is not available on this server.'
+      return {
+        description: prompt.description,
+        messages: [
+          userMessage(`This query is slow:
+
+\`\`\`sql
+${args.query}
+\`\`\`
+
+Estimated execution plan:
+
+${plan}
+
+Explain where the time is likely going, then suggest concrete fixes: query rewrites, indexes (with CREATE INDEX statements), and statistics or data type issues. Use describe_table to check existing indexes before recommending new ones.`),
+        ],
+      }
+    }
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`)
+  }
+}
+
+// Lists built-in prompts followed by the user's own. Custom prompts cannot
+// shadow a built-in name, and a name is listed once, as buildPrompt finds it.
+export function listPromptDefinitions(customPrompts: CustomPrompt[]): PromptDefinition[] {
+  const names = new Set(BUILT_IN_PROMPTS.map((p) => p.name))
+  return [
+    ...BUILT_IN_PROMPTS,
+    ...customPrompts
+      .filter((p) => {
+        if (names.has(p.name)) return false
+        names.add(p.name)
+        return true
+      })
+      .map(({ name, description, arguments: promptArguments }) => ({
+        name,
+        description,
+        arguments: promptArguments,
+      })),
+  ]
+}
+
+export async function buildPrompt(
+  name: string,
+  args: Record<string, string>,
+  context: PromptContext,
+  customPrompts: CustomPrompt[]
+): Promise<{ description: string; messages: PromptMessage[] }> {
+  if (BUILT_IN_PROMPTS.some((p) => p.name === name)) {
+    return buildBuiltInPrompt(name, args, context)
+  }
+
+  const custom = customPrompts.find((p) => p.name === name)
+  if (!custom) {
+    throw new Error(`Unknown prompt: ${name}`)
+  }
+  checkRequiredArguments(custom, args)
+
+  return {
+    description: custom.description,
+    messages: [userMessage(renderTemplate(custom.template, args))],
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { QueryHistoryEntry, QueryHistoryWriter, redactLiterals } from './queryHistory'
+
+function entry(query: string, error: string | null = null): QueryHistoryEntry {
+  return {
+    userId: 'user-1',
+    connectionId: 'conn-1',
+    query,
+    rowCount: 1,
+    executionMs: 12,
+    success: error === null,
+    error,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+  }
+}
+
+describe('QueryHistoryWriter', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should redact string and numeric literals but not identifiers', () => {
+    expect(redactLiterals("SELECT TOP 10 [Col1] FROM dbo.T2 WHERE Name = N'O''Brien' AND Amount > 12.5")).toBe(
+      'SELECT TOP ? [Col1] FROM dbo.T2 WHERE Name = ? AND Amount > ?'
+    )
+    expect(redactLiterals("SELECT * FROM Users WHERE Email = 'bob@example.com")).toBe(
+      'SELECT * FROM Users WHERE Email = ?'
+    )
+  })
+
+  it('should write full batches at once and partial ones after the interval', async () => {
+    vi.useFakeTimers()
+    const batches: QueryHistoryEntry[][] = []
+    const writer = new QueryHistoryWriter(
+      { saveQueries: async (entries) => void batches.push(entries) },
+      { batchSize: 2, flushIntervalMs: 1000, redaction: 'none' }
+    )
+
+    writer.record(entry("SELECT 'a'"))
+    writer.record(entry("SELECT 'b'"))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(batches.map((batch) => batch.map((e) => e.query))).toEqual([["SELECT 'a'", "SELECT 'b'"]])
+
+    writer.record(entry("SELECT 'c'", "Invalid column name 'c'."))
+    await vi.advanceTimersByTimeAsync(999)
+    expect(batches).toHaveLength(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(batches[1]).toEqual([entry("SELECT 'c'", "Invalid column name 'c'.")])
+    expect(writer.pendingCount).toBe(0)
+  })
+
+  it('should drop a failed batch and keep writing later ones', async () => {
+    const save = vi.fn().mockRejectedValueOnce(new Error('db down')).mockResolvedValue(undefined)
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const writer = new QueryHistoryWriter({ saveQueries: save }, { maxPending: 2 })
+
+    writer.record(entry('SELECT 1'))
+    writer.record(entry('SELECT 2'))
+    writer.record(entry('SELECT 3'))
+    await writer.flush()
+    writer.record(entry('SELECT 4'))
+    await writer.flush()
+
+    expect(save).toHaveBeenCalledTimes(2)
+    expect(save.mock.calls[0][0].map((e: QueryHistoryEntry) => e.query)).toEqual(['SELECT ?', 'SELECT ?'])
+    expect(error).toHaveBeenCalledWith('Failed to write 2 query history entries:', expect.any(Error))
+    error.mockRestore()
+  })
+})
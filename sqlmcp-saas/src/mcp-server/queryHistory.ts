@@ -0,0 +1,132 @@
+// Durable history of executed queries, written to the Query table for the
+// dashboard's history and usage views.
+//
+// Tool calls only queue entries; they are written in batches in the
+// background so a slow or unavailable database never delays a query.
+
+import { tokenize } from './queryValidator'
+
+export interface QueryHistoryEntry {
+  userId: string
+  // The dashboard connection the query ran on; null for raw credentials
+  connectionId: string | null
+  query: string
+  rowCount: number
+  executionMs: number
+  success: boolean
+  error: string | null
+  createdAt: Date
+}
+
+export interface QueryHistoryStore {
+  saveQueries(entries: QueryHistoryEntry[]): Promise<void>
+}
+
+// 'literals' replaces string and numeric literals with '?' before a query is
+// stored, so values typed into a WHERE clause do not end up in the history
+export type QueryRedaction = 'none' | 'literals' | ((query: string) => string)
+
+export interface QueryHistoryOptions {
+  redaction?: QueryRedaction
+  // Entries written per insert; a full batch is written straight away
+  batchSize?: number
+  // Longest an entry waits before a partial batch is written
+  flushIntervalMs?: number
+  // Entries held while the database is slow; the oldest are dropped beyond this
+  maxPending?: number
+}
+
+const DEFAULT_BATCH_SIZE = 50
+const DEFAULT_FLUSH_INTERVAL_MS = 5000
+const DEFAULT_MAX_PENDING = 5000
+const MAX_QUERY_LENGTH = 4000
+const MAX_ERROR_LENGTH = 1000
+
+export function redactLiterals(query: string): string {
+  try {
+    let redacted = ''
+    let pos = 0
+    for (const token of tokenize(query)) {
+      if (token.type !== 'string' && token.type !== 'number') continue
+      redacted += query.substring(pos, token.start) + '?'
+      pos = token.end
+    }
+    return redacted + query.substring(pos)
+  } catch {
+    // Failed queries may not tokenize (an unterminated string, say); fall
+    // back to blanking everything that looks like a literal
+    return query.replace(/N?'(?:[^']|'')*(?:'|$)/g, '?').replace(/\b(?:0x[0-9a-f]*|\d+(?:\.\d+)?)\b/gi, '?')
+  }
+}
+
+function redactorFor(redaction: QueryRedaction): (query: string) => string {
+  if (typeof redaction === 'function') return redaction
+  return redaction === 'literals' ? redactLiterals : (query) => query
+}
+
+export class QueryHistoryWriter {
+  private store: QueryHistoryStore
+  private redact: (query: string) => string
+  private batchSize: number
+  private flushIntervalMs: number
+  private maxPending: number
+  private pending: QueryHistoryEntry[] = []
+  private timer: NodeJS.Timeout | null = null
+  private flushing: Promise<void> = Promise.resolve()
+
+  constructor(store: QueryHistoryStore, options: QueryHistoryOptions = {}) {
+    this.store = store
+    this.redact = redactorFor(options.redaction || 'literals')
+    this.batchSize = options.batchSize || DEFAULT_BATCH_SIZE
+    this.flushIntervalMs = options.flushIntervalMs || DEFAULT_FLUSH_INTERVAL_MS
+    this.maxPending = options.maxPending || DEFAULT_MAX_PENDING
+  }
+
+  get pendingCount(): number {
+    return this.pending.length
+  }
+
+  record(entry: QueryHistoryEntry): void {
+    this.pending.push({
+      ...entry,
+      query: this.redact(entry.query).substring(0, MAX_QUERY_LENGTH),
+      // Error messages often quote the offending value
+      error: entry.error ? this.redact(entry.error).substring(0, MAX_ERROR_LENGTH) : null,
+    })
+
+    if (this.pending.length > this.maxPending) {
+      this.pending.splice(0, this.pending.length - this.maxPending)
+    }
+
+    if (this.pending.length >= this.batchSize) {
+      void this.flush()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.flushIntervalMs)
+      this.timer.unref?.()
+    }
+  }
+
+  // Writes everything queued so far. Flushes run one after another, so
+  // concurrent callers never insert the same entry twice.
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.flushing = this.flushing.then(() => this.drain())
+    return this.flushing
+  }
+
+  private async drain(): Promise<void> {
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0, this.batchSize)
+      try {
+        await this.store.saveQueries(batch)
+      } catch (error) {
+        // History is best effort; a failed batch is dropped rather than
+        // retried forever
+        console.error(`Failed to write ${batch.length} query history entries:`, error)
+      }
+    }
+  }
+}
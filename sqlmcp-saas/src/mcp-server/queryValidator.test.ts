@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest'
+import {
+  tokenize,
+  splitStatements,
+  validateReadOnlyQuery,
+  applyRowLimit,
+  applyPagination,
+  validateDmlStatement,
+  applyOutputClause,
+  QueryValidationError,
+} from './queryValidator'
+
+describe('Query Validator', () => {
+  describe('tokenize', () => {
+    it('should skip comments and keep literals and identifiers whole', () => {
+      const tokens = tokenize(`SELECT [Order Id], N'it''s' -- trailing\n/* outer /* inner */ */ FROM t`)
+
+      expect(tokens.map((t) => t.value)).toEqual([
+        'SELECT', '[Order Id]', ',', "N'it''s'", 'FROM', 't',
+      ])
+      expect(tokens[4]).toMatchObject({ line: 2, column: 25 })
+    })
+
+    it('should reject unterminated strings with their position', () => {
+      expect(() => tokenize("SELECT 'abc")).toThrow('Unterminated string literal at line 1, column 8')
+    })
+  })
+
+  describe('validateReadOnlyQuery', () => {
+    it('should allow columns and literals that contain blocked words', () => {
+      const statement = validateReadOnlyQuery(
+        "SELECT UpdatedAt, CreatedBy, 'exec sp_who' AS note, [DELETE] FROM dbo.Orders"
+      )
+
+      expect(statement.readOnly).toBe(true)
+      expect(statement.verb).toBe('SELECT')
+    })
+
+    it('should allow CTEs, table hints and set operations', () => {
+      expect(() =>
+        validateReadOnlyQuery(`
+          WITH recent AS (SELECT * FROM Orders WITH (NOLOCK) WHERE CreatedAt > '2024-01-01')
+          SELECT Id FROM recent
+          UNION ALL
+          SELECT Id FROM Archive`)
+      ).not.toThrow()
+    })
+
+    it('should reject SELECT ... INTO', () => {
+      expect(() => validateReadOnlyQuery('SELECT * INTO #copy FROM Orders')).toThrow(
+        'SELECT ... INTO creates a table'
+      )
+    })
+
+    it('should name the offending statement when statements are not separated by semicolons', () => {
+      try {
+        validateReadOnlyQuery('SELECT * FROM Orders\nDELETE FROM Orders')
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(QueryValidationError)
+        const validationError = error as QueryValidationError
+        expect(validationError.statement).toBe(2)
+        expect(validationError.line).toBe(2)
+        expect(validationError.column).toBe(1)
+        expect(validationError.message).toContain('Statement 2 (DELETE) at line 2, column 1')
+      }
+    })
+
+    it('should reject data modification after a CTE', () => {
+      expect(() =>
+        validateReadOnlyQuery('WITH old AS (SELECT * FROM Orders) DELETE FROM old')
+      ).toThrow('Statement 1 (DELETE)')
+    })
+
+    it('should reject multiple read-only statements', () => {
+      expect(() => validateReadOnlyQuery('SELECT 1; SELECT 2')).toThrow(
+        'Only one statement per query is allowed, found 2'
+      )
+    })
+
+    it('should reject external data access', () => {
+      expect(() =>
+        validateReadOnlyQuery("SELECT * FROM OPENROWSET('SQLNCLI', 'Server=x;', 'SELECT 1')")
+      ).toThrow('OPENROWSET is not allowed')
+    })
+  })
+
+  describe('splitStatements', () => {
+    it('should classify each statement', () => {
+      const statements = splitStatements('SELECT 1; EXEC sp_who; SELECT 2')
+
+      expect(statements.map((s) => [s.verb, s.readOnly])).toEqual([
+        ['SELECT', true],
+        ['EXEC', false],
+        ['SELECT', true],
+      ])
+    })
+  })
+
+  describe('applyRowLimit', () => {
+    const limit = (query: string) => applyRowLimit(query, validateReadOnlyQuery(query), 50)
+
+    it('should add TOP to the outer SELECT', () => {
+      expect(limit('SELECT DISTINCT Name FROM Customers')).toBe('SELECT DISTINCT TOP 50 Name FROM Customers')
+      expect(limit('WITH c AS (SELECT Name FROM Customers) SELECT Name FROM c')).toBe(
+        'WITH c AS (SELECT Name FROM Customers) SELECT TOP 50 Name FROM c'
+      )
+    })
+
+    it('should leave queries that already limit rows untouched', () => {
+      expect(limit('SELECT TOP 5 * FROM Customers')).toBe('SELECT TOP 5 * FROM Customers')
+      expect(limit('SELECT * FROM Customers ORDER BY Id OFFSET 0 ROWS FETCH NEXT 5 ROWS ONLY')).toBe(
+        'SELECT * FROM Customers ORDER BY Id OFFSET 0 ROWS FETCH NEXT 5 ROWS ONLY'
+      )
+    })
+
+    it('should limit a query wrapped in parentheses inside them', () => {
+      expect(limit('(SELECT * FROM big)')).toBe('(SELECT TOP 50 * FROM big)')
+      expect(limit('((SELECT DISTINCT Name FROM Customers));')).toBe('((SELECT DISTINCT TOP 50 Name FROM Customers));')
+      expect(limit('(SELECT TOP 5 * FROM big)')).toBe('(SELECT TOP 5 * FROM big)')
+    })
+  })
+
+  describe('applyPagination', () => {
+    const page = (query: string) => applyPagination(query, validateReadOnlyQuery(query), 100, 51)
+
+    it('should append OFFSET/FETCH after ORDER BY and before query hints', () => {
+      expect(page('SELECT * FROM Orders ORDER BY Id OPTION (RECOMPILE);')).toEqual({
+        text: 'SELECT * FROM Orders ORDER BY Id OFFSET 100 ROWS FETCH NEXT 51 ROWS ONLY OPTION (RECOMPILE);',
+        ordered: true,
+      })
+    })
+
+    it('should give unordered queries an ORDER BY that works for any column type', () => {
+      expect(page('SELECT Notes FROM Orders')).toEqual({
+        text: 'SELECT Notes FROM Orders ORDER BY (SELECT NULL) OFFSET 100 ROWS FETCH NEXT 51 ROWS ONLY',
+        ordered: false,
+      })
+      expect(page('SELECT Name FROM Customers UNION SELECT Name FROM Suppliers')).toEqual({
+        text: 'SELECT * FROM (SELECT Name FROM Customers UNION SELECT Name FROM Suppliers) AS [page] ORDER BY (SELECT NULL) OFFSET 100 ROWS FETCH NEXT 51 ROWS ONLY',
+        ordered: false,
+      })
+      expect(page('WITH c AS (SELECT Id FROM Orders) SELECT DISTINCT Id FROM c OPTION (RECOMPILE)')).toEqual({
+        text: 'WITH c AS (SELECT Id FROM Orders) SELECT * FROM (SELECT DISTINCT Id FROM c) AS [page] ORDER BY (SELECT NULL) OFFSET 100 ROWS FETCH NEXT 51 ROWS ONLY OPTION (RECOMPILE)',
+        ordered: false,
+      })
+    })
+
+    it('should not page queries that limit their own rows', () => {
+      expect(page('SELECT TOP 5 * FROM Customers')).toBeNull()
+      expect(page('SELECT Id FROM Customers FOR JSON PATH')).toBeNull()
+    })
+  })
+
+  describe('validateDmlStatement', () => {
+    it('should find the target table and where OUTPUT goes', () => {
+      const update = "UPDATE TOP (10) [dbo].[Order Items] SET Qty = 2 WHERE Id = 5"
+      const dml = validateDmlStatement(update)
+
+      expect(dml).toMatchObject({ verb: 'UPDATE', schema: 'dbo', table: 'Order Items' })
+      expect(applyOutputClause(update, dml, 'inserted.*')).toBe(
+        'UPDATE TOP (10) [dbo].[Order Items] SET Qty = 2 OUTPUT inserted.* WHERE Id = 5'
+      )
+
+      const insert = 'INSERT INTO Customers (Name) VALUES (N\'Ada\')'
+      expect(applyOutputClause(insert, validateDmlStatement(insert), 'inserted.*')).toBe(
+        "INSERT INTO Customers (Name) OUTPUT inserted.* VALUES (N'Ada')"
+      )
+
+      const remove = 'DELETE FROM sales.Orders;'
+      expect(applyOutputClause(remove, validateDmlStatement(remove), 'deleted.*')).toBe(
+        'DELETE FROM sales.Orders OUTPUT deleted.* ;'
+      )
+    })
+
+    it('should reject anything that is not a single write to one local table', () => {
+      expect(() => validateDmlStatement('SELECT * FROM Orders')).toThrow('only a single INSERT, UPDATE or DELETE')
+      expect(() => validateDmlStatement('DELETE FROM Orders; COMMIT')).toThrow('Only one statement is allowed')
+      expect(() => validateDmlStatement('DELETE FROM OtherDb.dbo.Orders')).toThrow('use schema.table')
+      expect(() => validateDmlStatement('UPDATE Orders SET Qty = 1 WHERE Id IN (SELECT Id FROM x) EXEC sp_who')).toThrow(
+        'EXEC is not allowed in UPDATE statements'
+      )
+      expect(() => validateDmlStatement('DELETE FROM Orders OUTPUT deleted.* INTO Archive')).toThrow(QueryValidationError)
+    })
+
+    it('should reject UPDATE and DELETE that change an aliased table from a FROM clause', () => {
+      expect(() => validateDmlStatement('DELETE Allowed FROM dbo.Secret AS Allowed')).toThrow(
+        'DELETE with a FROM clause is not allowed'
+      )
+      expect(() => validateDmlStatement('DELETE FROM Allowed FROM dbo.Secret AS Allowed')).toThrow(QueryValidationError)
+      expect(() => validateDmlStatement('UPDATE Allowed SET x = 1 FROM dbo.Secret AS Allowed')).toThrow(
+        'UPDATE with a FROM clause is not allowed'
+      )
+      // Subqueries may still read other tables
+      expect(validateDmlStatement('DELETE FROM Orders WHERE Id IN (SELECT Id FROM Archive)')).toMatchObject({
+        table: 'Orders',
+      })
+    })
+  })
+})
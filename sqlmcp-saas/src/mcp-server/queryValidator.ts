@@ -0,0 +1,581 @@
+// T-SQL query validation shared by the MCP servers.
+//
+// Queries are tokenized (comments, string literals and bracketed identifiers
+// are understood), split into statements and each statement is classified as
+// read-only or not. Keyword checks only ever look at real keyword tokens, so a
+// column named UpdatedAt or a literal containing 'exec' is not rejected.
+
+export type SqlTokenType = 'word' | 'identifier' | 'string' | 'number' | 'variable' | 'symbol'
+
+export interface SqlToken {
+  type: SqlTokenType
+  value: string
+  upper: string
+  start: number
+  end: number
+  line: number
+  column: number
+  depth: number
+}
+
+export interface SqlStatement {
+  index: number
+  verb: string
+  tokens: SqlToken[]
+  text: string
+  start: number
+  end: number
+  line: number
+  column: number
+  readOnly: boolean
+  reason?: string
+}
+
+export class QueryValidationError extends Error {
+  statement?: number
+  line: number
+  column: number
+
+  constructor(message: string, line: number, column: number, statement?: number) {
+    super(message)
+    this.name = 'QueryValidationError'
+    this.line = line
+    this.column = column
+    this.statement = statement
+  }
+}
+
+// Reserved words that always begin a new statement. T-SQL does not require a
+// semicolon between statements, so "SELECT 1 DELETE FROM t" is two statements.
+const STATEMENT_KEYWORDS = new Set([
+  'ALTER', 'BACKUP', 'BEGIN', 'BREAK', 'BULK', 'CHECKPOINT', 'CLOSE', 'COMMIT',
+  'CONTINUE', 'CREATE', 'DBCC', 'DEALLOCATE', 'DECLARE', 'DELETE', 'DENY', 'DROP',
+  'EXEC', 'EXECUTE', 'GOTO', 'GRANT', 'IF', 'INSERT', 'KILL', 'MERGE', 'OPEN',
+  'PRINT', 'RAISERROR', 'RECONFIGURE', 'RESTORE', 'RETURN', 'REVERT', 'REVOKE',
+  'ROLLBACK', 'SAVE', 'SET', 'SETUSER', 'SHUTDOWN', 'TRUNCATE', 'UPDATE',
+  'UPDATETEXT', 'USE', 'WAITFOR', 'WHILE', 'WRITETEXT',
+])
+
+// Verbs that may follow a CTE header (WITH x AS (...) <verb>)
+const CTE_VERBS = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE'])
+
+// Reserved words that are never valid inside a read-only SELECT
+const FORBIDDEN_KEYWORDS = new Set([
+  'ALTER', 'BACKUP', 'BULK', 'CREATE', 'DBCC', 'DELETE', 'DENY', 'DROP', 'EXEC',
+  'EXECUTE', 'GRANT', 'INSERT', 'KILL', 'MERGE', 'OPENDATASOURCE', 'OPENQUERY',
+  'OPENROWSET', 'OPENXML', 'RECONFIGURE', 'RESTORE', 'REVOKE', 'SHUTDOWN',
+  'TRUNCATE', 'UPDATE', 'WAITFOR',
+])
+
+const SET_OPERATORS = new Set(['UNION', 'ALL', 'EXCEPT', 'INTERSECT'])
+
+export function tokenize(sqlText: string): SqlToken[] {
+  const tokens: SqlToken[] = []
+  let pos = 0
+  let line = 1
+  let lineStart = 0
+  let depth = 0
+
+  const advance = (to: number) => {
+    for (let i = pos; i < to; i++) {
+      if (sqlText[i] === '\n') {
+        line++
+        lineStart = i + 1
+      }
+    }
+    pos = to
+  }
+
+  const fail = (message: string, at: number) => {
+    const before = sqlText.substring(0, at)
+    const atLine = before.split('\n').length
+    const atColumn = at - before.lastIndexOf('\n')
+    throw new QueryValidationError(`${message} at line ${atLine}, column ${atColumn}`, atLine, atColumn)
+  }
+
+  while (pos < sqlText.length) {
+    const ch = sqlText[pos]
+    const next = sqlText[pos + 1]
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      advance(pos + 1)
+      continue
+    }
+
+    // Line comment
+    if (ch === '-' && next === '-') {
+      const end = sqlText.indexOf('\n', pos)
+      advance(end === -1 ? sqlText.length : end)
+      continue
+    }
+
+    // Block comment (T-SQL allows nesting)
+    if (ch === '/' && next === '*') {
+      let nesting = 0
+      let i = pos
+      while (i < sqlText.length) {
+        if (sqlText[i] === '/' && sqlText[i + 1] === '*') {
+          nesting++
+          i += 2
+        } else if (sqlText[i] === '*' && sqlText[i + 1] === '/') {
+          nesting--
+          i += 2
+          if (nesting === 0) break
+        } else {
+          i++
+        }
+      }
+      if (nesting !== 0) fail('Unterminated comment', pos)
+      advance(i)
+      continue
+    }
+
+    const start = pos
+    const column = pos - lineStart + 1
+    const startLine = line
+    let type: SqlTokenType
+    let end: number
+
+    if (ch === "'" || ((ch === 'N' || ch === 'n') && next === "'")) {
+      // String literal, '' escapes a quote
+      let i = ch === "'" ? pos + 1 : pos + 2
+      for (;;) {
+        if (i >= sqlText.length) fail('Unterminated string literal', start)
+        if (sqlText[i] === "'") {
+          if (sqlText[i + 1] === "'") {
+            i += 2
+            continue
+          }
+          break
+        }
+        i++
+      }
+      type = 'string'
+      end = i + 1
+    } else if (ch === '[' || ch === '"') {
+      // Delimited identifier, ]] or "" escapes the delimiter
+      const close = ch === '[' ? ']' : '"'
+      let i = pos + 1
+      for (;;) {
+        if (i >= sqlText.length) fail('Unterminated identifier', start)
+        if (sqlText[i] === close) {
+          if (sqlText[i + 1] === close) {
+            i += 2
+            continue
+          }
+          break
+        }
+        i++
+      }
+      type = 'identifier'
+      end = i + 1
+    } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next || ''))) {
+      const match = /^(0x[0-9a-f]*|[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?\.?)/i.exec(sqlText.substring(pos))
+      type = 'number'
+      end = pos + match![0].length
+    } else if (ch === '@' || ch === '#' || /[\p{L}_]/u.test(ch)) {
+      const match = /^[@#]*[\p{L}\p{N}_@#$]*/u.exec(sqlText.substring(pos))
+      type = ch === '@' ? 'variable' : 'word'
+      end = pos + match![0].length
+    } else {
+      type = 'symbol'
+      end = pos + 1
+    }
+
+    const value = sqlText.substring(start, end)
+    if (value === ')') depth = Math.max(0, depth - 1)
+    tokens.push({
+      type,
+      value,
+      upper: type === 'word' ? value.toUpperCase() : value,
+      start,
+      end,
+      line: startLine,
+      column,
+      depth,
+    })
+    if (value === '(') depth++
+    advance(end)
+  }
+
+  return tokens
+}
+
+function isKeyword(token: SqlToken | undefined, keyword: string): boolean {
+  return !!token && token.type === 'word' && token.upper === keyword
+}
+
+// The verb of a statement is its first keyword, or for CTEs the first
+// SELECT/INSERT/UPDATE/DELETE/MERGE after the CTE definitions.
+function findVerb(tokens: SqlToken[]): SqlToken | undefined {
+  const first = tokens.find((t) => t.value !== '(')
+  if (!first || !isKeyword(tokens[0], 'WITH')) return first
+  const baseDepth = tokens[0].depth
+  return tokens.find((t, i) => i > 0 && t.depth === baseDepth && t.type === 'word' && CTE_VERBS.has(t.upper))
+}
+
+function classify(statement: SqlStatement): void {
+  const verb = findVerb(statement.tokens)
+  statement.verb = verb?.upper ?? 'WITH'
+
+  if (!verb || verb.upper !== 'SELECT') {
+    statement.readOnly = false
+    statement.reason = verb
+      ? `${verb.upper} statements are not allowed`
+      : 'common table expression is not followed by a SELECT'
+    return
+  }
+
+  for (const token of statement.tokens) {
+    if (token.type !== 'word') continue
+    if (token.upper === 'INTO') {
+      statement.readOnly = false
+      statement.reason = 'SELECT ... INTO creates a table and is not allowed'
+      return
+    }
+    if (FORBIDDEN_KEYWORDS.has(token.upper)) {
+      statement.readOnly = false
+      statement.reason = `${token.upper} is not allowed in a read-only query`
+      return
+    }
+  }
+
+  statement.readOnly = true
+}
+
+export function splitStatements(sqlText: string): SqlStatement[] {
+  const tokens = tokenize(sqlText)
+  const groups: SqlToken[][] = []
+  let current: SqlToken[] = []
+
+  const flush = () => {
+    if (current.length > 0) groups.push(current)
+    current = []
+  }
+
+  for (const token of tokens) {
+    if (token.value === ';') {
+      flush()
+      continue
+    }
+
+    if (current.length > 0 && token.type === 'word' && token.depth === current[0].depth) {
+      const verb = findVerb(current)
+      const awaitingCteVerb = isKeyword(current[0], 'WITH') && !verb
+
+      if (awaitingCteVerb) {
+        // The verb of a CTE always stays with its header
+      } else if (token.upper === 'SELECT') {
+        // A second query, unless this SELECT continues a set operation or
+        // feeds an INSERT/CREATE that is already being rejected
+        const previous = current[current.length - 1]
+        if (verb?.upper === 'SELECT' && !SET_OPERATORS.has(previous.upper) && previous.value !== '(') {
+          flush()
+        }
+      } else if (STATEMENT_KEYWORDS.has(token.upper) && verb?.upper === 'SELECT') {
+        flush()
+      }
+    }
+
+    current.push(token)
+  }
+  flush()
+
+  return groups.map((group, index) => {
+    const first = group[0]
+    const last = group[group.length - 1]
+    const statement: SqlStatement = {
+      index: index + 1,
+      verb: '',
+      tokens: group,
+      text: sqlText.substring(first.start, last.end),
+      start: first.start,
+      end: last.end,
+      line: first.line,
+      column: first.column,
+      readOnly: false,
+    }
+    classify(statement)
+    return statement
+  })
+}
+
+function describeStatement(statement: SqlStatement): string {
+  const snippet = statement.text.replace(/\s+/g, ' ')
+  return `Statement ${statement.index} (${statement.verb}) at line ${statement.line}, column ${statement.column}: "${
+    snippet.length > 60 ? `${snippet.substring(0, 57)}...` : snippet
+  }"`
+}
+
+// Validates that a query is a single read-only statement and returns it.
+// Throws a QueryValidationError naming the offending statement otherwise.
+export function validateReadOnlyQuery(query: string): SqlStatement {
+  const statements = splitStatements(query)
+
+  if (statements.length === 0) {
+    throw new QueryValidationError('Query is empty', 1, 1)
+  }
+
+  for (const statement of statements) {
+    if (!statement.readOnly) {
+      throw new QueryValidationError(
+        `${describeStatement(statement)} is not read-only: ${statement.reason}`,
+        statement.line,
+        statement.column,
+        statement.index
+      )
+    }
+  }
+
+  if (statements.length > 1) {
+    const extra = statements[1]
+    throw new QueryValidationError(
+      `Only one statement per query is allowed, found ${statements.length}. ${describeStatement(extra)} must be run separately`,
+      extra.line,
+      extra.column,
+      extra.index
+    )
+  }
+
+  return statements[0]
+}
+
+// Adds TOP n to the outermost SELECT of a validated statement unless the query
+// already limits its rows with TOP or OFFSET/FETCH. A query wrapped whole in
+// parentheses is limited inside them.
+export function applyRowLimit(query: string, statement: SqlStatement, limit: number): string {
+  let tokens = statement.tokens
+  while (tokens.length > 2 && tokens[0].value === '(' && closingParen(tokens, 0) === tokens.length - 1) {
+    tokens = tokens.slice(1, -1)
+  }
+  const baseDepth = tokens[0].depth
+  const selectIndex = tokens.findIndex((t) => t.depth === baseDepth && isKeyword(t, 'SELECT'))
+  if (selectIndex === -1) return query
+
+  if (tokens.some((t) => t.depth === baseDepth && isKeyword(t, 'OFFSET'))) return query
+
+  let insertAfter = tokens[selectIndex]
+  const next = tokens[selectIndex + 1]
+  if (isKeyword(next, 'DISTINCT') || isKeyword(next, 'ALL')) insertAfter = next
+  if (isKeyword(tokens[tokens.indexOf(insertAfter) + 1], 'TOP')) return query
+
+  return `${query.substring(0, insertAfter.end)} TOP ${limit}${query.substring(insertAfter.end)}`
+}
+
+function hasTopLevelTop(tokens: SqlToken[], baseDepth: number): boolean {
+  return tokens.some((t, i) => {
+    if (t.depth !== baseDepth || !isKeyword(t, 'SELECT')) return false
+    const next = isKeyword(tokens[i + 1], 'DISTINCT') || isKeyword(tokens[i + 1], 'ALL') ? tokens[i + 2] : tokens[i + 1]
+    return isKeyword(next, 'TOP')
+  })
+}
+
+// Pages a validated statement with OFFSET/FETCH. OFFSET needs an ORDER BY, so
+// queries without one get ORDER BY (SELECT NULL), which works whatever the
+// column types but leaves the row order to SQL Server: their pages are not
+// stable, and a row may repeat or be skipped from one page to the next. SQL
+// Server refuses that ORDER BY on a UNION or SELECT DISTINCT, so those are
+// paged as a derived table.
+// Returns null when the query cannot be paged: it limits its own rows with TOP
+// or OFFSET, or returns a single FOR XML/FOR JSON document.
+export function applyPagination(
+  query: string,
+  statement: SqlStatement,
+  offset: number,
+  fetch: number
+): { text: string; ordered: boolean } | null {
+  const tokens = statement.tokens
+  const baseDepth = tokens[0].depth
+  const topLevel = tokens.filter((t) => t.depth === baseDepth)
+
+  if (hasTopLevelTop(tokens, baseDepth)) return null
+  if (topLevel.some((t) => isKeyword(t, 'OFFSET'))) return null
+
+  const forClause = topLevel.findIndex(
+    (t, i) => isKeyword(t, 'FOR') && ['XML', 'JSON', 'BROWSE'].includes(topLevel[i + 1]?.upper)
+  )
+  if (forClause !== -1) return null
+
+  const ordered = topLevel.some((t, i) => isKeyword(t, 'ORDER') && isKeyword(topLevel[i + 1], 'BY'))
+
+  // OFFSET/FETCH goes after ORDER BY but before any OPTION (...) hints
+  const option = topLevel.find((t) => isKeyword(t, 'OPTION'))
+  const insertAt = option ? option.start : statement.end
+  const clause = `${ordered ? '' : ' ORDER BY (SELECT NULL)'} OFFSET ${offset} ROWS FETCH NEXT ${fetch} ROWS ONLY`
+  let body = query.substring(0, insertAt).trimEnd()
+
+  const select = topLevel.find((t) => isKeyword(t, 'SELECT'))
+  const distinct = topLevel.some((t, i) => isKeyword(t, 'SELECT') && isKeyword(topLevel[i + 1], 'DISTINCT'))
+  const setOperator = topLevel.some((t) => SET_OPERATORS.has(t.upper) && t.upper !== 'ALL')
+  if (!ordered && select && (distinct || setOperator)) {
+    body = `${query.substring(0, select.start)}SELECT * FROM (${body.substring(select.start)}) AS [page]`
+  }
+
+  return {
+    text: `${body}${clause}${option ? ' ' : ''}${query.substring(insertAt)}`,
+    ordered,
+  }
+}
+
+// The query without comments, line breaks or extra spaces, used to recognize
+// a query repeated with different formatting. Case is kept, since it matters
+// in literals and under case-sensitive collations.
+export function normalizeQuery(query: string): string {
+  const tokens = tokenize(query)
+  while (tokens.length > 0 && tokens[tokens.length - 1].value === ';') tokens.pop()
+  return tokens.map((token) => token.value).join(' ')
+}
+
+// Every name the query mentions, unquoted: tables, columns and aliases
+// alike, along with its keywords
+export function queryIdentifiers(query: string): string[] {
+  return tokenize(query)
+    .filter((token) => token.type === 'word' || token.type === 'identifier')
+    .map(unquoteIdentifier)
+}
+
+export type DmlVerb = 'INSERT' | 'UPDATE' | 'DELETE'
+
+export interface DmlStatement {
+  statement: SqlStatement
+  verb: DmlVerb
+  // Null when the target table is not schema-qualified
+  schema: string | null
+  table: string
+  // Offset in the query where an OUTPUT clause belongs
+  outputAt: number
+}
+
+const DML_VERBS = new Set(['INSERT', 'UPDATE', 'DELETE'])
+
+function unquoteIdentifier(token: SqlToken): string {
+  if (token.type !== 'identifier') return token.value
+  const close = token.value[0] === '[' ? ']' : '"'
+  return token.value.slice(1, -1).split(close + close).join(close)
+}
+
+// Index of the parenthesis closing the one at index open
+function closingParen(tokens: SqlToken[], open: number): number {
+  const close = tokens.findIndex((t, i) => i > open && t.value === ')' && t.depth === tokens[open].depth)
+  return close === -1 ? tokens.length - 1 : close
+}
+
+// Validates that a query is a single INSERT, UPDATE or DELETE against one
+// table of the connected database, with nothing that could run a second
+// statement or end the caller's transaction.
+export function validateDmlStatement(query: string): DmlStatement {
+  const statements = splitStatements(query)
+  if (statements.length === 0) {
+    throw new QueryValidationError('Statement is empty', 1, 1)
+  }
+  if (statements.length > 1) {
+    const extra = statements[1]
+    throw new QueryValidationError(
+      `Only one statement is allowed, found ${statements.length}. ${describeStatement(extra)} must be run separately`,
+      extra.line,
+      extra.column,
+      extra.index
+    )
+  }
+
+  const statement = statements[0]
+  const tokens = statement.tokens
+  const first = tokens[0]
+  if (first.type !== 'word' || !DML_VERBS.has(first.upper)) {
+    throw new QueryValidationError(
+      `${first.upper || first.value} statements are not allowed; only a single INSERT, UPDATE or DELETE can be run`,
+      first.line,
+      first.column
+    )
+  }
+  const verb = first.upper as DmlVerb
+  const baseDepth = first.depth
+
+  // Target: [TOP (n)] [INTO | FROM] [schema.]table
+  let i = 1
+  if (isKeyword(tokens[i], 'TOP') && tokens[i + 1]?.value === '(') i = closingParen(tokens, i + 1) + 1
+  if ((verb === 'INSERT' && isKeyword(tokens[i], 'INTO')) || (verb === 'DELETE' && isKeyword(tokens[i], 'FROM'))) i++
+
+  const nameStart = i
+  const parts: SqlToken[] = []
+  while (tokens[i] && (tokens[i].type === 'word' || tokens[i].type === 'identifier')) {
+    parts.push(tokens[i++])
+    if (tokens[i]?.value !== '.') break
+    i++
+  }
+  const target = tokens[nameStart] || first
+  if (parts.length === 0) {
+    throw new QueryValidationError(`${verb} must name the table it changes`, target.line, target.column)
+  }
+  if (parts.length > 2) {
+    throw new QueryValidationError(
+      'Only tables in the connected database can be changed; use schema.table',
+      target.line,
+      target.column
+    )
+  }
+  const targetEnd = i
+
+  let setSeen = false
+  for (let j = 1; j < tokens.length; j++) {
+    const token = tokens[j]
+    if (token.type !== 'word') continue
+    // UPDATE has exactly one SET clause; any other SET would be a statement
+    if (verb === 'UPDATE' && token.upper === 'SET' && token.depth === baseDepth && !setSeen && j >= targetEnd) {
+      setSeen = true
+      continue
+    }
+    if (verb === 'INSERT' && token.upper === 'INTO' && j === 1) continue
+    // With a FROM clause of its own, the name after UPDATE or DELETE can be
+    // an alias of another table, which the allowlist would not see
+    if (verb !== 'INSERT' && token.depth === baseDepth && j >= targetEnd && ['FROM', 'JOIN'].includes(token.upper)) {
+      throw new QueryValidationError(
+        `${verb} with a FROM clause is not allowed; name the table to change directly and filter it with WHERE`,
+        token.line,
+        token.column
+      )
+    }
+    if (
+      FORBIDDEN_KEYWORDS.has(token.upper) ||
+      STATEMENT_KEYWORDS.has(token.upper) ||
+      token.upper === 'INTO' ||
+      token.upper === 'OUTPUT'
+    ) {
+      throw new QueryValidationError(
+        `${token.upper} is not allowed in ${verb} statements at line ${token.line}, column ${token.column}`,
+        token.line,
+        token.column
+      )
+    }
+  }
+  if (verb === 'UPDATE' && !setSeen) {
+    throw new QueryValidationError('UPDATE needs a SET clause', first.line, first.column)
+  }
+
+  // OUTPUT goes after the INSERT column list, after UPDATE's SET clause, or
+  // after DELETE's target, ahead of any FROM, WHERE or OPTION
+  let outputAt = tokens[targetEnd - 1].end
+  if (verb === 'INSERT') {
+    if (tokens[targetEnd]?.value === '(') outputAt = tokens[closingParen(tokens, targetEnd)].end
+  } else {
+    const from = verb === 'UPDATE' ? tokens.findIndex((t, j) => j >= targetEnd && isKeyword(t, 'SET')) : targetEnd
+    const clause = tokens.find(
+      (t, j) => j > from && t.depth === baseDepth && ['FROM', 'WHERE', 'OPTION'].includes(t.upper) && t.type === 'word'
+    )
+    outputAt = clause ? clause.start : statement.end
+  }
+
+  return {
+    statement,
+    verb,
+    schema: parts.length === 2 ? unquoteIdentifier(parts[0]) : null,
+    table: unquoteIdentifier(parts[parts.length - 1]),
+    outputAt,
+  }
+}
+
+// Adds an OUTPUT clause to a validated DML statement
+export function applyOutputClause(query: string, dml: DmlStatement, columns: string): string {
+  return `${query.substring(0, dml.outputAt).trimEnd()} OUTPUT ${columns} ${query.substring(dml.outputAt).trimStart()}`
+}
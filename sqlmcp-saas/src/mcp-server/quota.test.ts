@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BillingPeriod,
+  Plan,
+  QuotaExceededError,
+  QuotaService,
+  QuotaStore,
+  billingPeriod,
+  crossedThreshold,
+  formatQuotaWarning,
+} from './quota'
+
+// Counts in memory the way PrismaQuotaStore counts in UsagePeriod
+function memoryStore(plan: Plan | null, queryQuota: number | null = null): QuotaStore {
+  const counts = new Map<string, number>()
+  return {
+    getSubscription: async () =>
+      plan ? { plan, currentPeriodEnd: new Date('2024-03-15T00:00:00Z'), queryQuota } : null,
+    consume: async (userId: string, period: BillingPeriod, limit: number | null) => {
+      const key = `${userId}:${period.start.toISOString()}`
+      const used = counts.get(key) || 0
+      if (limit !== null && used >= limit) return null
+      counts.set(key, used + 1)
+      return used + 1
+    },
+    used: async (userId: string, period: BillingPeriod) => counts.get(`${userId}:${period.start.toISOString()}`) || 0,
+  }
+}
+
+describe('Quota', () => {
+  it('should derive the billing period from the subscription period end', () => {
+    const now = new Date('2024-03-20T12:00:00Z')
+    expect(billingPeriod(new Date('2024-04-15T00:00:00Z'), now)).toEqual({
+      start: new Date('2024-03-15T00:00:00Z'),
+      end: new Date('2024-04-15T00:00:00Z'),
+    })
+    // A period end that has passed rolls forward, clamped to short months
+    expect(billingPeriod(new Date('2024-01-31T00:00:00Z'), now)).toEqual({
+      start: new Date('2024-02-29T00:00:00Z'),
+      end: new Date('2024-03-31T00:00:00Z'),
+    })
+    expect(billingPeriod(null, now)).toEqual({
+      start: new Date('2024-03-01T00:00:00Z'),
+      end: new Date('2024-04-01T00:00:00Z'),
+    })
+  })
+
+  it('should warn at 80% and 100% and then reject with an upgrade message', async () => {
+    const quota = new QuotaService(memoryStore(null), { upgradeUrl: 'https://sqlmcp.example/billing' })
+    const now = new Date('2024-03-20T12:00:00Z')
+
+    const warnings: string[] = []
+    for (let i = 0; i < 100; i++) {
+      const usage = await quota.consume('user-1', now)
+      if (usage.warning !== null) warnings.push(formatQuotaWarning(usage))
+    }
+
+    expect(warnings).toEqual([
+      'Monthly quota at 80%: 80 of 100 tool calls used on the FREE plan (resets 2024-04-01).',
+      'Monthly quota used up: 100 of 100 tool calls on the FREE plan. Further calls are rejected until 2024-04-01; upgrade to keep querying.',
+    ])
+    await expect(quota.consume('user-1', now)).rejects.toThrow(QuotaExceededError)
+    await expect(quota.consume('user-1', now)).rejects.toThrow('Upgrade your plan at https://sqlmcp.example/billing')
+  })
+
+  it('should report the highest threshold passed between two counts', () => {
+    expect(crossedThreshold(79, 80, 100)).toBe(0.8)
+    expect(crossedThreshold(80, 81, 100)).toBeNull()
+    // A count that skips past a threshold still passes it
+    expect(crossedThreshold(78, 82, 100)).toBe(0.8)
+    expect(crossedThreshold(79, 100, 100)).toBe(1)
+    expect(crossedThreshold(1, 2, null)).toBeNull()
+  })
+
+  it('should check the quota without counting the call', async () => {
+    const quota = new QuotaService(memoryStore('STARTER', 2))
+    const now = new Date('2024-03-20T12:00:00Z')
+
+    await quota.check('user-1', now)
+    await quota.check('user-1', now)
+    expect((await quota.consume('user-1', now)).used).toBe(1)
+    await quota.consume('user-1', now)
+    await expect(quota.check('user-1', now)).rejects.toThrow(QuotaExceededError)
+  })
+
+  it('should prefer a custom quota and allow unlimited plans', async () => {
+    const custom = new QuotaService(memoryStore('PRO', 5))
+    const now = new Date('2024-03-20T12:00:00Z')
+    expect((await custom.consume('user-1', now)).limit).toBe(5)
+    expect((await custom.consume('user-1', now)).warning).toBeNull()
+
+    const unlimited = new QuotaService(memoryStore('ENTERPRISE'))
+    expect(await unlimited.consume('user-1', now)).toMatchObject({ used: 1, limit: null, warning: null })
+  })
+})
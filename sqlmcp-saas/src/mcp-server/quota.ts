@@ -0,0 +1,187 @@
+// Monthly tool-call quotas for each subscription plan.
+//
+// Calls are counted per billing period, which ends at the subscription's
+// currentPeriodEnd. Accounts without a paid subscription are counted per
+// calendar month (UTC).
+
+export type Plan = 'FREE' | 'STARTER' | 'PRO' | 'ENTERPRISE'
+
+// Tool calls per billing period, as sold on the pricing page. Enterprise
+// quotas are agreed per customer and set on the subscription.
+export const PLAN_QUERY_QUOTAS: Record<Plan, number | null> = {
+  FREE: 100,
+  STARTER: 1000,
+  PRO: 10000,
+  ENTERPRISE: null,
+}
+
+// Usage ratios at which the client is warned, once per period each
+export const QUOTA_WARNING_THRESHOLDS = [0.8, 1] as const
+
+export interface PlanSubscription {
+  plan: Plan
+  currentPeriodEnd: Date | null
+  // Overrides the plan quota; null falls back to PLAN_QUERY_QUOTAS
+  queryQuota: number | null
+}
+
+export interface BillingPeriod {
+  start: Date
+  end: Date
+}
+
+export interface QuotaStore {
+  // null for accounts without a subscription, which are on the free plan
+  getSubscription(userId: string): Promise<PlanSubscription | null>
+  // Counts one call unless the period already holds limit calls. Returns the
+  // count the increment wrote, or null when the quota is used up.
+  consume(userId: string, period: BillingPeriod, limit: number | null): Promise<number | null>
+  // The calls counted in the period so far
+  used(userId: string, period: BillingPeriod): Promise<number>
+}
+
+export interface QuotaUsage {
+  plan: Plan
+  used: number
+  limit: number | null
+  period: BillingPeriod
+  // Set on the call that crosses a warning threshold
+  warning: number | null
+}
+
+export class QuotaExceededError extends Error {
+  plan: Plan
+  limit: number
+  resetsAt: Date
+
+  constructor(plan: Plan, limit: number, resetsAt: Date, upgradeUrl?: string) {
+    super(
+      `Monthly quota reached: your ${plan} plan includes ${limit.toLocaleString('en-US')} tool calls per billing ` +
+        `period and they have all been used. The quota resets on ${resetsAt.toISOString().substring(0, 10)}. ` +
+        `Upgrade your plan${upgradeUrl ? ` at ${upgradeUrl}` : ' from the dashboard'} to keep querying now.`
+    )
+    this.name = 'QuotaExceededError'
+    this.plan = plan
+    this.limit = limit
+    this.resetsAt = resetsAt
+  }
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date)
+  const day = result.getUTCDate()
+  result.setUTCDate(1)
+  result.setUTCMonth(result.getUTCMonth() + months)
+  // Clamp to the end of shorter months (Jan 31 + 1 month = Feb 28/29)
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate()
+  result.setUTCDate(Math.min(day, lastDay))
+  return result
+}
+
+// The monthly period containing now. A period end that has already passed
+// (a renewal webhook not yet processed) is rolled forward a month at a time.
+export function billingPeriod(currentPeriodEnd: Date | null, now: Date): BillingPeriod {
+  if (!currentPeriodEnd) {
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    }
+  }
+
+  let months = 0
+  let end = new Date(currentPeriodEnd)
+  while (end <= now) end = addMonths(currentPeriodEnd, ++months)
+  let start = addMonths(currentPeriodEnd, months - 1)
+  while (start > now) {
+    end = start
+    start = addMonths(currentPeriodEnd, --months - 1)
+  }
+  return { start, end }
+}
+
+// The highest threshold that usage passes going from before to after calls
+export function crossedThreshold(before: number, after: number, limit: number | null): number | null {
+  if (limit === null) return null
+  for (const threshold of [...QUOTA_WARNING_THRESHOLDS].reverse()) {
+    const calls = Math.ceil(limit * threshold)
+    if (before < calls && after >= calls) return threshold
+  }
+  return null
+}
+
+export function formatQuotaWarning(usage: QuotaUsage): string {
+  const used = `${usage.used.toLocaleString('en-US')} of ${usage.limit?.toLocaleString('en-US')}`
+  const resets = usage.period.end.toISOString().substring(0, 10)
+  if (usage.warning === 1) {
+    return `Monthly quota used up: ${used} tool calls on the ${usage.plan} plan. Further calls are rejected until ${resets}; upgrade to keep querying.`
+  }
+  return `Monthly quota at ${Math.round((usage.warning || 0) * 100)}%: ${used} tool calls used on the ${usage.plan} plan (resets ${resets}).`
+}
+
+export interface QuotaServiceOptions {
+  // Linked from the over-quota message
+  upgradeUrl?: string
+  // How long a user's plan is cached before it is read again
+  subscriptionCacheMs?: number
+}
+
+const DEFAULT_SUBSCRIPTION_CACHE_MS = 60000
+
+// Shared by every session of a process. Counting happens in the store, so
+// sessions on other processes draw from the same quota.
+export class QuotaService {
+  private store: QuotaStore
+  private upgradeUrl?: string
+  private subscriptionCacheMs: number
+  private subscriptions = new Map<string, { subscription: PlanSubscription; expiresAt: number }>()
+
+  constructor(store: QuotaStore, options: QuotaServiceOptions = {}) {
+    this.store = store
+    this.upgradeUrl = options.upgradeUrl
+    this.subscriptionCacheMs = options.subscriptionCacheMs ?? DEFAULT_SUBSCRIPTION_CACHE_MS
+  }
+
+  // Throws QuotaExceededError when the period's quota is used up. Calls are
+  // checked before they run and counted with consume once they have run, so
+  // calls that are rejected or never reach the database are free.
+  async check(userId: string, now = new Date()): Promise<void> {
+    const { subscription, limit, period } = await this.quotaOf(userId, now)
+    if (limit !== null && (await this.store.used(userId, period)) >= limit) {
+      throw new QuotaExceededError(subscription.plan, limit, period.end, this.upgradeUrl)
+    }
+  }
+
+  // Counts one tool call, or throws QuotaExceededError when the period's
+  // quota is used up
+  async consume(userId: string, now = new Date()): Promise<QuotaUsage> {
+    const { subscription, limit, period } = await this.quotaOf(userId, now)
+
+    const used = await this.store.consume(userId, period, limit)
+    if (used === null) {
+      throw new QuotaExceededError(subscription.plan, limit!, period.end, this.upgradeUrl)
+    }
+    return { plan: subscription.plan, used, limit, period, warning: crossedThreshold(used - 1, used, limit) }
+  }
+
+  private async quotaOf(userId: string, now: Date) {
+    const subscription = await this.subscription(userId, now.getTime())
+    return {
+      subscription,
+      limit: subscription.queryQuota ?? PLAN_QUERY_QUOTAS[subscription.plan],
+      period: billingPeriod(subscription.currentPeriodEnd, now),
+    }
+  }
+
+  private async subscription(userId: string, now: number): Promise<PlanSubscription> {
+    const cached = this.subscriptions.get(userId)
+    if (cached && cached.expiresAt > now) return cached.subscription
+
+    const subscription = (await this.store.getSubscription(userId)) || {
+      plan: 'FREE',
+      currentPeriodEnd: null,
+      queryQuota: null,
+    }
+    this.subscriptions.set(userId, { subscription, expiresAt: now + this.subscriptionCacheMs })
+    return subscription
+  }
+}
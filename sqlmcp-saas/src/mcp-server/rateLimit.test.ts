@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { InMemoryRateLimitStore, RateLimitError, RateLimiter } from './rateLimit'
+
+describe('RateLimiter', () => {
+  it('should allow a burst and then refill at the sustained rate', async () => {
+    const limiter = new RateLimiter(new InMemoryRateLimitStore(), { limits: { FREE: { burst: 3, perMinute: 6 } } })
+    const now = 1_000_000
+
+    for (let i = 0; i < 3; i++) {
+      await limiter.checkApiKey('key-1', 'FREE', now)
+    }
+    const error = await limiter.checkApiKey('key-1', 'FREE', now).catch((caught) => caught)
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error.toJSON()).toEqual({ error: 'rate_limited', scope: 'api_key', retryAfterMs: 10000, retryAfterSeconds: 10 })
+    expect(error.message).toContain('6 tool calls per minute (bursts of 3)')
+
+    // Other keys have their own bucket, and one token is back after 10s
+    await limiter.checkApiKey('key-2', 'FREE', now)
+    await limiter.checkApiKey('key-1', 'FREE', now + 10000)
+    await expect(limiter.checkApiKey('key-1', 'FREE', now + 10000)).rejects.toThrow(RateLimitError)
+  })
+
+  it('should cap concurrent calls per connection until a slot is released', async () => {
+    const limiter = new RateLimiter(new InMemoryRateLimitStore(), { limits: { PRO: { maxConcurrent: 2 } } })
+    expect(limiter.policy('PRO')).toEqual({ burst: 50, perMinute: 300, maxConcurrent: 2 })
+
+    const first = await limiter.acquireConnection('conn-1', 'PRO')
+    await limiter.acquireConnection('conn-1', 'PRO')
+    await expect(limiter.acquireConnection('conn-1', 'PRO')).rejects.toMatchObject({
+      scope: 'connection',
+      retryAfterMs: 1000,
+    })
+    await limiter.acquireConnection('conn-2', 'PRO')
+
+    // Releasing twice frees only one slot
+    await first()
+    await first()
+    await limiter.acquireConnection('conn-1', 'PRO')
+    await expect(limiter.acquireConnection('conn-1', 'PRO')).rejects.toThrow('Too many concurrent queries')
+  })
+})
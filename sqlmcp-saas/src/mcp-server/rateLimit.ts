@@ -0,0 +1,160 @@
+// Rate limits that keep a runaway agent from flooding a customer's server.
+//
+// Each API key has a token bucket: burst calls may be made at once, and
+// tokens refill at the sustained rate. Each database connection also has a
+// cap on tool calls running against it at the same time.
+
+import { Plan } from './quota'
+
+export interface RateLimitPolicy {
+  // Calls that may be made back to back
+  burst: number
+  // Sustained calls per minute once the burst is spent
+  perMinute: number
+  // Tool calls running at once against one database connection
+  maxConcurrent: number
+}
+
+export const PLAN_RATE_LIMITS: Record<Plan, RateLimitPolicy> = {
+  FREE: { burst: 10, perMinute: 20, maxConcurrent: 2 },
+  STARTER: { burst: 20, perMinute: 60, maxConcurrent: 4 },
+  PRO: { burst: 50, perMinute: 300, maxConcurrent: 8 },
+  ENTERPRISE: { burst: 100, perMinute: 1000, maxConcurrent: 16 },
+}
+
+// How soon a client turned away by the concurrency cap should try again
+const CONCURRENCY_RETRY_MS = 1000
+
+export type RateLimitScope = 'api_key' | 'connection'
+
+export class RateLimitError extends Error {
+  scope: RateLimitScope
+  retryAfterMs: number
+
+  constructor(scope: RateLimitScope, retryAfterMs: number, message: string) {
+    super(message)
+    this.name = 'RateLimitError'
+    this.scope = scope
+    this.retryAfterMs = retryAfterMs
+  }
+
+  // Returned to the client as structuredContent alongside the message
+  toJSON() {
+    return {
+      error: 'rate_limited',
+      scope: this.scope,
+      retryAfterMs: this.retryAfterMs,
+      retryAfterSeconds: Math.ceil(this.retryAfterMs / 1000),
+    }
+  }
+}
+
+// Holds bucket and concurrency state. The in-memory store serves a single
+// process; instances behind a load balancer need a shared implementation.
+export interface RateLimitStore {
+  // Takes a token from the bucket at key. Returns 0 when one was taken,
+  // otherwise the milliseconds until the next token is available.
+  take(key: string, burst: number, perMinute: number, now: number): Promise<number>
+  // Claims one of max slots at key; false when all are in use
+  acquire(key: string, max: number): Promise<boolean>
+  release(key: string): Promise<void>
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>()
+  private slots = new Map<string, number>()
+
+  async take(key: string, burst: number, perMinute: number, now: number): Promise<number> {
+    const perMs = perMinute / 60000
+    const bucket = this.buckets.get(key) || { tokens: burst, updatedAt: now }
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * perMs)
+    bucket.updatedAt = now
+    this.buckets.set(key, bucket)
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1
+      return 0
+    }
+    return Math.ceil((1 - bucket.tokens) / perMs)
+  }
+
+  async acquire(key: string, max: number): Promise<boolean> {
+    const used = this.slots.get(key) || 0
+    if (used >= max) return false
+    this.slots.set(key, used + 1)
+    return true
+  }
+
+  async release(key: string): Promise<void> {
+    const used = (this.slots.get(key) || 0) - 1
+    if (used > 0) {
+      this.slots.set(key, used)
+    } else {
+      this.slots.delete(key)
+    }
+  }
+}
+
+export interface RateLimiterOptions {
+  // Overrides for the default limits of each plan
+  limits?: Partial<Record<Plan, Partial<RateLimitPolicy>>>
+}
+
+// Shared by every session of a process
+export class RateLimiter {
+  private store: RateLimitStore
+  private limits: Record<Plan, RateLimitPolicy>
+
+  constructor(store: RateLimitStore = new InMemoryRateLimitStore(), options: RateLimiterOptions = {}) {
+    this.store = store
+    this.limits = { ...PLAN_RATE_LIMITS }
+    for (const [plan, overrides] of Object.entries(options.limits || {}) as [Plan, Partial<RateLimitPolicy>][]) {
+      this.limits[plan] = { ...PLAN_RATE_LIMITS[plan], ...overrides }
+    }
+  }
+
+  policy(plan: Plan): RateLimitPolicy {
+    return this.limits[plan] || this.limits.FREE
+  }
+
+  // Throws RateLimitError when the API key has used up its burst
+  async checkApiKey(apiKeyId: string, plan: Plan, now = Date.now()): Promise<void> {
+    const { burst, perMinute } = this.policy(plan)
+    const retryAfterMs = await this.store.take(`api_key:${apiKeyId}`, burst, perMinute, now)
+    if (retryAfterMs > 0) {
+      throw new RateLimitError(
+        'api_key',
+        retryAfterMs,
+        `Rate limit exceeded: your ${plan} plan allows ${perMinute} tool calls per minute ` +
+          `(bursts of ${burst}). Retry in ${Math.ceil(retryAfterMs / 1000)}s.`
+      )
+    }
+  }
+
+  // Claims a concurrency slot on the connection and returns the function
+  // that frees it. Throws RateLimitError when every slot is taken.
+  async acquireConnection(connectionKey: string, plan: Plan): Promise<() => Promise<void>> {
+    const { maxConcurrent } = this.policy(plan)
+    const key = `connection:${connectionKey}`
+    if (!(await this.store.acquire(key, maxConcurrent))) {
+      throw new RateLimitError(
+        'connection',
+        CONCURRENCY_RETRY_MS,
+        `Too many concurrent queries: ${maxConcurrent} tool calls are already running on this connection. ` +
+          `Retry in ${CONCURRENCY_RETRY_MS / 1000}s.`
+      )
+    }
+
+    let released = false
+    return async () => {
+      if (released) return
+      released = true
+      await this.store.release(key)
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import {
+  groupForeignKeys,
+  findJoinPath,
+  formatJoinPath,
+  formatForeignKeys,
+  buildMermaidErDiagram,
+  ForeignKeyColumnRow,
+} from './relationships'
+
+function row(name: string, from: string, fromColumn: string, to: string, toColumn: string, nullable = false): ForeignKeyColumnRow {
+  return {
+    FK_NAME: name,
+    FROM_SCHEMA: 'dbo',
+    FROM_TABLE: from,
+    FROM_COLUMN: fromColumn,
+    FROM_NULLABLE: nullable,
+    TO_SCHEMA: 'dbo',
+    TO_TABLE: to,
+    TO_COLUMN: toColumn,
+    ON_DELETE: 'NO_ACTION',
+    ON_UPDATE: 'NO_ACTION',
+    IS_DISABLED: false,
+  }
+}
+
+const foreignKeys = groupForeignKeys([
+  row('FK_Orders_Customers', 'Orders', 'CustomerId', 'Customers', 'Id'),
+  row('FK_OrderLines_Orders', 'OrderLines', 'OrderId', 'Orders', 'Id'),
+  row('FK_OrderLines_Products', 'OrderLines', 'ProductId', 'Products', 'Id', true),
+  row('FK_Shipments_OrderLines', 'Shipments', 'OrderId', 'OrderLines', 'OrderId'),
+  row('FK_Shipments_OrderLines', 'Shipments', 'LineNo', 'OrderLines', 'LineNo'),
+])
+
+describe('Relationships', () => {
+  it('should group composite keys and describe cascade rules', () => {
+    expect(foreignKeys).toHaveLength(4)
+    expect(formatForeignKeys(foreignKeys)[3]).toBe(
+      '- FK_Shipments_OrderLines: dbo.Shipments(OrderId, LineNo) -> dbo.OrderLines(OrderId, LineNo) ON DELETE NO_ACTION ON UPDATE NO_ACTION'
+    )
+  })
+
+  it('should find the shortest join path in either direction', () => {
+    const from = { schema: 'dbo', table: 'Customers' }
+    const path = findJoinPath(foreignKeys, from, { schema: 'dbo', table: 'products' })
+
+    expect(formatJoinPath(from, path!)).toBe(
+      'FROM [dbo].[Customers] AS t0\n' +
+        'INNER JOIN [dbo].[Orders] AS t1 ON t1.[CustomerId] = t0.[Id]\n' +
+        'INNER JOIN [dbo].[OrderLines] AS t2 ON t2.[OrderId] = t1.[Id]\n' +
+        'INNER JOIN [dbo].[Products] AS t3 ON t3.[Id] = t2.[ProductId]'
+    )
+    expect(findJoinPath(foreignKeys, from, { schema: 'dbo', table: 'AuditLog' })).toBeNull()
+  })
+
+  it('should render a Mermaid erDiagram with optional parents', () => {
+    const diagram = buildMermaidErDiagram(foreignKeys.slice(1, 3), [
+      { schema: 'dbo', table: 'OrderLines', column: 'OrderId', typeName: 'int', isPrimaryKey: true, isForeignKey: true },
+    ])
+
+    expect(diagram).toBe(
+      'erDiagram\n' +
+        '    dbo_OrderLines {\n' +
+        '        int OrderId PK, FK\n' +
+        '    }\n' +
+        '    dbo_Orders ||--o{ dbo_OrderLines : "FK_OrderLines_Orders"\n' +
+        '    dbo_Products |o--o{ dbo_OrderLines : "FK_OrderLines_Products"'
+    )
+  })
+})
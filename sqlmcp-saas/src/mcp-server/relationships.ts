@@ -0,0 +1,206 @@
+// Foreign key relationships between tables: listing, join path finding and
+// Mermaid ER diagrams.
+
+export interface TableRef {
+  schema: string
+  table: string
+}
+
+export interface ForeignKey {
+  name: string
+  from: TableRef
+  fromColumns: string[]
+  to: TableRef
+  toColumns: string[]
+  onDelete: string
+  onUpdate: string
+  // True when every referencing column is nullable, so the parent is optional
+  optional: boolean
+  disabled: boolean
+}
+
+// One row per column pair, as read from sys.foreign_key_columns
+export interface ForeignKeyColumnRow {
+  FK_NAME: string
+  FROM_SCHEMA: string
+  FROM_TABLE: string
+  FROM_COLUMN: string
+  FROM_NULLABLE: boolean
+  TO_SCHEMA: string
+  TO_TABLE: string
+  TO_COLUMN: string
+  ON_DELETE: string
+  ON_UPDATE: string
+  IS_DISABLED: boolean
+}
+
+export interface KeyColumn extends TableRef {
+  column: string
+  typeName: string
+  isPrimaryKey: boolean
+  isForeignKey: boolean
+}
+
+export interface JoinStep {
+  foreignKey: ForeignKey
+  // True when the join walks from the referencing table to the referenced one
+  forward: boolean
+}
+
+export function parseTableRef(tableName: string): TableRef {
+  const parts = (tableName || '').split('.').map((part) => part.trim().replace(/^\[(.*)\]$/, '$1'))
+  if (parts.length > 2 || parts.some((part) => part === '')) {
+    throw new Error(`Invalid table name '${tableName}'`)
+  }
+  return parts.length === 2 ? { schema: parts[0], table: parts[1] } : { schema: 'dbo', table: parts[0] }
+}
+
+export function tableKey({ schema, table }: TableRef): string {
+  return `${schema}.${table}`.toLowerCase()
+}
+
+function tableLabel({ schema, table }: TableRef): string {
+  return `${schema}.${table}`
+}
+
+function quoteName(name: string): string {
+  return `[${name.replace(/\]/g, ']]')}]`
+}
+
+// Groups column rows into one ForeignKey per constraint, keeping row order
+export function groupForeignKeys(rows: ForeignKeyColumnRow[]): ForeignKey[] {
+  const byName = new Map<string, ForeignKey>()
+
+  for (const row of rows) {
+    const key = `${row.FROM_SCHEMA}.${row.FK_NAME}`
+    let foreignKey = byName.get(key)
+    if (!foreignKey) {
+      foreignKey = {
+        name: row.FK_NAME,
+        from: { schema: row.FROM_SCHEMA, table: row.FROM_TABLE },
+        fromColumns: [],
+        to: { schema: row.TO_SCHEMA, table: row.TO_TABLE },
+        toColumns: [],
+        onDelete: row.ON_DELETE,
+        onUpdate: row.ON_UPDATE,
+        optional: true,
+        disabled: row.IS_DISABLED,
+      }
+      byName.set(key, foreignKey)
+    }
+    foreignKey.fromColumns.push(row.FROM_COLUMN)
+    foreignKey.toColumns.push(row.TO_COLUMN)
+    if (!row.FROM_NULLABLE) foreignKey.optional = false
+  }
+
+  return Array.from(byName.values())
+}
+
+// Keeps the foreign keys that touch any of the given tables
+export function filterForeignKeys(foreignKeys: ForeignKey[], tables: TableRef[]): ForeignKey[] {
+  if (tables.length === 0) return foreignKeys
+  const keys = new Set(tables.map(tableKey))
+  return foreignKeys.filter((fk) => keys.has(tableKey(fk.from)) || keys.has(tableKey(fk.to)))
+}
+
+export function formatForeignKeys(foreignKeys: ForeignKey[]): string[] {
+  return foreignKeys.map(
+    (fk) =>
+      `- ${fk.name}: ${tableLabel(fk.from)}(${fk.fromColumns.join(', ')}) -> ${tableLabel(fk.to)}(${fk.toColumns.join(
+        ', '
+      )}) ON DELETE ${fk.onDelete} ON UPDATE ${fk.onUpdate}${fk.disabled ? ' (disabled)' : ''}`
+  )
+}
+
+// Shortest chain of foreign keys linking two tables, walking each key in
+// either direction. Returns null when the tables are not connected.
+export function findJoinPath(foreignKeys: ForeignKey[], from: TableRef, to: TableRef): JoinStep[] | null {
+  const start = tableKey(from)
+  const goal = tableKey(to)
+  if (start === goal) return []
+
+  const previous = new Map<string, { table: string; step: JoinStep }>()
+  const visited = new Set([start])
+  const queue = [start]
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const fk of foreignKeys) {
+      const edges: [string, JoinStep][] = []
+      if (tableKey(fk.from) === current) edges.push([tableKey(fk.to), { foreignKey: fk, forward: true }])
+      if (tableKey(fk.to) === current) edges.push([tableKey(fk.from), { foreignKey: fk, forward: false }])
+
+      for (const [next, step] of edges) {
+        if (visited.has(next)) continue
+        visited.add(next)
+        previous.set(next, { table: current, step })
+        if (next === goal) {
+          const path: JoinStep[] = []
+          for (let at = goal; at !== start; at = previous.get(at)!.table) {
+            path.unshift(previous.get(at)!.step)
+          }
+          return path
+        }
+        queue.push(next)
+      }
+    }
+  }
+
+  return null
+}
+
+// Renders a join path as FROM/INNER JOIN clauses with t0, t1, ... aliases
+export function formatJoinPath(from: TableRef, path: JoinStep[]): string {
+  const lines = [`FROM ${quoteName(from.schema)}.${quoteName(from.table)} AS t0`]
+
+  path.forEach(({ foreignKey: fk, forward }, index) => {
+    const target = forward ? fk.to : fk.from
+    const previousColumns = forward ? fk.fromColumns : fk.toColumns
+    const nextColumns = forward ? fk.toColumns : fk.fromColumns
+    const conditions = nextColumns.map(
+      (column, i) => `t${index + 1}.${quoteName(column)} = t${index}.${quoteName(previousColumns[i])}`
+    )
+    lines.push(
+      `INNER JOIN ${quoteName(target.schema)}.${quoteName(target.table)} AS t${index + 1} ON ${conditions.join(
+        ' AND '
+      )}`
+    )
+  })
+
+  return lines.join('\n')
+}
+
+function mermaidName({ schema, table }: TableRef): string {
+  return `${schema}_${table}`.replace(/[^A-Za-z0-9_]/g, '_')
+}
+
+// Mermaid erDiagram of the given foreign keys. Entities list their key
+// columns; a nullable foreign key makes the parent side optional.
+export function buildMermaidErDiagram(foreignKeys: ForeignKey[], keyColumns: KeyColumn[]): string {
+  const tables = new Map<string, TableRef>()
+  for (const fk of foreignKeys) {
+    tables.set(tableKey(fk.from), fk.from)
+    tables.set(tableKey(fk.to), fk.to)
+  }
+
+  const lines = ['erDiagram']
+  tables.forEach((table, key) => {
+    const columns = keyColumns.filter((col) => tableKey(col) === key)
+    // Tables without key columns appear through their relationships alone
+    if (columns.length === 0) return
+
+    lines.push(`    ${mermaidName(table)} {`)
+    for (const col of columns) {
+      const keys = [col.isPrimaryKey && 'PK', col.isForeignKey && 'FK'].filter(Boolean).join(', ')
+      const type = col.typeName.replace(/[^A-Za-z0-9_]/g, '_')
+      lines.push(`        ${type} ${col.column.replace(/[^A-Za-z0-9_]/g, '_')}${keys ? ` ${keys}` : ''}`)
+    }
+    lines.push('    }')
+  })
+
+  for (const fk of foreignKeys) {
+    lines.push(`    ${mermaidName(fk.to)} ${fk.optional ? '|o' : '||'}--o{ ${mermaidName(fk.from)} : "${fk.name}"`)
+  }
+
+  return lines.join('\n')
+}
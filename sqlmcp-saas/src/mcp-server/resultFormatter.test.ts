@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import sql from 'mssql'
+import { buildQueryResult, formatCsv, formatMarkdown, formatQueryResult } from './resultFormatter'
+
+function recordset(rows: Record<string, unknown>[]): any {
+  const result: any = [...rows]
+  result.columns = {
+    Id: { index: 0, name: 'Id', type: sql.BigInt, length: 8, nullable: false },
+    Name: { index: 1, name: 'Name', type: sql.NVarChar, length: 100, nullable: true },
+    Total: { index: 2, name: 'Total', type: sql.Decimal, length: 17, precision: 18, scale: 2, nullable: true },
+    CreatedAt: { index: 3, name: 'CreatedAt', type: sql.DateTime2, length: 8, scale: 7, nullable: false },
+  }
+  return result
+}
+
+describe('Result Formatter', () => {
+  it('should build typed values and column metadata', () => {
+    const data = buildQueryResult(
+      recordset([{ Id: '9007199254740993', Name: null, Total: 12.5, CreatedAt: new Date('2024-03-01T10:00:00Z') }]),
+      100
+    )
+
+    expect(data.columns.map((col) => [col.name, col.type, col.nullable])).toEqual([
+      ['Id', 'bigint', false],
+      ['Name', 'nvarchar(50)', true],
+      ['Total', 'decimal(18,2)', true],
+      ['CreatedAt', 'datetime2(7)', false],
+    ])
+    expect(data.rows).toEqual([
+      { Id: '9007199254740993', Name: null, Total: 12.5, CreatedAt: '2024-03-01T10:00:00.000Z' },
+    ])
+    expect(data.truncated).toBe(false)
+  })
+
+  it('should keep column metadata for empty results', () => {
+    const result = formatQueryResult(buildQueryResult(recordset([]), 10))
+
+    expect(result.content[0].text).toBe('Query executed successfully but returned no results.')
+    expect((result.structuredContent.columns as unknown[]).length).toBe(4)
+  })
+
+  it('should render markdown with the limit footer', () => {
+    const data = buildQueryResult(recordset([{ Id: '1', Name: 'a|b', Total: null, CreatedAt: null }]), 1)
+
+    expect(formatMarkdown(data)).toBe(
+      '| Id | Name | Total | CreatedAt |\n| --- | --- | --- | --- |\n| 1 | a\\|b | NULL | NULL |\n\n*1 rows returned (limit reached)*'
+    )
+  })
+
+  it('should quote CSV fields and distinguish NULL from empty strings', () => {
+    const data = buildQueryResult(
+      recordset([
+        { Id: '1', Name: 'Smith, "Jo"', Total: null, CreatedAt: null },
+        { Id: '2', Name: '', Total: 3, CreatedAt: null },
+      ]),
+      100
+    )
+
+    expect(formatCsv(data)).toBe('Id,Name,Total,CreatedAt\r\n1,"Smith, ""Jo""",,\r\n2,"",3,')
+  })
+})
@@ -0,0 +1,243 @@
+// Output formats for query results.
+//
+// Every result carries column metadata and JSON-safe row values as MCP
+// structured content; the format only decides how the text content renders.
+
+import sql from 'mssql'
+import { formatDataType } from './schemaResources'
+
+export const RESULT_FORMATS = ['markdown', 'json', 'csv', 'structured'] as const
+
+export type ResultFormat = (typeof RESULT_FORMATS)[number]
+
+export interface ColumnMetadata {
+  name: string
+  type: string
+  nullable: boolean
+  length?: number
+  precision?: number
+  scale?: number
+}
+
+export type ResultValue = string | number | boolean | null
+
+export interface QueryResultData {
+  columns: ColumnMetadata[]
+  rows: Record<string, ResultValue>[]
+  rowCount: number
+  limit: number
+  truncated: boolean
+  offset?: number
+  nextCursor?: string
+  // Columns changed or removed by the connection's masking rules
+  masked?: { column: string; action: string }[]
+}
+
+// Position of a page within a paged query
+export interface QueryPage {
+  offset: number
+  nextCursor?: string
+}
+
+// JSON Schema for the structured content, advertised as the tool's outputSchema
+export const QUERY_RESULT_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    columns: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', description: 'SQL Server data type, e.g. nvarchar(50)' },
+          nullable: { type: 'boolean' },
+          length: { type: 'number' },
+          precision: { type: 'number' },
+          scale: { type: 'number' },
+        },
+        required: ['name', 'type', 'nullable'],
+      },
+    },
+    rows: {
+      type: 'array',
+      items: { type: 'object', description: 'Row values keyed by column name' },
+    },
+    rowCount: { type: 'number' },
+    limit: { type: 'number' },
+    truncated: { type: 'boolean', description: 'True when more rows exist than were returned' },
+    offset: { type: 'number', description: 'Rows skipped before this page' },
+    nextCursor: { type: 'string', description: 'Pass to next_page to fetch the following rows' },
+    masked: {
+      type: 'array',
+      description: 'Columns masked by data masking rules (hash, partial, null) or dropped from the result (drop)',
+      items: {
+        type: 'object',
+        properties: {
+          column: { type: 'string' },
+          action: { type: 'string' },
+        },
+        required: ['column', 'action'],
+      },
+    },
+  },
+  required: ['columns', 'rows', 'rowCount', 'limit', 'truncated'],
+}
+
+export function isResultFormat(value: unknown): value is ResultFormat {
+  return typeof value === 'string' && (RESULT_FORMATS as readonly string[]).includes(value)
+}
+
+// Reads column metadata from recordset.columns, which mssql populates even
+// when no rows come back.
+export function describeColumns(recordset: sql.IRecordSet<any>): ColumnMetadata[] {
+  const columns = Object.values(recordset.columns || {}) as sql.IColumnMetadata[string][]
+
+  return columns
+    .sort((a, b) => a.index - b.index)
+    .map((col) => {
+      const length = maxLength(col)
+      const metadata: ColumnMetadata = {
+        name: col.name,
+        type: formatDataType(columnDeclaration(col), length, col.precision, col.scale),
+        nullable: col.nullable,
+      }
+      if (length !== undefined) metadata.length = length
+      if (col.precision !== undefined) metadata.precision = col.precision
+      if (col.scale !== undefined) metadata.scale = col.scale
+      return metadata
+    })
+}
+
+function columnDeclaration(col: sql.IColumnMetadata[string]): string {
+  return ((col.type as any)?.declaration as string | undefined) || 'sql_variant'
+}
+
+// Byte length as reported by tedious, with max types (0xFFFF) as -1 to match
+// sys.columns.max_length
+function maxLength(col: sql.IColumnMetadata[string]): number | undefined {
+  return col.length === 0xffff ? -1 : col.length
+}
+
+// Converts a driver value to something JSON can carry without losing
+// precision: bigint stays a string, binary becomes 0x-prefixed hex.
+export function toResultValue(value: unknown): ResultValue {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  if (Buffer.isBuffer(value)) return `0x${value.toString('hex').toUpperCase()}`
+  if (typeof value === 'bigint') return value.toString()
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value
+  return String(value)
+}
+
+// Builds the result for one page. Paged queries fetch one row past the page
+// size, so the extra row is dropped here and truncation is known exactly;
+// otherwise a full page is assumed to be truncated.
+export function buildQueryResult(recordset: sql.IRecordSet<any>, limit: number, page?: QueryPage): QueryResultData {
+  const columns = describeColumns(recordset)
+  const names = columns.length > 0 ? columns.map((col) => col.name) : Object.keys(recordset[0] || {})
+
+  const rows = recordset.slice(0, limit).map((row) => {
+    const values: Record<string, ResultValue> = {}
+    for (const name of names) {
+      values[name] = toResultValue(row[name])
+    }
+    return values
+  })
+
+  const data: QueryResultData = {
+    columns,
+    rows,
+    rowCount: rows.length,
+    limit,
+    truncated: page ? !!page.nextCursor : rows.length === limit,
+  }
+  if (page) {
+    data.offset = page.offset
+    if (page.nextCursor) data.nextCursor = page.nextCursor
+  }
+  return data
+}
+
+function columnNames(data: QueryResultData): string[] {
+  return data.columns.length > 0 ? data.columns.map((col) => col.name) : Object.keys(data.rows[0] || {})
+}
+
+function maskedNote(data: QueryResultData): string {
+  if (!data.masked || data.masked.length === 0) return ''
+  return `. Masked columns: ${data.masked.map((mask) => `${mask.column} (${mask.action})`).join(', ')}`
+}
+
+function rowCountFooter(data: QueryResultData): string {
+  const range =
+    data.offset !== undefined && data.rowCount > 0 ? ` (rows ${data.offset + 1}-${data.offset + data.rowCount})` : ''
+  if (data.nextCursor) {
+    return `${data.rowCount} rows returned${range}${maskedNote(data)}. More rows available: call next_page with cursor "${data.nextCursor}"`
+  }
+  return `${data.rowCount} rows returned${range}${data.truncated ? ' (limit reached)' : ''}${maskedNote(data)}`
+}
+
+export function formatMarkdown(data: QueryResultData): string {
+  if (data.rowCount === 0) {
+    return 'Query executed successfully but returned no results.'
+  }
+
+  const columns = columnNames(data)
+  const rows = data.rows.map((row) =>
+    columns.map((col) => {
+      const value = row[col]
+      if (value === null) return 'NULL'
+      if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+      return String(value).replace(/\|/g, '\\|') // Escape pipes for markdown
+    })
+  )
+
+  const header = `| ${columns.join(' | ')} |`
+  const separator = `| ${columns.map(() => '---').join(' | ')} |`
+  const dataRows = rows.map((row) => `| ${row.join(' | ')} |`)
+
+  return [header, separator, ...dataRows, '', `*${rowCountFooter(data)}*`].join('\n')
+}
+
+// RFC 4180 CSV. NULL is an empty field; an empty string is quoted so the
+// two stay distinguishable.
+export function formatCsv(data: QueryResultData): string {
+  const columns = columnNames(data)
+  const field = (value: ResultValue): string => {
+    if (value === null) return ''
+    const text = String(value)
+    return text === '' || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  return [
+    columns.map(field).join(','),
+    ...data.rows.map((row) => columns.map((col) => field(row[col])).join(',')),
+  ].join('\r\n')
+}
+
+export function formatQueryResult(data: QueryResultData, format: ResultFormat = 'markdown') {
+  let text: string
+  switch (format) {
+    case 'json':
+      text = JSON.stringify(data, null, 2)
+      break
+    case 'csv':
+      text = formatCsv(data)
+      break
+    case 'structured':
+      text = `${rowCountFooter(data)}. Rows and column metadata are in the structured content.`
+      break
+    default:
+      text = formatMarkdown(data)
+  }
+
+  const content = [{ type: 'text' as const, text }]
+  if (format === 'csv' && data.nextCursor) {
+    // Kept out of the CSV itself so the text stays parseable
+    content.push({ type: 'text' as const, text: rowCountFooter(data) })
+  }
+
+  return {
+    content,
+    structuredContent: data as unknown as Record<string, unknown>,
+  }
+}
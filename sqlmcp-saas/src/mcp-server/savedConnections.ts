@@ -0,0 +1,28 @@
+// Connections saved from the dashboard, opened by the MCP server so that
+// credentials never pass through tool arguments.
+
+export interface SavedConnection {
+  id: string
+  name: string
+  server: string
+  database: string
+  port: number
+  user: string
+  // Decrypted server-side; never returned to the client
+  password: string
+  trustServerCertificate: boolean
+  // Connect with ApplicationIntent=ReadOnly
+  readOnlyIntent: boolean
+  allowedProcedures: string[]
+  // Tables execute_dml may change; empty unless write mode is on
+  writableTables: string[]
+}
+
+export interface ConnectionStore {
+  // Finds one of the user's active saved connections by ID or name
+  findConnection(userId: string, nameOrId: string): Promise<SavedConnection | null>
+  // Names of the user's active saved connections, for error messages
+  listConnectionNames(userId: string): Promise<string[]>
+  // Account policy: may connect_database take credentials in tool arguments?
+  allowsRawCredentials(userId: string): Promise<boolean>
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { buildResourceUri, parseResourceUri, formatDataType, buildTableDdl } from './schemaResources'
+
+describe('Schema Resources', () => {
+  it('should round-trip resource URIs with special characters', () => {
+    const address = { connection: 'Sales DB', schema: 'dbo', object: 'Order/Lines' }
+    const uri = buildResourceUri(address)
+
+    expect(uri).toBe('sqlserver://Sales%20DB/dbo/Order%2FLines')
+    expect(parseResourceUri(uri)).toEqual(address)
+  })
+
+  it('should reject URIs that do not match the template', () => {
+    expect(() => parseResourceUri('sqlserver://db/dbo')).toThrow('Invalid resource URI')
+  })
+
+  it('should format lengths, precision and scale', () => {
+    expect(formatDataType('nvarchar', 100, 0, 0)).toBe('nvarchar(50)')
+    expect(formatDataType('varchar', -1, 0, 0)).toBe('varchar(max)')
+    expect(formatDataType('decimal', 9, 18, 2)).toBe('decimal(18,2)')
+    expect(formatDataType('int', 4, 10, 0)).toBe('int')
+  })
+
+  it('should rebuild table DDL from column metadata', () => {
+    const ddl = buildTableDdl('dbo', 'Orders', [
+      {
+        name: 'Id',
+        dataType: 'int',
+        isNullable: false,
+        isIdentity: true,
+        isComputed: false,
+        defaultDefinition: null,
+        computedDefinition: null,
+        isPrimaryKey: true,
+      },
+      {
+        name: 'CreatedAt',
+        dataType: 'datetime2(7)',
+        isNullable: false,
+        isIdentity: false,
+        isComputed: false,
+        defaultDefinition: '(sysutcdatetime())',
+        computedDefinition: null,
+        isPrimaryKey: false,
+      },
+    ])
+
+    expect(ddl).toBe(
+      'CREATE TABLE [dbo].[Orders] (\n' +
+        '  [Id] int IDENTITY(1,1) NOT NULL,\n' +
+        '  [CreatedAt] datetime2(7) NOT NULL DEFAULT (sysutcdatetime()),\n' +
+        '  PRIMARY KEY ([Id])\n' +
+        ')'
+    )
+  })
+})
@@ -0,0 +1,128 @@
+// Helpers for exposing schema objects as MCP resources.
+//
+// Every table, view, stored procedure and function is a resource with a URI
+// of the form sqlserver://{connection}/{schema}/{object}.
+
+export const RESOURCE_URI_TEMPLATE = 'sqlserver://{connection}/{schema}/{object}'
+
+// sys.objects types exposed as resources
+export const RESOURCE_OBJECT_TYPES: Record<string, string> = {
+  U: 'Table',
+  V: 'View',
+  P: 'Stored Procedure',
+  FN: 'Scalar Function',
+  IF: 'Inline Table-valued Function',
+  TF: 'Table-valued Function',
+}
+
+export interface ResourceAddress {
+  connection: string
+  schema: string
+  object: string
+}
+
+export interface ColumnDefinition {
+  name: string
+  dataType: string
+  isNullable: boolean
+  isIdentity: boolean
+  isComputed: boolean
+  defaultDefinition: string | null
+  computedDefinition: string | null
+  isPrimaryKey: boolean
+}
+
+export interface ParameterDefinition {
+  name: string
+  dataType: string
+  isOutput: boolean
+  hasDefault: boolean
+}
+
+export function buildResourceUri(address: ResourceAddress): string {
+  return `sqlserver://${encodeURIComponent(address.connection)}/${encodeURIComponent(
+    address.schema
+  )}/${encodeURIComponent(address.object)}`
+}
+
+export function parseResourceUri(uri: string): ResourceAddress {
+  const match = /^sqlserver:\/\/([^/]+)\/([^/]+)\/([^/]+)$/.exec(uri)
+  if (!match) {
+    throw new Error(`Invalid resource URI '${uri}'. Expected ${RESOURCE_URI_TEMPLATE}`)
+  }
+
+  return {
+    connection: decodeURIComponent(match[1]),
+    schema: decodeURIComponent(match[2]),
+    object: decodeURIComponent(match[3]),
+  }
+}
+
+// Formats a sys.types name with the length/precision/scale from sys.columns or
+// sys.parameters. max_length is in bytes, so Unicode types are halved.
+export function formatDataType(typeName: string, maxLength: number, precision: number, scale: number): string {
+  const type = typeName.toLowerCase()
+
+  if (['varchar', 'char', 'varbinary', 'binary'].includes(type)) {
+    return `${type}(${maxLength === -1 ? 'max' : maxLength})`
+  }
+  if (['nvarchar', 'nchar'].includes(type)) {
+    return `${type}(${maxLength === -1 ? 'max' : maxLength / 2})`
+  }
+  if (['decimal', 'numeric'].includes(type)) {
+    return `${type}(${precision},${scale})`
+  }
+  if (['datetime2', 'datetimeoffset', 'time'].includes(type)) {
+    return `${type}(${scale})`
+  }
+  return type
+}
+
+function quoteName(name: string): string {
+  return `[${name.replace(/\]/g, ']]')}]`
+}
+
+// SQL Server has no OBJECT_DEFINITION for tables, so table DDL is rebuilt
+// from the column metadata.
+export function buildTableDdl(schema: string, table: string, columns: ColumnDefinition[]): string {
+  const lines = columns.map((col) => {
+    if (col.isComputed && col.computedDefinition) {
+      return `  ${quoteName(col.name)} AS ${col.computedDefinition}`
+    }
+
+    const parts = [quoteName(col.name), col.dataType]
+    if (col.isIdentity) parts.push('IDENTITY(1,1)')
+    parts.push(col.isNullable ? 'NULL' : 'NOT NULL')
+    if (col.defaultDefinition) parts.push(`DEFAULT ${col.defaultDefinition}`)
+    return `  ${parts.join(' ')}`
+  })
+
+  const primaryKey = columns.filter((col) => col.isPrimaryKey).map((col) => quoteName(col.name))
+  if (primaryKey.length > 0) {
+    lines.push(`  PRIMARY KEY (${primaryKey.join(', ')})`)
+  }
+
+  return `CREATE TABLE ${quoteName(schema)}.${quoteName(table)} (\n${lines.join(',\n')}\n)`
+}
+
+export function formatColumnDefinitions(columns: ColumnDefinition[]): string[] {
+  return columns.map((col) => {
+    const attributes = []
+    if (!col.isNullable) attributes.push('NOT NULL')
+    if (col.isPrimaryKey) attributes.push('PRIMARY KEY')
+    if (col.isIdentity) attributes.push('IDENTITY')
+    if (col.isComputed) attributes.push(`COMPUTED ${col.computedDefinition}`)
+    if (col.defaultDefinition) attributes.push(`DEFAULT ${col.defaultDefinition}`)
+
+    return `- ${col.name}: ${col.dataType}${attributes.length > 0 ? ` ${attributes.join(' ')}` : ''}`
+  })
+}
+
+export function formatParameterDefinitions(parameters: ParameterDefinition[]): string[] {
+  return parameters.map(
+    (param) =>
+      `- ${param.name}: ${param.dataType}${param.isOutput ? ' OUTPUT' : ''}${
+        param.hasDefault ? ' (optional)' : ''
+      }`
+  )
+}
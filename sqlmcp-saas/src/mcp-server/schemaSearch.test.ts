@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseSearchPattern,
+  typeCodesFor,
+  rankSearchResults,
+  formatSearchResults,
+  definitionContext,
+  SchemaSearchRow,
+} from './schemaSearch'
+
+function row(overrides: Partial<SchemaSearchRow>): SchemaSearchRow {
+  return {
+    OBJECT_TYPE: 'U ',
+    SCHEMA_NAME: 'dbo',
+    OBJECT_NAME: 'Orders',
+    MATCH_KIND: 'name',
+    COLUMN_NAME: null,
+    MATCH_TEXT: null,
+    MATCH_LINE: null,
+    ...overrides,
+  }
+}
+
+describe('Schema search', () => {
+  it('should turn keywords and wildcards into escaped LIKE patterns', () => {
+    expect(parseSearchPattern('order_id').like).toBe('%order[_]id%')
+    const wildcard = parseSearchPattern('Cust*Id?')
+    expect(wildcard.like).toBe('Cust%Id_')
+    expect(wildcard.textLike).toBe('%Cust%Id_%')
+    expect(wildcard.regex.test('CustomerIds')).toBe(true)
+    expect(wildcard.regex.test('OldCustomerIds')).toBe(false)
+    expect(typeCodesFor(['view', 'function'])).toEqual(['V', 'FN', 'IF', 'TF'])
+    expect(() => parseSearchPattern('  ')).toThrow('Search query is required')
+  })
+
+  it('should rank exact names above columns, descriptions and routine bodies', () => {
+    const pattern = parseSearchPattern('customer')
+    const results = rankSearchResults(
+      [
+        row({ OBJECT_NAME: 'Customer' }),
+        row({ OBJECT_NAME: 'CustomerNotes' }),
+        row({ MATCH_KIND: 'column', COLUMN_NAME: 'CustomerId', MATCH_TEXT: 'int' }),
+        row({ MATCH_KIND: 'description', COLUMN_NAME: 'Notes', MATCH_TEXT: 'Free text from the customer' }),
+        row({
+          OBJECT_TYPE: 'P ',
+          OBJECT_NAME: 'GetOrders',
+          MATCH_KIND: 'definition',
+          MATCH_TEXT: 'AS\nSELECT *\nFROM dbo.Customer c',
+          MATCH_LINE: 12,
+        }),
+        // Matched by LIKE's accent-insensitive collation only
+        row({ OBJECT_NAME: 'Cüstomer' }),
+      ],
+      pattern
+    )
+
+    expect(results.map((r) => `${r.name}:${r.score}`)).toEqual([
+      'Customer:100',
+      'CustomerNotes:70',
+      'Orders:41',
+      'GetOrders:10',
+    ])
+    expect(results[3]).toMatchObject({
+      objectType: 'Stored Procedure',
+      matches: [{ kind: 'definition', context: 'line 12: FROM dbo.Customer c' }],
+    })
+  })
+
+  it('should page results and show match context', () => {
+    const pattern = parseSearchPattern('customer')
+    const results = rankSearchResults(
+      [
+        row({ MATCH_KIND: 'column', COLUMN_NAME: 'CustomerId', MATCH_TEXT: 'int' }),
+        row({ MATCH_KIND: 'description', COLUMN_NAME: 'Notes', MATCH_TEXT: 'Free text from the customer' }),
+      ],
+      pattern
+    )
+
+    expect(formatSearchResults('customer', results, 3, 0)).toBe(
+      "Found 3 objects matching 'customer' (showing 1-1):\n\n" +
+        '- dbo.Orders (Table)\n' +
+        '  - column CustomerId (int)\n' +
+        '  - description of Notes: "Free text from the customer"\n\n' +
+        'More results available. Call search_schema again with offset: 1.'
+    )
+    expect(definitionContext(`${'x'.repeat(200)} customer ${'y'.repeat(200)}`, pattern.textRegex, 40)).toBe(
+      `...${'x'.repeat(12)} customer ${'y'.repeat(18)}...`
+    )
+  })
+})
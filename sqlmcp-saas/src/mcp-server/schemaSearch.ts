@@ -0,0 +1,241 @@
+// Keyword and wildcard search over schema metadata: object names, column
+// names, MS_Description extended properties and routine bodies.
+//
+// The database narrows the candidates with LIKE; ranking and match context
+// are worked out here so every kind of match is scored the same way.
+
+import { RESOURCE_OBJECT_TYPES } from './schemaResources'
+
+export const SEARCH_OBJECT_TYPES = ['table', 'view', 'procedure', 'function'] as const
+export type SearchObjectType = (typeof SEARCH_OBJECT_TYPES)[number]
+
+// Results per page
+export const DEFAULT_SEARCH_LIMIT = 20
+export const MAX_SEARCH_LIMIT = 100
+
+export type SearchMatchKind = 'name' | 'column' | 'description' | 'definition'
+
+// sys.objects type codes for each search filter
+const TYPE_CODES: Record<SearchObjectType, string[]> = {
+  table: ['U'],
+  view: ['V'],
+  procedure: ['P'],
+  function: ['FN', 'IF', 'TF'],
+}
+
+// One row per candidate match, as returned by the search query
+export interface SchemaSearchRow {
+  OBJECT_TYPE: string
+  SCHEMA_NAME: string
+  OBJECT_NAME: string
+  MATCH_KIND: SearchMatchKind
+  COLUMN_NAME: string | null
+  // Column type, description, or the part of a routine body around the match
+  MATCH_TEXT: string | null
+  // Line of the routine body holding the first match
+  MATCH_LINE: number | null
+}
+
+export interface SearchPattern {
+  text: string
+  wildcard: boolean
+  // LIKE patterns for names and for free text; special characters are
+  // bracket-escaped so the same patterns work with PATINDEX
+  like: string
+  textLike: string
+  regex: RegExp
+  textRegex: RegExp
+}
+
+export interface SearchMatch {
+  kind: SearchMatchKind
+  column?: string
+  context: string
+}
+
+export interface SchemaSearchResult {
+  objectType: string
+  schema: string
+  name: string
+  score: number
+  matches: SearchMatch[]
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// A plain keyword matches anywhere. '*' (or '%') matches any run of
+// characters and '?' a single one; a pattern with wildcards must match
+// the whole name, so 'Order*' finds names that start with Order.
+export function parseSearchPattern(input: string): SearchPattern {
+  const text = (input || '').trim()
+  if (!text) {
+    throw new Error('Search query is required')
+  }
+  if (text.length > 128) {
+    throw new Error('Search query is too long (max 128 characters)')
+  }
+
+  const wildcard = /[*%?]/.test(text)
+  let like = ''
+  let regex = ''
+  for (const char of text) {
+    if (char === '*' || char === '%') {
+      like += '%'
+      regex += '.*?'
+    } else if (char === '?') {
+      like += '_'
+      regex += '.'
+    } else {
+      like += /[_[]/.test(char) ? `[${char}]` : char
+      regex += escapeRegex(char)
+    }
+  }
+
+  // Descriptions and routine bodies are free text, so even a wildcard
+  // pattern is matched anywhere within them
+  return {
+    text,
+    wildcard,
+    like: wildcard ? like : `%${like}%`,
+    textLike: `%${like}%`,
+    regex: new RegExp(wildcard ? `^${regex}$` : regex, 'i'),
+    textRegex: new RegExp(regex, 'i'),
+  }
+}
+
+export function typeCodesFor(types: SearchObjectType[]): string[] {
+  const selected = types.length > 0 ? types : [...SEARCH_OBJECT_TYPES]
+  return selected.flatMap((type) => TYPE_CODES[type])
+}
+
+export function isSearchObjectType(value: unknown): value is SearchObjectType {
+  return typeof value === 'string' && (SEARCH_OBJECT_TYPES as readonly string[]).includes(value)
+}
+
+// The first matching line of a routine body excerpt, cut down to width
+// characters around the match
+export function definitionContext(excerpt: string, regex: RegExp, width = 100): string | null {
+  for (const rawLine of excerpt.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    const match = regex.exec(line)
+    if (!match) continue
+    if (line.length <= width) return line
+
+    const start = Math.max(0, Math.min(match.index - Math.floor(width / 3), line.length - width))
+    return `${start > 0 ? '...' : ''}${line.substring(start, start + width)}${start + width < line.length ? '...' : ''}`
+  }
+  return null
+}
+
+function truncate(text: string, length = 120): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  return flat.length > length ? `${flat.substring(0, length - 3)}...` : flat
+}
+
+function scoreName(name: string, pattern: SearchPattern, exact: number, partial: number): number {
+  if (!pattern.regex.test(name)) return 0
+  if (pattern.wildcard) return partial
+
+  const keyword = pattern.text.toLowerCase()
+  if (name.toLowerCase() === keyword) return exact
+  return name.toLowerCase().startsWith(keyword) ? partial + 10 : partial
+}
+
+// Groups candidate rows by object and ranks them. An object scores its best
+// match, plus a point for each further match, so a table whose name and
+// several columns match ranks above one that matches once.
+export function rankSearchResults(rows: SchemaSearchRow[], pattern: SearchPattern): SchemaSearchResult[] {
+  const results = new Map<string, SchemaSearchResult & { best: number }>()
+
+  for (const row of rows) {
+    let score = 0
+    let match: SearchMatch | null = null
+
+    if (row.MATCH_KIND === 'name') {
+      score = scoreName(row.OBJECT_NAME, pattern, 100, 60)
+      match = { kind: 'name', context: row.OBJECT_NAME }
+    } else if (row.MATCH_KIND === 'column' && row.COLUMN_NAME) {
+      score = scoreName(row.COLUMN_NAME, pattern, 50, 30)
+      match = { kind: 'column', column: row.COLUMN_NAME, context: row.MATCH_TEXT || '' }
+    } else if (row.MATCH_KIND === 'description' && row.MATCH_TEXT && pattern.textRegex.test(row.MATCH_TEXT)) {
+      score = 20
+      match = { kind: 'description', column: row.COLUMN_NAME || undefined, context: truncate(row.MATCH_TEXT) }
+    } else if (row.MATCH_KIND === 'definition' && row.MATCH_TEXT) {
+      const context = definitionContext(row.MATCH_TEXT, pattern.textRegex)
+      if (context) {
+        score = 10
+        match = { kind: 'definition', context: row.MATCH_LINE ? `line ${row.MATCH_LINE}: ${context}` : context }
+      }
+    }
+
+    // LIKE ignores accents and trailing spaces; drop the candidates the
+    // pattern does not actually match
+    if (!match || score === 0) continue
+
+    const key = `${row.SCHEMA_NAME}.${row.OBJECT_NAME}`.toLowerCase()
+    let result = results.get(key)
+    if (!result) {
+      result = {
+        objectType: RESOURCE_OBJECT_TYPES[row.OBJECT_TYPE.trim()] || row.OBJECT_TYPE,
+        schema: row.SCHEMA_NAME,
+        name: row.OBJECT_NAME,
+        score: 0,
+        best: 0,
+        matches: [],
+      }
+      results.set(key, result)
+    }
+    result.matches.push(match)
+    result.best = Math.max(result.best, score)
+    result.score = result.best + result.matches.length - 1
+  }
+
+  return Array.from(results.values())
+    .sort((a, b) => b.score - a.score || `${a.schema}.${a.name}`.localeCompare(`${b.schema}.${b.name}`))
+    .map(({ best, ...result }) => result)
+}
+
+function formatMatch(match: SearchMatch): string {
+  switch (match.kind) {
+    case 'name':
+      return 'name'
+    case 'column':
+      return `column ${match.column}${match.context ? ` (${match.context})` : ''}`
+    case 'description':
+      return `description${match.column ? ` of ${match.column}` : ''}: "${match.context}"`
+    case 'definition':
+      return `definition, ${match.context}`
+  }
+}
+
+export function formatSearchResults(
+  query: string,
+  results: SchemaSearchResult[],
+  total: number,
+  offset: number
+): string {
+  if (total === 0) {
+    return `No schema objects match '${query}'.`
+  }
+  if (results.length === 0) {
+    return `No more results for '${query}' (${total} in total).`
+  }
+
+  const lines = [`Found ${total} objects matching '${query}' (showing ${offset + 1}-${offset + results.length}):`, '']
+  for (const result of results) {
+    lines.push(`- ${result.schema}.${result.name} (${result.objectType})`)
+    for (const match of result.matches.slice(0, 5)) {
+      lines.push(`  - ${formatMatch(match)}`)
+    }
+    if (result.matches.length > 5) {
+      lines.push(`  - ...and ${result.matches.length - 5} more matches`)
+    }
+  }
+
+  if (offset + results.length < total) {
+    lines.push('', `More results available. Call search_schema again with offset: ${offset + results.length}.`)
+  }
+  return lines.join('\n')
+}
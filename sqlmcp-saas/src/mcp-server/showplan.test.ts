@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { parseShowplan, formatPlanSummary } from './showplan'
+
+const planXml = `<?xml version="1.0" encoding="utf-16"?>
+<ShowPlanXML xmlns="http://schemas.microsoft.com/sqlserver/2004/07/showplan" Version="1.564" Build="16.0.1000.6">
+  <BatchSequence>
+    <Batch>
+      <Statements>
+        <StmtSimple StatementText="SELECT o.Id FROM dbo.Orders o JOIN dbo.Customers c ON c.Id = o.CustomerId WHERE o.Code = 42" StatementId="1" StatementType="SELECT" StatementSubTreeCost="1.25" StatementEstRows="120">
+          <QueryPlan CachedPlanSize="32">
+            <Warnings>
+              <PlanAffectingConvert ConvertIssue="Seek Plan" Expression="CONVERT_IMPLICIT(int,[o].[Code],0)=(42)" />
+            </Warnings>
+            <MissingIndexes>
+              <MissingIndexGroup Impact="87.5">
+                <MissingIndex Database="[Shop]" Schema="[dbo]" Table="[Orders]">
+                  <ColumnGroup Usage="EQUALITY">
+                    <Column Name="[Code]" ColumnId="4" />
+                  </ColumnGroup>
+                  <ColumnGroup Usage="INCLUDE">
+                    <Column Name="[CustomerId]" ColumnId="2" />
+                  </ColumnGroup>
+                </MissingIndex>
+              </MissingIndexGroup>
+            </MissingIndexes>
+            <RelOp NodeId="0" PhysicalOp="Nested Loops" LogicalOp="Inner Join" EstimateRows="120" EstimatedTotalSubtreeCost="1.25">
+              <NestedLoops Optimized="0">
+                <RelOp NodeId="1" PhysicalOp="Clustered Index Scan" LogicalOp="Clustered Index Scan" EstimateRows="120" EstimatedTotalSubtreeCost="1.0">
+                  <IndexScan Ordered="0">
+                    <Object Database="[Shop]" Schema="[dbo]" Table="[Orders]" Index="[PK_Orders]" />
+                  </IndexScan>
+                </RelOp>
+                <RelOp NodeId="2" PhysicalOp="Clustered Index Seek" LogicalOp="Clustered Index Seek" EstimateRows="1" EstimatedTotalSubtreeCost="0.2">
+                  <IndexScan Ordered="1">
+                    <Object Database="[Shop]" Schema="[dbo]" Table="[Customers]" Index="[PK_Customers]" />
+                  </IndexScan>
+                </RelOp>
+              </NestedLoops>
+            </RelOp>
+          </QueryPlan>
+        </StmtSimple>
+      </Statements>
+    </Batch>
+  </BatchSequence>
+</ShowPlanXML>`
+
+describe('Showplan Parser', () => {
+  it('should summarize cost, rows and the operator tree', () => {
+    const summary = parseShowplan(planXml)
+    const [statement] = summary.statements
+
+    expect(summary.estimatedCost).toBe(1.25)
+    expect(summary.estimatedRows).toBe(120)
+    expect(statement.root?.physicalOp).toBe('Nested Loops')
+    expect(statement.root?.children.map((op) => op.object)).toEqual([
+      '[dbo].[Orders].[PK_Orders]',
+      '[dbo].[Customers].[PK_Customers]',
+    ])
+    expect(statement.root?.estimatedCost).toBeCloseTo(0.05)
+  })
+
+  it('should rank operators by their own cost', () => {
+    const [statement] = parseShowplan(planXml).statements
+
+    expect(statement.expensiveOperators[0]).toMatchObject({
+      nodeId: 1,
+      physicalOp: 'Clustered Index Scan',
+      costPercent: 80,
+    })
+  })
+
+  it('should separate scans from seeks', () => {
+    const [statement] = parseShowplan(planXml).statements
+
+    expect(statement.scans.map((s) => s.object)).toEqual(['[dbo].[Orders].[PK_Orders]'])
+    expect(statement.seeks.map((s) => s.object)).toEqual(['[dbo].[Customers].[PK_Customers]'])
+  })
+
+  it('should report missing indexes and implicit conversions', () => {
+    const [statement] = parseShowplan(planXml).statements
+
+    expect(statement.missingIndexes).toEqual([
+      {
+        table: '[dbo].[Orders]',
+        impact: 87.5,
+        equalityColumns: ['[Code]'],
+        inequalityColumns: [],
+        includeColumns: ['[CustomerId]'],
+        createStatement:
+          'CREATE NONCLUSTERED INDEX [IX_Orders_Code] ON [dbo].[Orders] ([Code]) INCLUDE ([CustomerId])',
+      },
+    ])
+    expect(statement.implicitConversions).toEqual([
+      { issue: 'Seek Plan', expression: 'CONVERT_IMPLICIT(int,[o].[Code],0)=(42)' },
+    ])
+  })
+
+  it('should format a readable summary', () => {
+    const text = formatPlanSummary(parseShowplan(planXml))
+
+    expect(text).toContain('Estimated cost: 1.2500')
+    expect(text).toContain('- [1] Clustered Index Scan on [dbo].[Orders].[PK_Orders]: 80%')
+    expect(text).toContain('Scans: 1, Seeks: 1')
+    expect(text).toContain('Missing index suggestions:')
+    expect(text).toContain('Implicit conversion warnings:')
+  })
+
+  it('should reject documents that are not showplans', () => {
+    expect(() => parseShowplan('<root />')).toThrow('Result is not a SHOWPLAN_XML document')
+  })
+})
@@ -0,0 +1,282 @@
+// Parses SHOWPLAN_XML output into a plan summary the AI can reason about.
+
+import { XMLParser } from 'fast-xml-parser'
+
+export interface PlanOperator {
+  nodeId: number
+  physicalOp: string
+  logicalOp: string
+  object?: string
+  estimatedRows: number
+  estimatedCost: number // Cost of this operator alone
+  subtreeCost: number
+  costPercent: number
+  children: PlanOperator[]
+}
+
+export interface PlanAccess {
+  nodeId: number
+  physicalOp: string
+  object: string
+  estimatedRows: number
+}
+
+export interface MissingIndex {
+  table: string
+  impact: number
+  equalityColumns: string[]
+  inequalityColumns: string[]
+  includeColumns: string[]
+  createStatement: string
+}
+
+export interface ImplicitConversion {
+  issue: string
+  expression: string
+}
+
+export interface StatementPlan {
+  statement: string
+  statementType: string
+  estimatedCost: number
+  estimatedRows: number
+  root?: PlanOperator
+  expensiveOperators: Omit<PlanOperator, 'children'>[]
+  scans: PlanAccess[]
+  seeks: PlanAccess[]
+  missingIndexes: MissingIndex[]
+  implicitConversions: ImplicitConversion[]
+}
+
+export interface PlanSummary {
+  estimatedCost: number
+  estimatedRows: number
+  statements: StatementPlan[]
+}
+
+type XmlNode = Record<string, any>
+
+const ARRAY_ELEMENTS = new Set([
+  'StmtSimple', 'RelOp', 'MissingIndexGroup', 'MissingIndex', 'ColumnGroup', 'Column',
+  'PlanAffectingConvert', 'Object', 'Batch', 'Statements',
+])
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseAttributeValue: false,
+  isArray: (tagName) => ARRAY_ELEMENTS.has(tagName),
+})
+
+const MAX_EXPENSIVE_OPERATORS = 5
+const MAX_TREE_LINES = 40
+
+function toNumber(value: unknown): number {
+  const parsed = parseFloat(String(value ?? '0'))
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+// Collects nodes with the given element name below `node`, without descending
+// into matches (so nested RelOps are returned as children, not grandchildren).
+function findElements(node: unknown, name: string, found: XmlNode[] = []): XmlNode[] {
+  if (Array.isArray(node)) {
+    node.forEach((child) => findElements(child, name, found))
+  } else if (node && typeof node === 'object') {
+    for (const [key, value] of Object.entries(node)) {
+      if (key === name) {
+        found.push(...(Array.isArray(value) ? value : [value]))
+      } else if (typeof value === 'object') {
+        findElements(value, name, found)
+      }
+    }
+  }
+  return found
+}
+
+function formatObject(object: XmlNode): string {
+  return [object.Schema, object.Table, object.Index].filter(Boolean).join('.')
+}
+
+function parseOperator(relOp: XmlNode, statementCost: number): PlanOperator {
+  // Objects belong to this operator only if they are not inside a child RelOp
+  const childRelOps = findElements(relOp, 'RelOp')
+  const objects = findElements(stripRelOps(relOp), 'Object')
+
+  const children = childRelOps.map((child) => parseOperator(child, statementCost))
+  const subtreeCost = toNumber(relOp.EstimatedTotalSubtreeCost)
+  const childCost = children.reduce((sum, child) => sum + child.subtreeCost, 0)
+  const estimatedCost = Math.max(0, subtreeCost - childCost)
+
+  return {
+    nodeId: toNumber(relOp.NodeId),
+    physicalOp: relOp.PhysicalOp,
+    logicalOp: relOp.LogicalOp,
+    object: objects.length > 0 ? formatObject(objects[0]) : undefined,
+    estimatedRows: toNumber(relOp.EstimateRows),
+    estimatedCost,
+    subtreeCost,
+    costPercent: statementCost > 0 ? Math.round((estimatedCost / statementCost) * 1000) / 10 : 0,
+    children,
+  }
+}
+
+function stripRelOps(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(stripRelOps)
+  if (!node || typeof node !== 'object') return node
+  return Object.fromEntries(
+    Object.entries(node)
+      .filter(([key]) => key !== 'RelOp')
+      .map(([key, value]) => [key, stripRelOps(value)])
+  )
+}
+
+function flatten(operator: PlanOperator | undefined): PlanOperator[] {
+  if (!operator) return []
+  return [operator, ...operator.children.flatMap(flatten)]
+}
+
+function parseMissingIndexes(queryPlan: XmlNode): MissingIndex[] {
+  return findElements(queryPlan, 'MissingIndexGroup').flatMap((group) =>
+    findElements(group, 'MissingIndex').map((index) => {
+      const columns = (usage: string) =>
+        findElements(index, 'ColumnGroup')
+          .filter((columnGroup) => columnGroup.Usage === usage)
+          .flatMap((columnGroup) => findElements(columnGroup, 'Column').map((column) => column.Name as string))
+
+      const table = `${index.Schema}.${index.Table}`
+      const equalityColumns = columns('EQUALITY')
+      const inequalityColumns = columns('INEQUALITY')
+      const includeColumns = columns('INCLUDE')
+      const keyColumns = [...equalityColumns, ...inequalityColumns]
+
+      return {
+        table,
+        impact: toNumber(group.Impact),
+        equalityColumns,
+        inequalityColumns,
+        includeColumns,
+        createStatement: `CREATE NONCLUSTERED INDEX [IX_${String(index.Table).replace(/[\[\]]/g, '')}_${keyColumns
+          .map((c) => c.replace(/[\[\]]/g, ''))
+          .join('_')}] ON ${table} (${keyColumns.join(', ')})${
+          includeColumns.length > 0 ? ` INCLUDE (${includeColumns.join(', ')})` : ''
+        }`,
+      }
+    })
+  )
+}
+
+function parseStatement(stmt: XmlNode): StatementPlan {
+  const estimatedCost = toNumber(stmt.StatementSubTreeCost)
+  const queryPlan = stmt.QueryPlan ?? {}
+  const rootRelOp = findElements(queryPlan, 'RelOp')[0]
+  const root = rootRelOp ? parseOperator(rootRelOp, estimatedCost) : undefined
+  const operators = flatten(root)
+
+  const access = (kind: string): PlanAccess[] =>
+    operators
+      .filter((op) => op.object && op.physicalOp.includes(kind))
+      .map((op) => ({
+        nodeId: op.nodeId,
+        physicalOp: op.physicalOp,
+        object: op.object!,
+        estimatedRows: op.estimatedRows,
+      }))
+
+  return {
+    statement: String(stmt.StatementText ?? '').trim(),
+    statementType: stmt.StatementType ?? 'UNKNOWN',
+    estimatedCost,
+    estimatedRows: toNumber(stmt.StatementEstRows),
+    root,
+    expensiveOperators: [...operators]
+      .sort((a, b) => b.estimatedCost - a.estimatedCost)
+      .slice(0, MAX_EXPENSIVE_OPERATORS)
+      .map(({ children, ...op }) => op),
+    scans: access('Scan'),
+    seeks: access('Seek'),
+    missingIndexes: parseMissingIndexes(queryPlan),
+    implicitConversions: findElements(queryPlan, 'PlanAffectingConvert').map((warning) => ({
+      issue: warning.ConvertIssue,
+      expression: warning.Expression,
+    })),
+  }
+}
+
+export function parseShowplan(planXml: string | string[]): PlanSummary {
+  const documents = Array.isArray(planXml) ? planXml : [planXml]
+  const statements = documents.flatMap((xml) => {
+    const parsed = parser.parse(xml)
+    if (!parsed.ShowPlanXML) {
+      throw new Error('Result is not a SHOWPLAN_XML document')
+    }
+    return findElements(parsed.ShowPlanXML, 'StmtSimple').map(parseStatement)
+  })
+
+  return {
+    estimatedCost: statements.reduce((sum, s) => sum + s.estimatedCost, 0),
+    estimatedRows: statements.length > 0 ? statements[statements.length - 1].estimatedRows : 0,
+    statements,
+  }
+}
+
+function formatCost(cost: number): string {
+  return cost < 0.001 && cost > 0 ? cost.toExponential(2) : cost.toFixed(4)
+}
+
+function describeOperator(op: Omit<PlanOperator, 'children'>): string {
+  const name = op.logicalOp && op.logicalOp !== op.physicalOp ? `${op.physicalOp} (${op.logicalOp})` : op.physicalOp
+  return `${name}${op.object ? ` on ${op.object}` : ''}`
+}
+
+export function formatPlanSummary(summary: PlanSummary): string {
+  const lines: string[] = [
+    `Estimated cost: ${formatCost(summary.estimatedCost)}`,
+    `Estimated rows: ${Math.round(summary.estimatedRows).toLocaleString()}`,
+  ]
+
+  summary.statements.forEach((stmt, index) => {
+    lines.push('', `Statement ${index + 1} (${stmt.statementType}): cost ${formatCost(stmt.estimatedCost)}, ~${Math.round(
+      stmt.estimatedRows
+    ).toLocaleString()} rows`)
+
+    if (stmt.expensiveOperators.length > 0) {
+      lines.push('', 'Most expensive operators:')
+      stmt.expensiveOperators.forEach((op) =>
+        lines.push(`- [${op.nodeId}] ${describeOperator(op)}: ${op.costPercent}% (~${Math.round(op.estimatedRows).toLocaleString()} rows)`)
+      )
+    }
+
+    if (stmt.root) {
+      lines.push('', 'Operator tree:')
+      const treeLines: string[] = []
+      const walk = (op: PlanOperator, depth: number) => {
+        treeLines.push(`${'  '.repeat(depth)}- [${op.nodeId}] ${describeOperator(op)} (${op.costPercent}%)`)
+        op.children.forEach((child) => walk(child, depth + 1))
+      }
+      walk(stmt.root, 0)
+      lines.push(...treeLines.slice(0, MAX_TREE_LINES))
+      if (treeLines.length > MAX_TREE_LINES) {
+        lines.push(`  ... ${treeLines.length - MAX_TREE_LINES} more operators`)
+      }
+    }
+
+    lines.push('', `Scans: ${stmt.scans.length}, Seeks: ${stmt.seeks.length}`)
+    stmt.scans.forEach((scan) =>
+      lines.push(`- ${scan.physicalOp} on ${scan.object} (~${Math.round(scan.estimatedRows).toLocaleString()} rows)`)
+    )
+
+    if (stmt.missingIndexes.length > 0) {
+      lines.push('', 'Missing index suggestions:')
+      stmt.missingIndexes.forEach((index) =>
+        lines.push(`- ${index.table} (estimated impact ${index.impact.toFixed(1)}%): ${index.createStatement}`)
+      )
+    }
+
+    if (stmt.implicitConversions.length > 0) {
+      lines.push('', 'Implicit conversion warnings:')
+      stmt.implicitConversions.forEach((warning) => lines.push(`- ${warning.issue}: ${warning.expression}`))
+    }
+  })
+
+  return lines.join('\n')
+}
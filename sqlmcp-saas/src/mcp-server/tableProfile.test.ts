@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { buildSampleQuery, buildHistogram, profileColumn, TableProfileCache, TableProfile } from './tableProfile'
+
+const options = { topN: 2, histogramBins: 4 }
+
+describe('Table profile', () => {
+  it('should profile nulls, distinct values, top values and string lengths', () => {
+    const profile = profileColumn(
+      { name: 'Status', type: 'nvarchar(20)', nullable: true },
+      ['open', 'closed', 'open', null, 'pending', 'open', null, 'closed'],
+      options
+    )
+
+    expect(profile).toMatchObject({
+      category: 'string',
+      nullCount: 2,
+      nullRatio: 0.25,
+      distinctCount: 3,
+      min: 'closed',
+      max: 'pending',
+      minLength: 4,
+      maxLength: 7,
+      topValues: [
+        { value: 'open', count: 3 },
+        { value: 'closed', count: 2 },
+      ],
+    })
+  })
+
+  it('should bucket numeric values into an even histogram', () => {
+    expect(buildHistogram([0, 1, 2, 3, 4, 5, 6, 7, 8], 4)).toEqual([
+      { from: 0, to: 2, count: 2 },
+      { from: 2, to: 4, count: 2 },
+      { from: 4, to: 6, count: 2 },
+      { from: 6, to: 8, count: 3 },
+    ])
+    expect(buildHistogram([5, 5], 4)).toEqual([{ from: 5, to: 5, count: 2 }])
+
+    const profile = profileColumn({ name: 'Total', type: 'bigint', nullable: false }, ['10', '30', '20'], options)
+    expect(profile.min).toBe(10)
+    expect(profile.max).toBe(30)
+  })
+
+  it('should pick the sampling method from the row count and cache by signature', () => {
+    expect(buildSampleQuery('dbo', 'Orders', 500, 1000).method).toBe('full')
+    expect(buildSampleQuery('dbo', 'Orders', 5000, 1000).query).toBe('SELECT TOP (1000) * FROM [dbo].[Orders]')
+    expect(buildSampleQuery('dbo', 'Orders', 1000000, 1000).query).toBe(
+      'SELECT TOP (1000) * FROM [dbo].[Orders] TABLESAMPLE (0.2 PERCENT)'
+    )
+
+    const cache = new TableProfileCache()
+    const profile: TableProfile = {
+      schema: 'dbo',
+      table: 'Orders',
+      rowCount: 1,
+      sampledRows: 1,
+      sampleMethod: 'full',
+      columns: [],
+    }
+    const modified = new Date('2024-01-01T00:00:00Z')
+    cache.set('dbo', 'Orders', TableProfileCache.signature(modified, 1, options), profile)
+
+    expect(cache.get('DBO', 'orders', TableProfileCache.signature(modified, 1, options))).toBe(profile)
+    expect(cache.get('dbo', 'Orders', TableProfileCache.signature(modified, 2, options))).toBeNull()
+    cache.invalidate('dbo', 'Orders')
+    expect(cache.get('dbo', 'Orders', TableProfileCache.signature(modified, 1, options))).toBeNull()
+  })
+})
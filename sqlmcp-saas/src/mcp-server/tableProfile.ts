@@ -0,0 +1,265 @@
+// Per-column statistics over a bounded sample of a table.
+//
+// The sample is read once and profiled in memory, so any number of columns
+// costs a single query against the customer's server.
+
+import { ColumnMetadata } from './resultFormatter'
+
+// Rows read per profile, and values listed per column
+export const DEFAULT_PROFILE_SAMPLE = 1000
+export const MAX_PROFILE_SAMPLE = 10000
+export const MAX_PROFILE_TOP_N = 20
+
+export type ColumnCategory = 'numeric' | 'string' | 'date' | 'other'
+
+export interface ValueFrequency {
+  value: string
+  count: number
+}
+
+export interface HistogramBin {
+  from: number
+  to: number
+  count: number
+}
+
+export interface ColumnProfile {
+  name: string
+  type: string
+  category: ColumnCategory
+  nullCount: number
+  nullRatio: number
+  distinctCount: number
+  min?: string | number
+  max?: string | number
+  topValues: ValueFrequency[]
+  minLength?: number
+  maxLength?: number
+  avgLength?: number
+  histogram?: HistogramBin[]
+}
+
+export interface TableProfile {
+  schema: string
+  table: string
+  rowCount: number
+  sampledRows: number
+  sampleMethod: 'full' | 'top' | 'tablesample'
+  columns: ColumnProfile[]
+}
+
+export interface ProfileOptions {
+  topN: number
+  histogramBins: number
+}
+
+const NUMERIC_TYPES = ['tinyint', 'smallint', 'int', 'bigint', 'decimal', 'numeric', 'float', 'real', 'money', 'smallmoney']
+const STRING_TYPES = ['char', 'varchar', 'nchar', 'nvarchar', 'text', 'ntext', 'uniqueidentifier']
+const DATE_TYPES = ['date', 'datetime', 'datetime2', 'smalldatetime', 'datetimeoffset', 'time']
+
+export function columnCategory(type: string): ColumnCategory {
+  const base = type.replace(/\(.*$/, '').toLowerCase()
+  if (NUMERIC_TYPES.includes(base)) return 'numeric'
+  if (STRING_TYPES.includes(base)) return 'string'
+  if (DATE_TYPES.includes(base)) return 'date'
+  return 'other'
+}
+
+// TABLESAMPLE picks whole pages, so it only pays off once the table is well
+// beyond the sample size. The percentage is doubled to make a short sample
+// unlikely; TOP still bounds the rows read back.
+export function buildSampleQuery(
+  schema: string,
+  table: string,
+  rowCount: number,
+  sampleSize: number
+): { query: string; method: TableProfile['sampleMethod'] } {
+  const source = `[${schema.replace(/\]/g, ']]')}].[${table.replace(/\]/g, ']]')}]`
+
+  if (rowCount <= sampleSize) {
+    return { query: `SELECT * FROM ${source}`, method: 'full' }
+  }
+  if (rowCount < sampleSize * 10) {
+    return { query: `SELECT TOP (${sampleSize}) * FROM ${source}`, method: 'top' }
+  }
+
+  const percent = Math.min(100, Math.ceil(((sampleSize * 2) / rowCount) * 100 * 1000) / 1000)
+  return {
+    query: `SELECT TOP (${sampleSize}) * FROM ${source} TABLESAMPLE (${percent} PERCENT)`,
+    method: 'tablesample',
+  }
+}
+
+function displayValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString()
+  if (Buffer.isBuffer(value)) return `0x${value.toString('hex').toUpperCase()}`
+  return String(value)
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+export function buildHistogram(values: number[], bins: number): HistogramBin[] {
+  if (values.length === 0) return []
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  if (min === max) return [{ from: min, to: max, count: values.length }]
+
+  const width = (max - min) / bins
+  const histogram = Array.from({ length: bins }, (_, i) => ({
+    from: round(min + i * width),
+    to: round(i === bins - 1 ? max : min + (i + 1) * width),
+    count: 0,
+  }))
+  for (const value of values) {
+    histogram[Math.min(bins - 1, Math.floor((value - min) / width))].count++
+  }
+  return histogram
+}
+
+export function profileColumn(column: ColumnMetadata, values: unknown[], options: ProfileOptions): ColumnProfile {
+  const category = columnCategory(column.type)
+  const present = values.filter((value) => value !== null && value !== undefined)
+
+  const frequencies = new Map<string, number>()
+  for (const value of present) {
+    const key = displayValue(value)
+    frequencies.set(key, (frequencies.get(key) || 0) + 1)
+  }
+
+  const profile: ColumnProfile = {
+    name: column.name,
+    type: column.type,
+    category,
+    nullCount: values.length - present.length,
+    nullRatio: values.length > 0 ? round((values.length - present.length) / values.length) : 0,
+    distinctCount: frequencies.size,
+    topValues: Array.from(frequencies.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, options.topN)
+      .map(([value, count]) => ({ value, count })),
+  }
+
+  if (present.length === 0) return profile
+
+  if (category === 'numeric') {
+    // bigint arrives as a string to keep its precision; statistics can
+    // afford to lose it
+    const numbers = present.map((value) => Number(value)).filter((value) => Number.isFinite(value))
+    if (numbers.length > 0) {
+      profile.min = Math.min(...numbers)
+      profile.max = Math.max(...numbers)
+      profile.histogram = buildHistogram(numbers, options.histogramBins)
+    }
+  } else if (category === 'date') {
+    const sorted = present.map(displayValue).sort()
+    profile.min = sorted[0]
+    profile.max = sorted[sorted.length - 1]
+  } else if (category === 'string') {
+    const strings = present.map(displayValue)
+    const lengths = strings.map((value) => value.length)
+    const sorted = [...strings].sort()
+    profile.min = sorted[0]
+    profile.max = sorted[sorted.length - 1]
+    profile.minLength = Math.min(...lengths)
+    profile.maxLength = Math.max(...lengths)
+    profile.avgLength = round(lengths.reduce((sum, length) => sum + length, 0) / lengths.length, 1)
+  }
+
+  return profile
+}
+
+export function profileRows(
+  columns: ColumnMetadata[],
+  rows: Record<string, unknown>[],
+  options: ProfileOptions
+): ColumnProfile[] {
+  return columns.map((column) => profileColumn(column, rows.map((row) => row[column.name]), options))
+}
+
+function percent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`
+}
+
+function truncate(value: string, length = 40): string {
+  return value.length > length ? `${value.substring(0, length - 3)}...` : value
+}
+
+export function formatTableProfile(profile: TableProfile): string {
+  const sampleNote =
+    profile.sampleMethod === 'full'
+      ? 'all rows profiled'
+      : `profiled a sample of ${profile.sampledRows.toLocaleString()} rows${
+          profile.sampleMethod === 'tablesample' ? ' using TABLESAMPLE' : ''
+        }`
+
+  const sections = [
+    `# Profile: ${profile.schema}.${profile.table}`,
+    `~${profile.rowCount.toLocaleString()} rows; ${sampleNote}. Distinct counts and top values are for the sample.`,
+  ]
+
+  for (const column of profile.columns) {
+    const lines = [
+      `## ${column.name} (${column.type})`,
+      `- Nulls: ${column.nullCount.toLocaleString()} (${percent(column.nullRatio)})`,
+      `- Distinct: ${column.distinctCount.toLocaleString()}`,
+    ]
+    if (column.min !== undefined) {
+      lines.push(`- Range: ${truncate(String(column.min))} to ${truncate(String(column.max))}`)
+    }
+    if (column.minLength !== undefined) {
+      lines.push(`- Length: ${column.minLength} to ${column.maxLength} (avg ${column.avgLength})`)
+    }
+    if (column.topValues.length > 0) {
+      lines.push(
+        `- Top values: ${column.topValues.map((top) => `${truncate(top.value)} (${top.count})`).join(', ')}`
+      )
+    }
+    if (column.histogram && column.histogram.length > 1) {
+      lines.push(
+        `- Histogram: ${column.histogram.map((bin) => `[${bin.from}, ${bin.to}]: ${bin.count}`).join(', ')}`
+      )
+    }
+    sections.push(lines.join('\n'))
+  }
+
+  return sections.join('\n\n')
+}
+
+interface CachedProfile {
+  signature: string
+  profile: TableProfile
+}
+
+// Keeps the last profile of each table. A profile is reused while the
+// table's modify_date, row count and the profiling options are unchanged.
+export class TableProfileCache {
+  private profiles = new Map<string, CachedProfile>()
+
+  static signature(modifiedAt: Date | string | number, rowCount: number, options: object): string {
+    return JSON.stringify([new Date(modifiedAt).getTime(), rowCount, options])
+  }
+
+  get(schema: string, table: string, signature: string): TableProfile | null {
+    const cached = this.profiles.get(this.key(schema, table))
+    return cached && cached.signature === signature ? cached.profile : null
+  }
+
+  set(schema: string, table: string, signature: string, profile: TableProfile): void {
+    this.profiles.set(this.key(schema, table), { signature, profile })
+  }
+
+  invalidate(schema: string, table: string): void {
+    this.profiles.delete(this.key(schema, table))
+  }
+
+  clear(): void {
+    this.profiles.clear()
+  }
+
+  private key(schema: string, table: string): string {
+    return `${schema}.${table}`.toLowerCase()
+  }
+}
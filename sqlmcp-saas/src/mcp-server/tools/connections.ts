@@ -0,0 +1,67 @@
+// Tools that open, list and switch the database connections of a session
+
+import { z } from 'zod/v4'
+import { connectionArgument, defineTool } from './registry'
+
+export const connectDatabase = defineTool({
+  name: 'connect_database',
+  description:
+    'Connect to a SQL Server database. Connections are kept open side by side under their names, and the newest becomes active',
+  input: z.object({
+    name: z
+      .string()
+      .optional()
+      .describe('Name for this connection (default: the database name). Reusing a name replaces that connection'),
+    server: z.string().describe('SQL Server hostname or IP'),
+    database: z.string().describe('Database name'),
+    user: z.string().describe('Username'),
+    password: z.string().describe('Password'),
+    port: z.number().int().positive().optional().describe('Port number (default: 1433)'),
+    encrypt: z.boolean().optional().describe('Use encryption (default: true)'),
+    readOnlyIntent: z.boolean().optional().describe('Connect with ApplicationIntent=ReadOnly (default: false)'),
+  }),
+  session: true,
+  // Hidden when the account only allows saved connections
+  available: (core) => core.allowsRawCredentials(),
+  handler: ({ encrypt, ...config }, { core }) =>
+    core.connectDatabase({ ...config, options: encrypt === undefined ? undefined : { encrypt } }),
+})
+
+export const useConnection = defineTool({
+  name: 'use_connection',
+  description:
+    'Connect to a database saved in the dashboard. Credentials stay on the server; the connection is opened under its saved name and becomes active',
+  input: z.object({
+    name: z.string().describe('Saved connection name or ID'),
+  }),
+  session: true,
+  available: (core) => core.hasSavedConnections(),
+  handler: ({ name }, { core }) => core.useConnection(name),
+})
+
+export const listConnections = defineTool({
+  name: 'list_connections',
+  description: 'List the open database connections and which one is active',
+  input: z.object({}),
+  session: true,
+  handler: async (_, { core }) => core.listConnections(),
+})
+
+export const switchConnection = defineTool({
+  name: 'switch_connection',
+  description: 'Make another open connection the active one, used by tools that do not name a connection',
+  input: z.object({
+    name: z.string().describe('Connection name'),
+  }),
+  session: true,
+  handler: ({ name }, { core }) => core.switchConnection(name),
+})
+
+export const testConnection = defineTool({
+  name: 'test_connection',
+  description: 'Test the database connection',
+  input: z.object({
+    connection: connectionArgument,
+  }),
+  handler: ({ connection }, { core, call }) => core.testConnection(connection, call),
+})
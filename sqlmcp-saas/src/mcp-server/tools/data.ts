@@ -0,0 +1,109 @@
+// Tools that read and change rows
+
+import { z } from 'zod/v4'
+import { normalizeQuery } from '../queryValidator'
+import { RESULT_FORMATS, QUERY_RESULT_OUTPUT_SCHEMA } from '../resultFormatter'
+import { DEFAULT_PROFILE_SAMPLE, MAX_PROFILE_SAMPLE, MAX_PROFILE_TOP_N } from '../tableProfile'
+import { connectionArgument, defineTool, freshArgument, timeoutMsArgument } from './registry'
+
+function formatArgument(description: string) {
+  return z.enum(RESULT_FORMATS).default('markdown').describe(description)
+}
+
+export const queryData = defineTool({
+  name: 'query_data',
+  description:
+    'Execute a SELECT query on the database. Returns a cursor for next_page when more rows exist; add an ORDER BY on a unique key for stable pages',
+  input: z.object({
+    query: z.string().describe('SQL SELECT query to execute'),
+    limit: z.number().int().positive().default(100).describe('Maximum number of rows to return'),
+    format: formatArgument(
+      'Text rendering of the rows: markdown table, JSON with column metadata, CSV, or structured (rows only in structured content)'
+    ),
+    timeoutMs: timeoutMsArgument,
+    fresh: freshArgument,
+    connection: connectionArgument,
+  }),
+  outputSchema: QUERY_RESULT_OUTPUT_SCHEMA,
+  // The same query with different whitespace or comments is a hit
+  cacheKey: ({ query, limit, format }) => [normalizeQuery(query), limit, format],
+  handler: ({ connection, query, limit, format }, { core, call }) =>
+    core.queryData(connection, query, limit, format, call),
+})
+
+export const getTableSample = defineTool({
+  name: 'get_table_sample',
+  description: 'Get a sample of data from a table',
+  input: z.object({
+    tableName: z.string().describe('Table name'),
+    sampleSize: z.number().int().positive().default(10).describe('Number of rows to sample'),
+    format: formatArgument('Text rendering of the rows (see query_data)'),
+    timeoutMs: timeoutMsArgument,
+    fresh: freshArgument,
+    connection: connectionArgument,
+  }),
+  outputSchema: QUERY_RESULT_OUTPUT_SCHEMA,
+  cacheKey: ({ tableName, sampleSize, format }) => [tableName, sampleSize, format],
+  handler: ({ connection, tableName, sampleSize, format }, { core, call }) =>
+    core.getTableSample(connection, tableName, sampleSize, format, call),
+})
+
+export const nextPage = defineTool({
+  name: 'next_page',
+  description: 'Fetch the next page of a query_data or get_table_sample result',
+  input: z.object({
+    cursor: z.string().describe('Cursor returned with the previous page'),
+    format: formatArgument('Text rendering of the rows (see query_data)'),
+    timeoutMs: timeoutMsArgument,
+  }),
+  outputSchema: QUERY_RESULT_OUTPUT_SCHEMA,
+  handler: ({ cursor, format }, { core, call }) => core.nextPage(cursor, format, call),
+})
+
+export const profileTable = defineTool({
+  name: 'profile_table',
+  description:
+    'Profile the columns of a table from a bounded sample: null ratio, distinct count, min/max, top values, string lengths and numeric histograms',
+  input: z.object({
+    tableName: z.string().describe('Table name (can include schema: schema.table)'),
+    sampleSize: z
+      .number()
+      .int()
+      .positive()
+      .default(DEFAULT_PROFILE_SAMPLE)
+      .describe(`Rows to sample (max ${MAX_PROFILE_SAMPLE})`),
+    topN: z
+      .number()
+      .int()
+      .positive()
+      .default(5)
+      .describe(`Most frequent values to list per column (max ${MAX_PROFILE_TOP_N})`),
+    timeoutMs: timeoutMsArgument,
+    connection: connectionArgument,
+  }),
+  handler: ({ connection, tableName, sampleSize, topN }, { core, call }) =>
+    core.profileTable(connection, tableName, sampleSize, topN, call),
+})
+
+export const executeDml = defineTool({
+  name: 'execute_dml',
+  description:
+    'Change data with a single INSERT, UPDATE or DELETE on a table the connection owner has allowlisted for writes. ' +
+    'The first call is a dry run in a transaction that is rolled back: it returns the affected row count, ' +
+    'before/after samples and a confirmation token. Call again with only the confirmationToken to commit',
+  input: z.object({
+    statement: z.string().optional().describe('INSERT, UPDATE or DELETE statement to preview'),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe('Token returned by a dry run; commits the previewed statement'),
+    timeoutMs: timeoutMsArgument,
+    connection: connectionArgument,
+  }),
+  // Only offered while a connection in write mode is open
+  available: (core) => core.hasWritableConnection(),
+  handler: ({ connection, statement, confirmationToken }, { core, call }) =>
+    confirmationToken
+      ? core.commitWrite(confirmationToken, call)
+      : core.previewWrite(connection, statement, call),
+})
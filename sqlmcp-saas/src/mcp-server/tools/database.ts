@@ -0,0 +1,24 @@
+// Tools about the database as a whole
+
+import { z } from 'zod/v4'
+import { connectionArgument, defineTool, timeoutMsArgument } from './registry'
+
+export const getDatabaseInfo = defineTool({
+  name: 'get_database_info',
+  description: 'Get information about the connected database',
+  input: z.object({
+    connection: connectionArgument,
+  }),
+  handler: ({ connection }, { core, call }) => core.getDatabaseInfo(connection, call),
+})
+
+export const analyzeQuery = defineTool({
+  name: 'analyze_query',
+  description: 'Analyze a query without executing it (estimated execution plan)',
+  input: z.object({
+    query: z.string().describe('SQL query to analyze'),
+    timeoutMs: timeoutMsArgument,
+    connection: connectionArgument,
+  }),
+  handler: ({ connection, query }, { core, call }) => core.analyzeQuery(connection, query, call),
+})
@@ -0,0 +1,72 @@
+// Every tool the server can offer, and the profiles that pick which of them
+// a server lists. Both profiles run on the same SqlServerMcpServer core, so a
+// tool behaves the same whichever profile it is offered in.
+
+import { ToolDefinition, ToolRegistry } from './registry'
+import { connectDatabase, useConnection, listConnections, switchConnection, testConnection } from './connections'
+import { listTables, listViews, searchSchema, describeTable, getRelationships } from './schema'
+import { queryData, getTableSample, nextPage, profileTable, executeDml } from './data'
+import { listProcedures, describeProcedure, executeProcedure } from './procedures'
+import { getDatabaseInfo, analyzeQuery } from './database'
+
+export * from './registry'
+export * from './types'
+
+export const ALL_TOOLS: ToolDefinition[] = [
+  connectDatabase,
+  useConnection,
+  listConnections,
+  switchConnection,
+  testConnection,
+  listTables,
+  listViews,
+  searchSchema,
+  describeTable,
+  queryData,
+  getTableSample,
+  nextPage,
+  getRelationships,
+  listProcedures,
+  describeProcedure,
+  executeProcedure,
+  executeDml,
+  profileTable,
+  getDatabaseInfo,
+  analyzeQuery,
+]
+
+export type ToolProfile = 'simple' | 'full'
+
+// simple serves one database the host connected beforehand, with schema
+// browsing and read-only queries; full adds connection management,
+// procedures, writes and analysis
+export const TOOL_PROFILES: Record<ToolProfile, readonly string[]> = {
+  simple: ['list_tables', 'list_views', 'describe_table', 'query_data', 'next_page', 'test_connection'],
+  full: [
+    'connect_database',
+    'use_connection',
+    'list_connections',
+    'switch_connection',
+    'list_tables',
+    'list_views',
+    'search_schema',
+    'describe_table',
+    'query_data',
+    'get_table_sample',
+    'next_page',
+    'get_relationships',
+    'list_procedures',
+    'describe_procedure',
+    'execute_procedure',
+    'execute_dml',
+    'profile_table',
+    'get_database_info',
+    'analyze_query',
+  ],
+}
+
+const allTools = new ToolRegistry(ALL_TOOLS)
+
+export function createToolRegistry(profile: ToolProfile): ToolRegistry {
+  return allTools.select(TOOL_PROFILES[profile])
+}
@@ -0,0 +1,44 @@
+// Tools for stored procedures, which run only when allowlisted
+
+import { z } from 'zod/v4'
+import { connectionArgument, defineTool, timeoutMsArgument } from './registry'
+
+const procedureNameArgument = z.string().describe('Procedure name (can include schema: schema.procedure)')
+
+export const listProcedures = defineTool({
+  name: 'list_procedures',
+  description: 'List stored procedures, marking those allowed to run with execute_procedure',
+  input: z.object({
+    schema: z.string().optional().describe('Schema name (optional)'),
+    connection: connectionArgument,
+  }),
+  handler: ({ connection, schema }, { core, call }) => core.listProcedures(connection, schema, call),
+})
+
+export const describeProcedure = defineTool({
+  name: 'describe_procedure',
+  description: 'Get the parameters of a stored procedure with their types, directions and defaults',
+  input: z.object({
+    procedureName: procedureNameArgument,
+    connection: connectionArgument,
+  }),
+  handler: ({ connection, procedureName }, { core, call }) =>
+    core.describeProcedure(connection, procedureName, call),
+})
+
+export const executeProcedure = defineTool({
+  name: 'execute_procedure',
+  description:
+    'Run a stored procedure that the connection owner has allowlisted. Returns every result set, output parameters and the return value',
+  input: z.object({
+    procedureName: procedureNameArgument,
+    parameters: z
+      .record(z.string(), z.unknown())
+      .default({})
+      .describe('Parameter values keyed by name, with or without the leading @'),
+    timeoutMs: timeoutMsArgument,
+    connection: connectionArgument,
+  }),
+  handler: ({ connection, procedureName, parameters }, { core, call }) =>
+    core.executeProcedure(connection, procedureName, parameters, call),
+})
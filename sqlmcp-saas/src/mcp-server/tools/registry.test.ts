@@ -0,0 +1,73 @@
+import { vi, describe, it, expect } from 'vitest'
+import { ALL_TOOLS, ToolArgumentError, ToolCore, createToolRegistry, parseToolArguments } from './index'
+
+function fakeCore(overrides: Partial<ToolCore> = {}): ToolCore {
+  return {
+    allowsRawCredentials: async () => true,
+    hasSavedConnections: () => false,
+    hasWritableConnection: () => false,
+    ...overrides,
+  } as ToolCore
+}
+
+describe('ToolRegistry', () => {
+  it('should list JSON Schemas generated from the zod schemas', async () => {
+    const tools = await createToolRegistry('full').list(fakeCore())
+    const byName = new Map(tools.map((tool) => [tool.name, tool]))
+
+    const describeTable = byName.get('describe_table')!.inputSchema
+    expect(describeTable.$schema).toBeUndefined()
+    expect(describeTable.required).toEqual(['tableName'])
+    expect(Object.keys(describeTable.properties as object)).toEqual(['tableName', 'fresh', 'connection'])
+
+    const queryData = byName.get('query_data')!
+    expect((queryData.inputSchema.properties as any).limit).toMatchObject({ type: 'integer', default: 100 })
+    expect((queryData.inputSchema.properties as any).format.enum).toEqual(['markdown', 'json', 'csv', 'structured'])
+    expect(queryData.outputSchema).toBeDefined()
+  })
+
+  it('should apply defaults and name every invalid argument', () => {
+    const queryData = ALL_TOOLS.find((tool) => tool.name === 'query_data')!
+
+    expect(parseToolArguments(queryData, { query: 'SELECT 1' })).toEqual({
+      query: 'SELECT 1',
+      limit: 100,
+      format: 'markdown',
+    })
+    expect(() => parseToolArguments(queryData, { limit: 'ten', format: 'xml' })).toThrow(ToolArgumentError)
+    expect(() => parseToolArguments(queryData, { limit: 'ten' })).toThrow(
+      /Invalid arguments for query_data: query: .*; limit: /
+    )
+
+    const listTables = ALL_TOOLS.find((tool) => tool.name === 'list_tables')!
+    expect(() => parseToolArguments(listTables, { schema: 'x'.repeat(129) })).toThrow(ToolArgumentError)
+  })
+
+  it('should offer each profile its tools, hiding those that are not available', async () => {
+    const simple = createToolRegistry('simple')
+    expect(simple.names).toEqual(['list_tables', 'list_views', 'describe_table', 'query_data', 'next_page', 'test_connection'])
+    expect(() => simple.get('execute_dml')).toThrow('Unknown tool: execute_dml')
+
+    const full = createToolRegistry('full')
+    const listed = async (core: ToolCore) => (await full.list(core)).map((tool) => tool.name)
+    expect(await listed(fakeCore())).not.toContain('execute_dml')
+    expect(await listed(fakeCore())).not.toContain('use_connection')
+    expect(await listed(fakeCore({ allowsRawCredentials: async () => false }))).not.toContain('connect_database')
+    expect(await listed(fakeCore({ hasWritableConnection: () => true, hasSavedConnections: () => true }))).toEqual(
+      expect.arrayContaining(['execute_dml', 'use_connection', 'connect_database'])
+    )
+  })
+
+  it('should pass schema-qualified table names through to the core in every profile', async () => {
+    const describeTable = vi.fn(async () => ({ content: [{ type: 'text', text: 'ok' }] }))
+    const core = fakeCore({ describeTable })
+
+    for (const profile of ['simple', 'full'] as const) {
+      const tool = createToolRegistry(profile).get('describe_table')
+      await tool.handler(parseToolArguments(tool, { tableName: 'sales.Orders' }), { core, call: null as any })
+    }
+
+    expect(describeTable).toHaveBeenCalledTimes(2)
+    expect(describeTable).toHaveBeenCalledWith(undefined, 'sales.Orders', null)
+  })
+})
@@ -0,0 +1,135 @@
+// Tools as data: each one is a zod schema for its arguments, a handler and
+// the metadata the server needs to run it. The JSON Schema clients see in
+// tools/list is generated from the zod schema, and every call's arguments are
+// parsed with it before the handler runs, so handlers get typed, defaulted
+// values instead of casting whatever the client sent.
+
+import { z } from 'zod/v4'
+import { ToolContext, ToolCore, ToolResult } from './types'
+
+export interface ToolDefinition<Schema extends z.ZodObject = z.ZodObject> {
+  name: string
+  description: string
+  input: Schema
+  // JSON Schema of structuredContent, for tools that return it
+  outputSchema?: Record<string, unknown>
+  // Session management tools are neither rate limited nor counted against
+  // the monthly quota
+  session?: boolean
+  // The arguments that shape the result, for tools whose results are cached
+  // per connection (see ResultCache)
+  cacheKey?: (args: z.output<Schema>) => unknown[]
+  // Tools listed only while this holds, e.g. execute_dml while a connection
+  // in write mode is open
+  available?: (core: ToolCore) => boolean | Promise<boolean>
+  handler: (args: z.output<Schema>, context: ToolContext) => Promise<ToolResult>
+}
+
+export interface ListedTool {
+  name: string
+  description: string
+  inputSchema: { type: 'object'; [key: string]: unknown }
+  outputSchema?: Record<string, unknown>
+}
+
+export class ToolArgumentError extends Error {
+  constructor(toolName: string, error: z.ZodError) {
+    const problems = error.issues.map(
+      (issue) => `${issue.path.length > 0 ? issue.path.join('.') : 'arguments'}: ${issue.message}`
+    )
+    super(`Invalid arguments for ${toolName}: ${problems.join('; ')}`)
+    this.name = 'ToolArgumentError'
+  }
+}
+
+// Keeps the handler's argument type checked against the schema while
+// storing every tool under the same type
+export function defineTool<Schema extends z.ZodObject>(tool: ToolDefinition<Schema>): ToolDefinition {
+  return tool as unknown as ToolDefinition
+}
+
+// Arguments shared by many tools
+export const connectionArgument = z
+  .string()
+  .optional()
+  .describe('Name of the connection to use (default: the active connection)')
+
+export const freshArgument = z
+  .boolean()
+  .optional()
+  .describe('Skip the result cache and read from the database (default: false)')
+
+export const timeoutMsArgument = z
+  .number()
+  .positive()
+  .optional()
+  .describe('Cancel the query after this many milliseconds (capped by your plan)')
+
+export function inputJsonSchema(schema: z.ZodObject): ListedTool['inputSchema'] {
+  // Clients read the schema inline; the $schema dialect marker is noise
+  const { $schema, ...json } = z.toJSONSchema(schema, { io: 'input' })
+  return json as ListedTool['inputSchema']
+}
+
+// The call's arguments, parsed with the tool's schema. Throws
+// ToolArgumentError naming every argument that does not fit.
+export function parseToolArguments(tool: ToolDefinition, args: unknown): Record<string, unknown> {
+  const parsed = tool.input.safeParse(args ?? {})
+  if (!parsed.success) {
+    throw new ToolArgumentError(tool.name, parsed.error)
+  }
+  return parsed.data
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>()
+  private listed = new Map<string, ListedTool>()
+
+  constructor(tools: ToolDefinition[] = []) {
+    tools.forEach((tool) => this.register(tool))
+  }
+
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool '${tool.name}' is already registered`)
+    }
+    this.tools.set(tool.name, tool)
+    // Generated once; schemas do not change after registration
+    this.listed.set(tool.name, {
+      name: tool.name,
+      description: tool.description,
+      inputSchema: inputJsonSchema(tool.input),
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+    })
+  }
+
+  get(name: string): ToolDefinition {
+    const tool = this.tools.get(name)
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`)
+    }
+    return tool
+  }
+
+  get names(): string[] {
+    return Array.from(this.tools.keys())
+  }
+
+  // A registry with only the named tools, in that order, sharing their
+  // generated schemas
+  select(names: readonly string[]): ToolRegistry {
+    const selected = new ToolRegistry()
+    names.forEach((name) => {
+      selected.tools.set(name, this.get(name))
+      selected.listed.set(name, this.listed.get(name)!)
+    })
+    return selected
+  }
+
+  // The tools available right now, as tools/list returns them
+  async list(core: ToolCore): Promise<ListedTool[]> {
+    const tools = Array.from(this.tools.values())
+    const available = await Promise.all(tools.map((tool) => (tool.available ? tool.available(core) : true)))
+    return tools.filter((_, i) => available[i]).map((tool) => this.listed.get(tool.name)!)
+  }
+}
@@ -0,0 +1,90 @@
+// Tools that read schema metadata: tables, views, columns and relationships
+
+import { z } from 'zod/v4'
+import { SEARCH_OBJECT_TYPES, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from '../schemaSearch'
+import { connectionArgument, defineTool, freshArgument } from './registry'
+
+// Schema names are sysname, at most 128 characters
+const schemaArgument = z.string().max(128).optional().describe('Schema name (default: all schemas)')
+
+export const listTables = defineTool({
+  name: 'list_tables',
+  description: 'List all tables in the connected database with row counts',
+  input: z.object({
+    schema: schemaArgument,
+    fresh: freshArgument,
+    connection: connectionArgument,
+  }),
+  cacheKey: ({ schema }) => [schema || null],
+  handler: ({ connection, schema }, { core, call }) => core.listTables(connection, schema, call),
+})
+
+export const listViews = defineTool({
+  name: 'list_views',
+  description: 'List all views in the connected database',
+  input: z.object({
+    schema: schemaArgument,
+    fresh: freshArgument,
+    connection: connectionArgument,
+  }),
+  cacheKey: ({ schema }) => [schema || null],
+  handler: ({ connection, schema }, { core, call }) => core.listViews(connection, schema, call),
+})
+
+export const searchSchema = defineTool({
+  name: 'search_schema',
+  description:
+    'Search tables, views, procedures and functions by name, column name, MS_Description or routine body. Results are ranked, with the matching context',
+  input: z.object({
+    query: z
+      .string()
+      .describe("Keyword, or a pattern where * matches any characters and ? one character (e.g. 'Cust*Id')"),
+    objectTypes: z
+      .array(z.enum(SEARCH_OBJECT_TYPES))
+      .default([])
+      .describe('Object types to search (default: all)'),
+    schema: schemaArgument,
+    offset: z.number().int().nonnegative().default(0).describe('Number of results to skip'),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .default(DEFAULT_SEARCH_LIMIT)
+      .describe(`Maximum results to return (max ${MAX_SEARCH_LIMIT})`),
+    connection: connectionArgument,
+  }),
+  handler: ({ connection, query, objectTypes, schema, offset, limit }, { core, call }) =>
+    core.searchSchema(connection, query, objectTypes, schema, offset, limit, call),
+})
+
+export const describeTable = defineTool({
+  name: 'describe_table',
+  description: 'Get detailed schema information for a table including indexes and constraints',
+  input: z.object({
+    tableName: z.string().describe('Table name (can include schema: schema.table)'),
+    fresh: freshArgument,
+    connection: connectionArgument,
+  }),
+  cacheKey: ({ tableName }) => [tableName],
+  handler: ({ connection, tableName }, { core, call }) => core.describeTable(connection, tableName, call),
+})
+
+export const getRelationships = defineTool({
+  name: 'get_relationships',
+  description:
+    'Get foreign key relationships with referenced columns and cascade rules, find a join path between two tables, or draw a Mermaid ER diagram',
+  input: z.object({
+    tables: z
+      .array(z.string())
+      .default([])
+      .describe('Only relationships touching these tables (default: all tables)'),
+    from: z.string().optional().describe('Find a join path starting at this table'),
+    to: z.string().optional().describe('Find a join path ending at this table'),
+    diagram: z.boolean().default(false).describe('Include a Mermaid erDiagram of the relationships'),
+    fresh: freshArgument,
+    connection: connectionArgument,
+  }),
+  cacheKey: ({ tables, from, to, diagram }) => [tables, from || null, to || null, diagram],
+  handler: ({ connection, tables, from, to, diagram }, { core, call }) =>
+    core.getRelationships(connection, tables, from, to, diagram, call),
+})
@@ -0,0 +1,94 @@
+// What a tool handler sees of the server it runs in.
+//
+// Handlers name the connection to use, or leave it to the active one; the
+// server resolves it, checks it is still open and runs the operation with the
+// call's timeout and cancellation.
+
+import type { ToolCall } from '../ToolCall'
+import type { ResultFormat } from '../resultFormatter'
+import type { SqlServerConfig } from '../SqlServerMcpServer'
+
+// A type rather than an interface, so that it fits the SDK's result types
+export type ToolResult = {
+  content: { type: string; text: string }[]
+  structuredContent?: Record<string, unknown>
+  isError?: boolean
+}
+
+export interface ToolCore {
+  // Whether the account may connect with credentials rather than a saved
+  // connection, whether saved connections exist on this server, and whether
+  // an open connection is in write mode
+  allowsRawCredentials(): Promise<boolean>
+  hasSavedConnections(): boolean
+  hasWritableConnection(): boolean
+
+  connectDatabase(config: SqlServerConfig): Promise<ToolResult>
+  useConnection(nameOrId: string): Promise<ToolResult>
+  listConnections(): ToolResult
+  switchConnection(name: string): Promise<ToolResult>
+  testConnection(connection: string | undefined, call: ToolCall): Promise<ToolResult>
+
+  listTables(connection: string | undefined, schema: string | undefined, call: ToolCall): Promise<ToolResult>
+  listViews(connection: string | undefined, schema: string | undefined, call: ToolCall): Promise<ToolResult>
+  searchSchema(
+    connection: string | undefined,
+    query: string,
+    objectTypes: string[],
+    schema: string | undefined,
+    offset: number,
+    limit: number,
+    call: ToolCall
+  ): Promise<ToolResult>
+  describeTable(connection: string | undefined, tableName: string, call: ToolCall): Promise<ToolResult>
+  getRelationships(
+    connection: string | undefined,
+    tables: string[],
+    from: string | undefined,
+    to: string | undefined,
+    diagram: boolean,
+    call: ToolCall
+  ): Promise<ToolResult>
+
+  queryData(
+    connection: string | undefined,
+    query: string,
+    limit: number,
+    format: ResultFormat,
+    call: ToolCall
+  ): Promise<ToolResult>
+  getTableSample(
+    connection: string | undefined,
+    tableName: string,
+    sampleSize: number,
+    format: ResultFormat,
+    call: ToolCall
+  ): Promise<ToolResult>
+  nextPage(cursor: string, format: ResultFormat, call: ToolCall): Promise<ToolResult>
+  profileTable(
+    connection: string | undefined,
+    tableName: string,
+    sampleSize: number,
+    topN: number,
+    call: ToolCall
+  ): Promise<ToolResult>
+  previewWrite(connection: string | undefined, statement: string | undefined, call: ToolCall): Promise<ToolResult>
+  commitWrite(confirmationToken: string, call: ToolCall): Promise<ToolResult>
+
+  listProcedures(connection: string | undefined, schema: string | undefined, call: ToolCall): Promise<ToolResult>
+  describeProcedure(connection: string | undefined, procedureName: string, call: ToolCall): Promise<ToolResult>
+  executeProcedure(
+    connection: string | undefined,
+    procedureName: string,
+    parameters: Record<string, unknown>,
+    call: ToolCall
+  ): Promise<ToolResult>
+
+  getDatabaseInfo(connection: string | undefined, call: ToolCall): Promise<ToolResult>
+  analyzeQuery(connection: string | undefined, query: string, call: ToolCall): Promise<ToolResult>
+}
+
+export interface ToolContext {
+  core: ToolCore
+  call: ToolCall
+}
@@ -40,6 +40,9 @@ export default async function handler(
         port: connection.port,
         username: connection.username,
         trustServerCert: connection.trustServerCert,
+        allowedProcedures: connection.allowedProcedures,
+        writeMode: connection.writeMode,
+        writableTables: connection.writableTables,
         isActive: connection.isActive,
         lastTestedAt: connection.lastTestedAt,
         createdAt: connection.createdAt,
@@ -56,6 +59,32 @@ export default async function handler(
         delete updates.userId
         delete updates.encryptedPassword // Handle password updates separately
         
+        if (updates.allowedProcedures !== undefined) {
+          const procedures = updates.allowedProcedures
+          if (
+            !Array.isArray(procedures) ||
+            procedures.some((name) => typeof name !== 'string' || !/^[^.]+\.[^.]+$/.test(name.trim()))
+          ) {
+            return res.status(400).json({ error: 'allowedProcedures must be a list of schema.procedure names' })
+          }
+          updates.allowedProcedures = Array.from(new Set(procedures.map((name: string) => name.trim())))
+        }
+
+        if (updates.writeMode !== undefined && typeof updates.writeMode !== 'boolean') {
+          return res.status(400).json({ error: 'writeMode must be true or false' })
+        }
+
+        if (updates.writableTables !== undefined) {
+          const tables = updates.writableTables
+          if (
+            !Array.isArray(tables) ||
+            tables.some((name) => typeof name !== 'string' || !/^[^.]+\.[^.]+$/.test(name.trim()))
+          ) {
+            return res.status(400).json({ error: 'writableTables must be a list of schema.table names' })
+          }
+          updates.writableTables = Array.from(new Set(tables.map((name: string) => name.trim())))
+        }
+
         // If updating name, check for duplicates
         if (updates.name && updates.name !== connection.name) {
           const existing = await prisma.connection.findFirst({
@@ -82,6 +111,9 @@ export default async function handler(
             name: true,
             server: true,
             database: true,
+            allowedProcedures: true,
+            writeMode: true,
+            writableTables: true,
             updatedAt: true,
           },
         })
@@ -95,10 +127,21 @@ export default async function handler(
     case 'DELETE':
       // Delete connection
       try {
-        // Delete all associated queries first
+        // Delete all associated queries and prompts first
         await prisma.query.deleteMany({
           where: { connectionId },
         })
+        await prisma.prompt.deleteMany({
+          where: { connectionId },
+        })
+        await prisma.maskingRule.deleteMany({
+          where: { connectionId },
+        })
+        // The write audit log outlives the connection; it keeps its name
+        await prisma.writeAudit.updateMany({
+          where: { connectionId },
+          data: { connectionId: null },
+        })
 
         // Delete the connection
         await prisma.connection.delete({
@@ -1,38 +1,11 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getServerSession } from 'next-auth'
 import { PrismaClient } from '@prisma/client'
-import crypto from 'crypto'
 import { authOptions } from '../auth/[...nextauth]'
+import { encryptPassword } from '../../../services/passwordEncryption'
 
 const prisma = new PrismaClient()
 
-// Simple encryption for connection passwords
-// In production, use Azure Key Vault or similar
-function encryptPassword(password: string, userId: string): string {
-  const algorithm = 'aes-256-cbc'
-  const key = crypto.scryptSync(process.env.ENCRYPTION_KEY || 'default-key', userId, 32)
-  const iv = crypto.randomBytes(16)
-  const cipher = crypto.createCipheriv(algorithm, key, iv)
-  
-  let encrypted = cipher.update(password, 'utf8', 'hex')
-  encrypted += cipher.final('hex')
-  
-  return iv.toString('hex') + ':' + encrypted
-}
-
-function decryptPassword(encryptedData: string, userId: string): string {
-  const algorithm = 'aes-256-cbc'
-  const key = crypto.scryptSync(process.env.ENCRYPTION_KEY || 'default-key', userId, 32)
-  const [ivHex, encrypted] = encryptedData.split(':')
-  const iv = Buffer.from(ivHex, 'hex')
-  
-  const decipher = crypto.createDecipheriv(algorithm, key, iv)
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8')
-  decrypted += decipher.final('utf8')
-  
-  return decrypted
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -84,6 +57,7 @@ export default async function handler(
           username,
           password,
           trustServerCertificate = false,
+          readOnlyIntent = false,
         } = req.body
 
         // Validate required fields
@@ -145,6 +119,7 @@ export default async function handler(
             username,
             encryptedPassword,
             trustServerCert: trustServerCertificate,
+            readOnlyIntent: readOnlyIntent === true,
             isActive: true,
             lastTestedAt: new Date(), // Assume it was tested during creation
           },
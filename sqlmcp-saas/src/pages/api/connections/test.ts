@@ -2,6 +2,7 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { getServerSession } from 'next-auth'
 import sql from 'mssql'
 import { authOptions } from '../auth/[...nextauth]'
+import { readPermissionReport } from '../../../mcp-server/permissions'
 
 export default async function handler(
   req: NextApiRequest,
@@ -18,7 +19,7 @@ export default async function handler(
     return res.status(401).json({ error: 'Unauthorized' })
   }
 
-  const { server, database, port, username, password, trustServerCertificate } = req.body
+  const { server, database, port, username, password, trustServerCertificate, readOnlyIntent } = req.body
 
   // Validate required fields
   if (!server || !database || !username || !password) {
@@ -38,6 +39,7 @@ export default async function handler(
       enableArithAbort: true,
       connectionTimeout: 15000, // 15 second timeout for testing
       requestTimeout: 15000,
+      readOnlyIntent: readOnlyIntent === true,
     },
     pool: {
       max: 1, // Only need one connection for testing
@@ -56,6 +58,13 @@ export default async function handler(
     // Run a simple test query
     const result = await connection.request().query`SELECT @@VERSION as version, DB_NAME() as database_name`
     
+    // Shown in the wizard, so owner and sysadmin logins are flagged before
+    // the connection is saved
+    const permissions = await readPermissionReport(connection).catch((permissionError) => {
+      console.error('Permission check failed:', permissionError)
+      return null
+    })
+
     if (result.recordset && result.recordset.length > 0) {
       const versionInfo = result.recordset[0].version
       const dbName = result.recordset[0].database_name
@@ -66,13 +75,15 @@ export default async function handler(
         details: {
           database: dbName,
           serverVersion: versionInfo.split('\n')[0], // First line of version info
-        }
+        },
+        permissions,
       })
     }
 
     return res.status(200).json({
       success: true,
       message: 'Connection successful',
+      permissions,
     })
 
   } catch (error) {
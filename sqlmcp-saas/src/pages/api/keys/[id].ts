@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getServerSession } from 'next-auth'
+import { PrismaClient } from '@prisma/client'
+import { authOptions } from '../auth/[...nextauth]'
+
+const prisma = new PrismaClient()
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions)
+  if (!session || !session.user?.id) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const userId = session.user.id
+  const keyId = req.query.id as string
+
+  // Verify the key belongs to the user
+  const apiKey = await prisma.apiKey.findFirst({
+    where: {
+      id: keyId,
+      userId,
+    },
+  })
+
+  if (!apiKey) {
+    return res.status(404).json({ error: 'API key not found' })
+  }
+
+  switch (req.method) {
+    case 'DELETE':
+      // Revoke rather than delete, so the key's history stays visible and
+      // clients still using it get a clear "revoked" error
+      try {
+        await prisma.apiKey.update({
+          where: { id: keyId },
+          data: {
+            isActive: false,
+            revokedAt: apiKey.revokedAt || new Date(),
+          },
+        })
+
+        return res.status(200).json({ success: true })
+      } catch (error) {
+        console.error('Error revoking API key:', error)
+        return res.status(500).json({ error: 'Failed to revoke API key' })
+      }
+
+    default:
+      return res.status(405).json({ error: 'Method not allowed' })
+  }
+}
@@ -0,0 +1,99 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getServerSession } from 'next-auth'
+import { PrismaClient } from '@prisma/client'
+import { authOptions } from '../auth/[...nextauth]'
+import { generateApiKey } from '../../../services/apiKeyTokens'
+
+const prisma = new PrismaClient()
+
+const MAX_EXPIRY_DAYS = 365
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions)
+  if (!session || !session.user?.id) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const userId = session.user.id
+
+  switch (req.method) {
+    case 'GET':
+      // Get the user's API keys. Tokens are never stored, so only their
+      // prefixes can be shown.
+      try {
+        const keys = await prisma.apiKey.findMany({
+          where: {
+            userId,
+          },
+          select: {
+            id: true,
+            name: true,
+            keyPrefix: true,
+            lastUsedAt: true,
+            expiresAt: true,
+            isActive: true,
+            revokedAt: true,
+            createdAt: true,
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+        })
+
+        return res.status(200).json(keys)
+      } catch (error) {
+        console.error('Error fetching API keys:', error)
+        return res.status(500).json({ error: 'Failed to fetch API keys' })
+      }
+
+    case 'POST':
+      // Issue a new API key. The token is returned in this response only.
+      try {
+        const { name, expiresInDays } = req.body
+
+        if (!name || typeof name !== 'string' || !name.trim()) {
+          return res.status(400).json({ error: 'Missing required fields' })
+        }
+
+        if (
+          expiresInDays !== undefined &&
+          expiresInDays !== null &&
+          (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)
+        ) {
+          return res.status(400).json({
+            error: `expiresInDays must be a whole number from 1 to ${MAX_EXPIRY_DAYS}`,
+          })
+        }
+
+        const { token, hashedKey, keyPrefix } = generateApiKey()
+
+        const apiKey = await prisma.apiKey.create({
+          data: {
+            userId,
+            name: name.trim(),
+            hashedKey,
+            keyPrefix,
+            expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+          },
+          select: {
+            id: true,
+            name: true,
+            keyPrefix: true,
+            expiresAt: true,
+            createdAt: true,
+          },
+        })
+
+        return res.status(201).json({ ...apiKey, token })
+      } catch (error) {
+        console.error('Error creating API key:', error)
+        return res.status(500).json({ error: 'Failed to create API key' })
+      }
+
+    default:
+      return res.status(405).json({ error: 'Method not allowed' })
+  }
+}
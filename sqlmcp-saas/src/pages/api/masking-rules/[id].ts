@@ -0,0 +1,75 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getServerSession } from 'next-auth'
+import { PrismaClient } from '@prisma/client'
+import { authOptions } from '../auth/[...nextauth]'
+import { validateMaskingRule } from '../../../mcp-server/masking'
+
+const prisma = new PrismaClient()
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions)
+  if (!session || !session.user?.id) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const userId = session.user.id
+  const ruleId = req.query.id as string
+
+  // Verify the rule belongs to the user
+  const rule = await prisma.maskingRule.findFirst({
+    where: {
+      id: ruleId,
+      userId,
+    },
+  })
+
+  if (!rule) {
+    return res.status(404).json({ error: 'Masking rule not found' })
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return res.status(200).json(rule)
+
+    case 'PATCH':
+      // Update how the rule matches and masks
+      try {
+        const matchType = req.body.matchType ?? rule.matchType
+        const pattern = req.body.pattern ?? rule.pattern
+        const action = req.body.action ?? rule.action
+
+        const invalid = validateMaskingRule(matchType, pattern, action)
+        if (invalid) {
+          return res.status(400).json({ error: invalid })
+        }
+
+        const updated = await prisma.maskingRule.update({
+          where: { id: ruleId },
+          data: { matchType, pattern: pattern.trim(), action },
+        })
+
+        return res.status(200).json(updated)
+      } catch (error) {
+        console.error('Error updating masking rule:', error)
+        return res.status(500).json({ error: 'Failed to update masking rule' })
+      }
+
+    case 'DELETE':
+      try {
+        await prisma.maskingRule.delete({
+          where: { id: ruleId },
+        })
+
+        return res.status(200).json({ success: true })
+      } catch (error) {
+        console.error('Error deleting masking rule:', error)
+        return res.status(500).json({ error: 'Failed to delete masking rule' })
+      }
+
+    default:
+      return res.status(405).json({ error: 'Method not allowed' })
+  }
+}
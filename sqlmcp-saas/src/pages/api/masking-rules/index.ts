@@ -0,0 +1,82 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getServerSession } from 'next-auth'
+import { PrismaClient } from '@prisma/client'
+import { authOptions } from '../auth/[...nextauth]'
+import { validateMaskingRule } from '../../../mcp-server/masking'
+
+const prisma = new PrismaClient()
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions)
+  if (!session || !session.user?.id) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const userId = session.user.id
+
+  switch (req.method) {
+    case 'GET':
+      // Get masking rules, optionally for a single connection
+      try {
+        const connectionId = req.query.connectionId as string | undefined
+
+        const rules = await prisma.maskingRule.findMany({
+          where: {
+            userId,
+            ...(connectionId ? { connectionId } : {}),
+          },
+          orderBy: {
+            createdAt: 'asc',
+          },
+        })
+
+        return res.status(200).json(rules)
+      } catch (error) {
+        console.error('Error fetching masking rules:', error)
+        return res.status(500).json({ error: 'Failed to fetch masking rules' })
+      }
+
+    case 'POST':
+      // Create a new masking rule
+      try {
+        const { matchType, pattern, action, connectionId = null } = req.body
+
+        const invalid = validateMaskingRule(matchType, pattern, action)
+        if (invalid) {
+          return res.status(400).json({ error: invalid })
+        }
+
+        // Verify the connection belongs to the user
+        if (connectionId) {
+          const connection = await prisma.connection.findFirst({
+            where: { id: connectionId, userId },
+          })
+
+          if (!connection) {
+            return res.status(404).json({ error: 'Connection not found' })
+          }
+        }
+
+        const rule = await prisma.maskingRule.create({
+          data: {
+            userId,
+            connectionId,
+            matchType,
+            pattern: pattern.trim(),
+            action,
+          },
+        })
+
+        return res.status(201).json(rule)
+      } catch (error) {
+        console.error('Error creating masking rule:', error)
+        return res.status(500).json({ error: 'Failed to create masking rule' })
+      }
+
+    default:
+      return res.status(405).json({ error: 'Method not allowed' })
+  }
+}
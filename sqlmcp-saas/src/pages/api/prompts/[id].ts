@@ -0,0 +1,77 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getServerSession } from 'next-auth'
+import { PrismaClient } from '@prisma/client'
+import { authOptions } from '../auth/[...nextauth]'
+import { checkPromptFields } from '../../../mcp-server/prompts'
+
+const prisma = new PrismaClient()
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions)
+  if (!session || !session.user?.id) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const userId = session.user.id
+  const promptId = req.query.id as string
+
+  // Verify the prompt belongs to the user
+  const prompt = await prisma.prompt.findFirst({
+    where: {
+      id: promptId,
+      userId,
+    },
+  })
+
+  if (!prompt) {
+    return res.status(404).json({ error: 'Prompt not found' })
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return res.status(200).json(prompt)
+
+    case 'PATCH':
+      // Update prompt text and arguments
+      try {
+        const { description, template, arguments: promptArguments } = req.body
+
+        const invalid = checkPromptFields({ description, template, arguments: promptArguments }, true)
+        if (invalid) {
+          return res.status(400).json({ error: `Invalid prompt: ${invalid}` })
+        }
+
+        const updated = await prisma.prompt.update({
+          where: { id: promptId },
+          data: {
+            ...(description !== undefined ? { description } : {}),
+            ...(template !== undefined ? { template } : {}),
+            ...(promptArguments !== undefined ? { arguments: promptArguments } : {}),
+          },
+        })
+
+        return res.status(200).json(updated)
+      } catch (error) {
+        console.error('Error updating prompt:', error)
+        return res.status(500).json({ error: 'Failed to update prompt' })
+      }
+
+    case 'DELETE':
+      try {
+        await prisma.prompt.delete({
+          where: { id: promptId },
+        })
+
+        return res.status(200).json({ success: true })
+      } catch (error) {
+        console.error('Error deleting prompt:', error)
+        return res.status(500).json({ error: 'Failed to delete prompt' })
+      }
+
+    default:
+      return res.status(405).json({ error: 'Method not allowed' })
+  }
+}
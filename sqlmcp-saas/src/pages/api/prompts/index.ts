@@ -0,0 +1,120 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getServerSession } from 'next-auth'
+import { PrismaClient } from '@prisma/client'
+import { authOptions } from '../auth/[...nextauth]'
+import { BUILT_IN_PROMPTS, checkPromptFields } from '../../../mcp-server/prompts'
+
+const prisma = new PrismaClient()
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions)
+  if (!session || !session.user?.id) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const userId = session.user.id
+
+  switch (req.method) {
+    case 'GET':
+      // Get custom prompts, optionally for a single connection
+      try {
+        const connectionId = req.query.connectionId as string | undefined
+
+        const prompts = await prisma.prompt.findMany({
+          where: {
+            userId,
+            ...(connectionId ? { connectionId } : {}),
+          },
+          orderBy: {
+            name: 'asc',
+          },
+        })
+
+        return res.status(200).json(prompts)
+      } catch (error) {
+        console.error('Error fetching prompts:', error)
+        return res.status(500).json({ error: 'Failed to fetch prompts' })
+      }
+
+    case 'POST':
+      // Create a new prompt
+      try {
+        const {
+          name,
+          description,
+          template,
+          arguments: promptArguments = [],
+          connectionId = null,
+        } = req.body
+
+        // Validate required fields
+        if (!name || !template) {
+          return res.status(400).json({ error: 'Missing required fields' })
+        }
+
+        if (!/^[a-z0-9_]+$/.test(name)) {
+          return res.status(400).json({
+            error: 'Prompt name may only contain lowercase letters, numbers and underscores',
+          })
+        }
+
+        const invalid = checkPromptFields({ description, template, arguments: promptArguments })
+        if (invalid) {
+          return res.status(400).json({ error: `Invalid prompt: ${invalid}` })
+        }
+
+        if (BUILT_IN_PROMPTS.some((p) => p.name === name)) {
+          return res.status(409).json({ error: `'${name}' is a built-in prompt` })
+        }
+
+        // Verify the connection belongs to the user
+        if (connectionId) {
+          const connection = await prisma.connection.findFirst({
+            where: { id: connectionId, userId },
+          })
+
+          if (!connection) {
+            return res.status(404).json({ error: 'Connection not found' })
+          }
+        }
+
+        // Postgres treats NULL connection IDs as distinct, so the unique
+        // index lets two global prompts share a name. Creating a name is
+        // serialized per user with an advisory lock and checked here instead.
+        const prompt = await prisma.$transaction(async (tx) => {
+          await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`prompt:${userId}:${name}`}))`
+
+          const existing = await tx.prompt.findFirst({
+            where: { userId, connectionId, name },
+          })
+          if (existing) return null
+
+          return await tx.prompt.create({
+            data: {
+              userId,
+              connectionId,
+              name,
+              description,
+              template,
+              arguments: promptArguments,
+            },
+          })
+        })
+
+        if (!prompt) {
+          return res.status(409).json({ error: 'Prompt name already exists' })
+        }
+
+        return res.status(201).json(prompt)
+      } catch (error) {
+        console.error('Error creating prompt:', error)
+        return res.status(500).json({ error: 'Failed to create prompt' })
+      }
+
+    default:
+      return res.status(405).json({ error: 'Method not allowed' })
+  }
+}
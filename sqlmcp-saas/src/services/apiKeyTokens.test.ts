@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { generateApiKey, hashApiKey, isApiKeyFormat } from './apiKeyTokens'
+
+describe('API key tokens', () => {
+  it('should issue prefixed tokens that are stored only as hashes', () => {
+    const key = generateApiKey()
+
+    expect(isApiKeyFormat(key.token)).toBe(true)
+    expect(key.keyPrefix).toBe(key.token.substring(0, 13))
+    expect(key.hashedKey).toBe(hashApiKey(key.token))
+    expect(key.hashedKey).not.toContain(key.token.substring(7))
+    expect(generateApiKey().token).not.toBe(key.token)
+    expect(isApiKeyFormat('sk_live_abc')).toBe(false)
+  })
+})
@@ -0,0 +1,33 @@
+import crypto from 'crypto'
+
+// MCP API keys are random tokens with a fixed prefix, so they are easy to
+// recognise in config files and secret scanners. Only a SHA-256 hash of the
+// token is stored; the token is shown to the user once, when it is issued.
+export const API_KEY_PREFIX = 'sqlmcp_'
+
+// Characters kept in the clear to tell keys apart in the dashboard
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6
+
+export interface GeneratedApiKey {
+  token: string
+  hashedKey: string
+  keyPrefix: string
+}
+
+export function generateApiKey(): GeneratedApiKey {
+  const token = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url')
+  return {
+    token,
+    hashedKey: hashApiKey(token),
+    keyPrefix: token.substring(0, DISPLAY_PREFIX_LENGTH),
+  }
+}
+
+// Tokens carry 256 random bits, so a fast unsalted hash is enough
+export function hashApiKey(token: string): string {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex')
+}
+
+export function isApiKeyFormat(token: string): boolean {
+  return new RegExp(`^${API_KEY_PREFIX}[A-Za-z0-9_-]{43}$`).test(token)
+}
@@ -0,0 +1,64 @@
+// API key service for API calls related to MCP API keys
+
+interface ApiKey {
+  id: string
+  name: string
+  keyPrefix: string
+  lastUsedAt: string | null
+  expiresAt: string | null
+  isActive: boolean
+  revokedAt: string | null
+  createdAt: string
+}
+
+interface CreatedApiKey extends Pick<ApiKey, 'id' | 'name' | 'keyPrefix' | 'expiresAt' | 'createdAt'> {
+  // Shown once; only its hash is stored
+  token: string
+}
+
+// Helper function to handle API responses
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || `HTTP error! status: ${response.status}`)
+  }
+  return response.json()
+}
+
+// Get all API keys for the current user
+export async function getApiKeys(): Promise<ApiKey[]> {
+  const response = await fetch('/api/keys', {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+
+  return handleResponse<ApiKey[]>(response)
+}
+
+// Issue a new API key, optionally expiring after a number of days
+export async function createApiKey(name: string, expiresInDays?: number): Promise<CreatedApiKey> {
+  const response = await fetch('/api/keys', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ name, expiresInDays }),
+  })
+
+  return handleResponse<CreatedApiKey>(response)
+}
+
+// Revoke an API key. MCP sessions using it are closed, and their requests
+// refused, the next time the server rechecks the key (every 30 seconds).
+export async function revokeApiKey(keyId: string): Promise<void> {
+  const response = await fetch(`/api/keys/${keyId}`, {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+
+  await handleResponse<{ success: boolean }>(response)
+}
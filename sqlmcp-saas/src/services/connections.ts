@@ -1,5 +1,10 @@
 // Connection service for API calls related to SQL Server connections
 
+// Type-only, so the browser bundle does not pull in the server module
+import type { PermissionReport } from '../mcp-server/permissions'
+
+export type { PermissionReport }
+
 interface ConnectionTestData {
   server: string
   database: string
@@ -7,6 +12,7 @@ interface ConnectionTestData {
   username: string
   password: string
   trustServerCertificate?: boolean
+  readOnlyIntent?: boolean
 }
 
 interface ConnectionData extends ConnectionTestData {
@@ -18,6 +24,7 @@ interface ConnectionData extends ConnectionTestData {
 interface TestConnectionResponse {
   success: boolean
   message: string
+  permissions?: PermissionReport | null
 }
 
 interface SavedConnection {
@@ -25,6 +32,9 @@ interface SavedConnection {
   name: string
   server: string
   database: string
+  allowedProcedures?: string[]
+  writeMode?: boolean
+  writableTables?: string[]
   createdAt?: string
 }
 
@@ -97,5 +107,47 @@ export async function updateConnection(connectionId: string, data: Partial<Conne
     body: JSON.stringify(data),
   })
 
+  return handleResponse<SavedConnection>(response)
+}
+
+// Get a single connection (without password)
+export async function getConnection(connectionId: string): Promise<SavedConnection> {
+  const response = await fetch(`/api/connections/${connectionId}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+
+  return handleResponse<SavedConnection>(response)
+}
+
+// Replace the stored procedures the MCP server may execute on a connection
+export async function updateAllowedProcedures(connectionId: string, allowedProcedures: string[]): Promise<SavedConnection> {
+  const response = await fetch(`/api/connections/${connectionId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ allowedProcedures }),
+  })
+
+  return handleResponse<SavedConnection>(response)
+}
+
+// Turn write mode on or off and set the tables execute_dml may change
+export async function updateWriteMode(
+  connectionId: string,
+  writeMode: boolean,
+  writableTables: string[]
+): Promise<SavedConnection> {
+  const response = await fetch(`/api/connections/${connectionId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ writeMode, writableTables }),
+  })
+
   return handleResponse<SavedConnection>(response)
 }
\ No newline at end of file
@@ -0,0 +1,81 @@
+// Masking rule service for API calls related to column masking
+
+import type { MaskAction, MaskMatchType } from '../mcp-server/masking'
+
+export type { MaskAction, MaskMatchType }
+
+interface MaskingRuleData {
+  matchType: MaskMatchType
+  pattern: string
+  action: MaskAction
+  connectionId?: string | null
+}
+
+export interface SavedMaskingRule extends MaskingRuleData {
+  id: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+// Helper function to handle API responses
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || `HTTP error! status: ${response.status}`)
+  }
+  return response.json()
+}
+
+// Get masking rules, optionally only those for one connection
+export async function getMaskingRules(connectionId?: string): Promise<SavedMaskingRule[]> {
+  const query = connectionId ? `?connectionId=${encodeURIComponent(connectionId)}` : ''
+  const response = await fetch(`/api/masking-rules${query}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+
+  return handleResponse<SavedMaskingRule[]>(response)
+}
+
+// Save a new masking rule
+export async function saveMaskingRule(data: MaskingRuleData): Promise<SavedMaskingRule> {
+  const response = await fetch('/api/masking-rules', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  })
+
+  return handleResponse<SavedMaskingRule>(response)
+}
+
+// Update a masking rule
+export async function updateMaskingRule(
+  ruleId: string,
+  data: Partial<Omit<MaskingRuleData, 'connectionId'>>
+): Promise<SavedMaskingRule> {
+  const response = await fetch(`/api/masking-rules/${ruleId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  })
+
+  return handleResponse<SavedMaskingRule>(response)
+}
+
+// Delete a masking rule
+export async function deleteMaskingRule(ruleId: string): Promise<void> {
+  const response = await fetch(`/api/masking-rules/${ruleId}`, {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+
+  await handleResponse<{ success: boolean }>(response)
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { encryptPassword, decryptPassword } from './passwordEncryption'
+
+describe('Password encryption', () => {
+  it('should decrypt only with the key of the user who saved the password', () => {
+    const encrypted = encryptPassword('s3cret!', 'user-1')
+
+    expect(encrypted).toMatch(/^[0-9a-f]{32}:[0-9a-f]+$/)
+    expect(encrypted).not.toContain('s3cret!')
+    expect(decryptPassword(encrypted, 'user-1')).toBe('s3cret!')
+
+    // A wrong key almost always fails the padding check, but may not
+    let otherUser: string | null = null
+    try {
+      otherUser = decryptPassword(encrypted, 'user-2')
+    } catch {
+      // expected
+    }
+    expect(otherUser).not.toBe('s3cret!')
+  })
+})
@@ -0,0 +1,30 @@
+import crypto from 'crypto'
+
+// Encryption for saved connection passwords, shared by the connections API
+// and the MCP server. Keys are derived per user, so a password only decrypts
+// for the user who saved it.
+// In production, use Azure Key Vault or similar
+export function encryptPassword(password: string, userId: string): string {
+  const algorithm = 'aes-256-cbc'
+  const key = crypto.scryptSync(process.env.ENCRYPTION_KEY || 'default-key', userId, 32)
+  const iv = crypto.randomBytes(16)
+  const cipher = crypto.createCipheriv(algorithm, key, iv)
+  
+  let encrypted = cipher.update(password, 'utf8', 'hex')
+  encrypted += cipher.final('hex')
+  
+  return iv.toString('hex') + ':' + encrypted
+}
+
+export function decryptPassword(encryptedData: string, userId: string): string {
+  const algorithm = 'aes-256-cbc'
+  const key = crypto.scryptSync(process.env.ENCRYPTION_KEY || 'default-key', userId, 32)
+  const [ivHex, encrypted] = encryptedData.split(':')
+  const iv = Buffer.from(ivHex, 'hex')
+  
+  const decipher = crypto.createDecipheriv(algorithm, key, iv)
+  let decrypted = decipher.update(encrypted, 'hex', 'utf8')
+  decrypted += decipher.final('utf8')
+  
+  return decrypted
+}
@@ -0,0 +1,84 @@
+// Prompt service for API calls related to custom MCP prompts
+
+interface PromptArgument {
+  name: string
+  description?: string
+  required?: boolean
+}
+
+interface PromptData {
+  name: string
+  description?: string
+  template: string
+  arguments?: PromptArgument[]
+  connectionId?: string | null
+}
+
+interface SavedPrompt extends PromptData {
+  id: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+// Helper function to handle API responses
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || `HTTP error! status: ${response.status}`)
+  }
+  return response.json()
+}
+
+// Get custom prompts, optionally only those for one connection
+export async function getPrompts(connectionId?: string): Promise<SavedPrompt[]> {
+  const query = connectionId ? `?connectionId=${encodeURIComponent(connectionId)}` : ''
+  const response = await fetch(`/api/prompts${query}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+
+  return handleResponse<SavedPrompt[]>(response)
+}
+
+// Save a new prompt
+export async function savePrompt(data: PromptData): Promise<SavedPrompt> {
+  const response = await fetch('/api/prompts', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  })
+
+  return handleResponse<SavedPrompt>(response)
+}
+
+// Update a prompt
+export async function updatePrompt(
+  promptId: string,
+  data: Partial<Omit<PromptData, 'name' | 'connectionId'>>
+): Promise<SavedPrompt> {
+  const response = await fetch(`/api/prompts/${promptId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  })
+
+  return handleResponse<SavedPrompt>(response)
+}
+
+// Delete a prompt
+export async function deletePrompt(promptId: string): Promise<void> {
+  const response = await fetch(`/api/prompts/${promptId}`, {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+
+  await handleResponse<{ success: boolean }>(response)
+}
\ No newline at end of file